@@ -1,5 +1,5 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { CssBaseline } from '@mui/material';
 import HomePage from './pages/HomePage';
 import LoginPage from './pages/LoginPage';
@@ -8,9 +8,16 @@ import IssueDetailPage from './pages/IssueDetailPage';
 import ReportIssuePage from './pages/ReportIssuePage';
 import AdminDashboardPage from './pages/AdminDashboardPage';
 import ProfilePage from './pages/ProfilePage';
+import MapPage from './pages/MapPage';
+import SearchPage from './pages/SearchPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
 import NotFoundPage from './pages/NotFoundPage';
 import { ThemeProvider } from './hooks/useTheme';
 import { AuthProvider, useAuth } from './hooks/useAuth';
+import usePermission from './hooks/usePermission';
+import { PermissionAction } from './utils/permissions';
 import { NotificationProvider } from './hooks/useNotification';
 import NotificationSystem from './components/common/NotificationSystem';
 import ErrorBoundary from './components/common/ErrorBoundary';
@@ -18,11 +25,14 @@ import ErrorBoundary from './components/common/ErrorBoundary';
 // Protected route component that uses our useAuth hook
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  adminOnly?: boolean;
+  /** Action the user must be allowed to perform to see the route */
+  permission?: PermissionAction;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, adminOnly = false }) => {
-  const { user, isAuthenticated, loading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { isAuthenticated, loading } = useAuth();
+  const { can } = usePermission();
+  const location = useLocation();
 
   if (loading) {
     // Return a loading spinner
@@ -33,13 +43,13 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, adminOnly = f
     );
   }
 
-  // Check if user is authenticated
+  // Check if user is authenticated; login returns here afterwards, state included
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
-  // Check if route requires admin access
-  if (adminOnly && user?.role !== 'admin') {
+  // Check if the route is limited to some roles
+  if (permission && !can(permission)) {
     return <Navigate to="/" replace />;
   }
 
@@ -60,11 +70,16 @@ const App: React.FC = () => {
               <Route path="/" element={<HomePage />} />
               <Route path="/login" element={<LoginPage />} />
               <Route path="/register" element={<RegisterPage />} />
+              <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+              <Route path="/reset-password" element={<ResetPasswordPage />} />
+              <Route path="/verify-email" element={<VerifyEmailPage />} />
               <Route path="/issues/:id" element={<IssueDetailPage />} />
+              <Route path="/map" element={<MapPage />} />
+              <Route path="/search" element={<SearchPage />} />
               <Route 
                 path="/report" 
                 element={
-                  <ProtectedRoute>
+                  <ProtectedRoute permission="issue:report">
                     <ReportIssuePage />
                   </ProtectedRoute>
                 } 
@@ -72,7 +87,7 @@ const App: React.FC = () => {
               <Route 
                 path="/admin" 
                 element={
-                  <ProtectedRoute adminOnly={true}>
+                  <ProtectedRoute permission="admin:access">
                     <AdminDashboardPage />
                   </ProtectedRoute>
                 } 
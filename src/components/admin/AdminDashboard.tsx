@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Box,
   Typography,
@@ -26,9 +26,15 @@ import {
   Grid,
   Card,
   CardContent,
+  CardActionArea,
   Divider,
-  Avatar,
-  InputAdornment
+  InputAdornment,
+  TableSortLabel,
+  FormControlLabel,
+  Switch,
+  Checkbox,
+  Toolbar,
+  LinearProgress
 } from '@mui/material';
 import {
   Visibility as VisibilityIcon,
@@ -41,21 +47,38 @@ import {
   Dashboard as DashboardIcon,
   Report as ReportIcon,
   Person as PersonIcon,
-  Warning as WarningIcon
+  Warning as WarningIcon,
+  MergeType as MergeIcon,
+  AssignmentInd as AssignIcon,
+  Timer as OverdueIcon,
+  OutlinedFlag as ClearFlagsIcon
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
-import { Issue, IssueStatus, IssueCategory, User } from '../../types';
-import issueService from '../../services/issueService';
-import { useApi, useFiltering, usePagination, useTheme, useNotification } from '../../hooks';
+import { Issue, IssueStatus, IssueCategory, ISSUE_RETENTION_DAYS } from '../../types';
+import issueService, { IssueFilterParams } from '../../services/issueService';
+import departmentService from '../../services/departmentService';
+import { useApi, useServerList, useTheme, useNotification, usePermission, FilterValues, ServerListQuery } from '../../hooks';
+import { getCommentRequirement, getNextStatuses } from '../../utils/statusTransitions';
 // Add missing imports
 import statusRequestService from '../../services/statusRequestService';
+import UserManagement from './UserManagement';
+import IssueTrash from './IssueTrash';
+import MergeIssuesDialog from './MergeIssuesDialog';
+import AssignIssueDialog from './AssignIssueDialog';
+import MyQueue from './MyQueue';
+import IssueAnalytics from './IssueAnalytics';
+import ExportIssuesMenu from './ExportIssuesMenu';
+import BulkActionDialog, { BulkAction } from './BulkActionDialog';
+import SlaChip from '../issues/SlaChip';
 import { StatusRequest, StatusRequestAction, StatusRequestState } from '../../types';
 import { ChangeCircle as RequestIcon, Check as CheckIcon, Clear as RejectIcon } from '@mui/icons-material';
 
+type AdminTab = 'queue' | 'issues' | 'flagged' | 'requests' | 'analytics' | 'users' | 'trash';
+
 interface TabPanelProps {
   children?: React.ReactNode;
-  index: number;
-  value: number;
+  index: AdminTab;
+  value: AdminTab;
 }
 
 function TabPanel(props: TabPanelProps) {
@@ -78,7 +101,37 @@ function TabPanel(props: TabPanelProps) {
   );
 }
 
-function a11yProps(index: number) {
+// Statuses of issues that still need work
+const OPEN_STATUSES = Object.values(IssueStatus).filter(
+  status => status !== IssueStatus.RESOLVED && status !== IssueStatus.CLOSED
+);
+
+// Dashboard counts, each the total the backend reports for a one-row query, so they cover every issue
+const loadIssueStats = async () => {
+  const count = async (filters: IssueFilterParams) =>
+    (await issueService.searchIssues({ ...filters, limit: 1 })).pagination.total;
+
+  const [totalIssues, resolvedIssues, pendingIssues, flaggedIssues, overdueIssues] = await Promise.all([
+    count({}),
+    count({ status: IssueStatus.RESOLVED }),
+    count({ statuses: OPEN_STATUSES }),
+    count({ isFlagged: true }),
+    count({ overdue: true })
+  ]);
+  return { totalIssues, resolvedIssues, pendingIssues, flaggedIssues, overdueIssues };
+};
+
+// Map the issues table filters onto the backend's query parameters
+const toIssueFilterParams = (filters: FilterValues, query?: Pick<ServerListQuery, 'sort' | 'order'>): IssueFilterParams => ({
+  search: filters.searchTerm ? String(filters.searchTerm) : undefined,
+  status: filters.status !== 'all' ? filters.status as IssueStatus : undefined,
+  category: filters.category !== 'all' ? filters.category as IssueCategory : undefined,
+  overdue: filters.overdue ? true : undefined,
+  sort: query?.sort,
+  order: query?.order
+});
+
+function a11yProps(index: AdminTab) {
   return {
     id: `admin-tab-${index}`,
     'aria-controls': `admin-tabpanel-${index}`,
@@ -89,112 +142,130 @@ const AdminDashboard: React.FC = () => {
   const { theme } = useTheme();
   const navigate = useNavigate();
   const { showSuccess, showError } = useNotification();
+  const { can } = usePermission();
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [tabValue, setTabValue] = useState(0);
+  // Department staff land on their own work queue
+  const [tabValue, setTabValue] = useState<AdminTab>(() => can('queue:view') ? 'queue' : 'issues');
   
   // Use our custom hook for API calls
   const { 
-    data: issues = [], 
+    data: issueStats,
     loading, 
     error: apiError,
-    execute: fetchIssues
-  } = useApi(issueService.getAllIssues);
+    execute: fetchIssueStats
+  } = useApi(loadIssueStats, { resetOnFetch: false });
   
-  // Status requests API call
+  // Only the total is used, for the pending requests badge
   const {
-    data: statusRequestsData,
-    loading: statusRequestsLoading,
-    error: statusRequestsError,
+    data: pendingStatusRequestsData,
     execute: fetchStatusRequests
   } = useApi(statusRequestService.adminGetStatusRequests);
+
+  const { data: departments, execute: fetchDepartments } = useApi(departmentService.getDepartments);
   
-  const [flaggedIssues, setFlaggedIssues] = useState<Issue[]>([]);
-  const [users, setUsers] = useState<User[]>([]);
-  
-  // Use our custom filtering hook
+  // All issues table, paged, filtered and sorted by the backend
   const {
+    items: paginatedIssues,
+    serverPagination: issuesPagination,
+    loading: issuesLoading,
+    error: issuesError,
+    refresh: refreshIssuesTable,
     filters,
+    debouncedFilters,
     setFilter,
-    filteredData: filteredIssues
-  } = useFiltering({
-    data: issues ?? [],
-    initialFilters: {
-      searchTerm: '',
-      status: 'all',
-      category: 'all'
-    },
-    filterFn: (issue, filters) => {
-      const searchTermLower = filters.searchTerm ? String(filters.searchTerm).toLowerCase() : '';
-      const titleStr = issue.title !== undefined && issue.title !== null ? issue.title.toString().toLowerCase() : '';
-      const descriptionStr = issue.description !== undefined && issue.description !== null ? issue.description.toString().toLowerCase() : '';
-      const matchesSearch = !filters.searchTerm || 
-        titleStr.includes(searchTermLower) || 
-        descriptionStr.includes(searchTermLower);
-      
-      const matchesStatus = filters.status === 'all' || issue.status === filters.status;
-      const matchesCategory = filters.category === 'all' || issue.category === filters.category;
-      
-      return matchesSearch && matchesStatus && matchesCategory;
+    sortConfig,
+    setSort,
+    page,
+    pageSize: rowsPerPage,
+    setPage,
+    setPageSize: setRowsPerPage
+  } = useServerList(
+    useCallback(async (query: ServerListQuery, signal: AbortSignal) => {
+      const result = await issueService.searchIssues(
+        { ...toIssueFilterParams(query.filters, query), page: query.page, limit: query.limit },
+        { signal }
+      );
+      return { items: result.issues, pagination: result.pagination };
+    }, []),
+    {
+      initialFilters: {
+        searchTerm: '',
+        status: 'all',
+        category: 'all',
+        overdue: false
+      },
+      textFilters: ['searchTerm']
     }
-  });
+  );
+  const filteredIssueCount = issuesPagination?.total ?? 0;
 
-  // Status requests filtering
+  // Status requests table, paged and filtered by the backend
   const {
+    items: paginatedStatusRequests,
+    serverPagination: statusRequestsPagination,
+    loading: statusRequestsLoading,
+    error: statusRequestsError,
+    refresh: refreshStatusRequestsTable,
     filters: statusRequestFilters,
     setFilter: setStatusRequestFilter,
-    filteredData: filteredStatusRequests
-  } = useFiltering({
-    data: statusRequestsData?.statusRequests ?? [],
-    initialFilters: {
-      searchTerm: '',
-      status: 'all'
-    },
-    filterFn: (request, filters) => {
-      const searchTermLower = filters.searchTerm ? String(filters.searchTerm).toLowerCase() : '';
-      const matchesSearch = !filters.searchTerm || 
-        (request.requestedBy && request.requestedBy.toLowerCase().includes(searchTermLower)) ||
-        (request.issue?.title && request.issue.title.toLowerCase().includes(searchTermLower));
-      
-      const matchesStatus = filters.status === 'all' || request.status === filters.status;
-      
-      return matchesSearch && matchesStatus;
-    }
-  });
-  
-  // Use our custom pagination hook
-  const {
-    page,
-    pageSize: rowsPerPage,
-    setPage,
-    setPageSize: setRowsPerPage,
-    metadata
-  } = usePagination({
-    initialPage: 0,
-    initialPageSize: 10,
-    totalItems: filteredIssues.length
-  });
-
-  // Status requests pagination
-  const {
     page: statusRequestsPage,
     pageSize: statusRequestsRowsPerPage,
     setPage: setStatusRequestsPage,
     setPageSize: setStatusRequestsRowsPerPage
-  } = usePagination({
-    initialPage: 0,
-    initialPageSize: 10,
-    totalItems: filteredStatusRequests.length
-  });
+  } = useServerList(
+    useCallback(async (query: ServerListQuery, signal: AbortSignal) => {
+      // The tab is hidden from users who can't review requests; don't ask for a list they can't load
+      if (!can('statusRequest:review')) {
+        return { items: [], pagination: { total: 0, page: 1, limit: query.limit, totalPages: 0 } };
+      }
+      const result = await statusRequestService.adminGetStatusRequests({
+        search: query.filters.searchTerm ? String(query.filters.searchTerm) : undefined,
+        status: query.filters.status !== 'all' ? query.filters.status as StatusRequestState : undefined,
+        page: query.page,
+        limit: query.limit
+      }, { signal });
+      return { items: result.statusRequests, pagination: result.pagination };
+    }, [can]),
+    {
+      initialFilters: {
+        searchTerm: '',
+        status: 'all'
+      },
+      textFilters: ['searchTerm']
+    }
+  );
+  
+  // Flagged issues table, paged by the backend
+  const {
+    items: flaggedIssues,
+    serverPagination: flaggedPagination,
+    loading: flaggedLoading,
+    error: flaggedError,
+    refresh: refreshFlaggedTable,
+    page: flaggedPage,
+    pageSize: flaggedRowsPerPage,
+    setPage: setFlaggedPage,
+    setPageSize: setFlaggedRowsPerPage
+  } = useServerList(
+    useCallback(async (query: ServerListQuery, signal: AbortSignal) => {
+      // Hidden from users who can't review flags, like the status requests tab
+      if (!can('flag:review')) {
+        return { items: [], pagination: { total: 0, page: 1, limit: query.limit, totalPages: 0 } };
+      }
+      const result = await issueService.searchIssues({ isFlagged: true, page: query.page, limit: query.limit }, { signal });
+      return { items: result.issues, pagination: result.pagination };
+    }, [can])
+  );
   
   // Stats
-  const [stats, setStats] = useState({
-    totalIssues: 0,
-    resolvedIssues: 0,
-    pendingIssues: 0,
-    flaggedIssues: 0,
-    totalUsers: 0,
-    pendingStatusRequests: 0
-  });
+  const stats = {
+    totalIssues: issueStats?.totalIssues ?? 0,
+    resolvedIssues: issueStats?.resolvedIssues ?? 0,
+    pendingIssues: issueStats?.pendingIssues ?? 0,
+    flaggedIssues: issueStats?.flaggedIssues ?? 0,
+    overdueIssues: issueStats?.overdueIssues ?? 0,
+    pendingStatusRequests: pendingStatusRequestsData?.pagination.total ?? 0
+  };
 
   // Status update dialog
   const [statusDialogOpen, setStatusDialogOpen] = useState(false);
@@ -208,6 +279,18 @@ const AdminDashboard: React.FC = () => {
   const [issueToDelete, setIssueToDelete] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
 
+  // Merge dialog; holds the canonical issue the duplicates are merged into
+  const [mergeTarget, setMergeTarget] = useState<Issue | null>(null);
+
+  // Assignment dialog
+  const [assignTarget, setAssignTarget] = useState<Issue | null>(null);
+
+  // Bulk selection in the issues table; picked issues may span pages, so whole issues are kept rather than ids.
+  // Selecting every match keeps only the filters; the issues are loaded when an action runs.
+  const [selectedIssues, setSelectedIssues] = useState<Issue[]>([]);
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+
   // Status request review dialog
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [selectedStatusRequest, setSelectedStatusRequest] = useState<StatusRequest | null>(null);
@@ -221,27 +304,25 @@ const AdminDashboard: React.FC = () => {
 
   const fetchDashboardData = async () => {
     try {
-      // Fetch all issues
-      await fetchIssues();
+      // Issue counts for the stat cards
+      await fetchIssueStats();
       
-      // Fetch status requests
-      await fetchStatusRequests();
+      // Departments for the assignment dialog
+      if (can('issue:assign')) {
+        await fetchDepartments();
+      }
       
-      // In a real app, you would have an admin service to get users
-      // For demo purposes, we'll just create some mock users
-      const mockUsers = [
-        { id: '1', username: 'johndoe', name: 'John Doe', email: 'john@example.com', role: 'user', createdAt: new Date('2023-01-15') },
-        { id: '2', username: 'janesmith', name: 'Jane Smith', email: 'jane@example.com', role: 'user', createdAt: new Date('2023-02-20') },
-        { id: '3', username: 'adminuser', name: 'Admin User', email: 'admin@example.com', role: 'admin', createdAt: new Date('2022-12-01') },
-      ] as User[];
-      setUsers(mockUsers);
+      // Count pending status requests
+      if (can('statusRequest:review')) {
+        await fetchStatusRequests({ status: 'pending', limit: 1 });
+      }
     } catch (err) {
       console.error('Error fetching dashboard data:', err);
       showError('Failed to load dashboard data. Please try again later.');
     }
   };
 
-  const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
+  const handleTabChange = (event: React.SyntheticEvent, newValue: AdminTab) => {
     setTabValue(newValue);
   };
 
@@ -264,29 +345,42 @@ const AdminDashboard: React.FC = () => {
     setStatusRequestsPage(0);
   };
 
+  // Filter changes return the tables to their first page once the new query is sent
   const handleStatusFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setFilter('status', event.target.value);
-    setPage(0);
   };
 
   const handleCategoryFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setFilter('category', event.target.value);
-    setPage(0);
+  };
+
+  const handleOverdueFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFilter('overdue', event.target.checked);
+  };
+
+  // The overdue stat card jumps to the issue list narrowed to overdue issues
+  const handleShowOverdue = () => {
+    setFilter('overdue', true);
+    setTabValue('issues');
   };
 
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setFilter('searchTerm', event.target.value);
-    setPage(0);
   };
 
   const handleStatusRequestSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setStatusRequestFilter('searchTerm', event.target.value);
-    setStatusRequestsPage(0);
   };
 
   const handleStatusRequestStatusFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setStatusRequestFilter('status', event.target.value);
-    setStatusRequestsPage(0);
+  };
+
+  // Reload the stats and the pages shown in the issues and flagged tables
+  const reloadIssues = async () => {
+    refreshIssuesTable();
+    refreshFlaggedTable();
+    await fetchIssueStats();
   };
 
   const handleViewIssue = (id: string) => {
@@ -314,6 +408,20 @@ const AdminDashboard: React.FC = () => {
     setIssueToDelete(null);
   };
 
+  const handleMergeClick = (issue: Issue) => {
+    setMergeTarget(issue);
+  };
+
+  const handleMerged = async () => {
+    setMergeTarget(null);
+    await reloadIssues();
+  };
+
+  const handleAssigned = async () => {
+    setAssignTarget(null);
+    await reloadIssues();
+  };
+
   const handleReviewStatusRequest = (request: StatusRequest, action: StatusRequestAction) => {
     setSelectedStatusRequest(request);
     setReviewAction(action);
@@ -341,7 +449,8 @@ const AdminDashboard: React.FC = () => {
       showSuccess(`Status request ${reviewAction}d successfully`);
       
       // Refresh status requests
-      await fetchStatusRequests();
+      refreshStatusRequestsTable();
+      await fetchStatusRequests({ status: 'pending', limit: 1 });
       
       handleReviewDialogClose();
     } catch (error) {
@@ -352,20 +461,6 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  const updateStats = (updatedIssues: Issue[]) => {
-    const resolved = updatedIssues.filter(issue => issue.status === IssueStatus.RESOLVED).length;
-    const pending = updatedIssues.filter(issue => issue.status !== IssueStatus.RESOLVED && issue.status !== IssueStatus.CLOSED).length;
-    const flagged = updatedIssues.filter(issue => issue.flags && issue.flags.length > 0).length;
-    
-    setStats({
-      ...stats,
-      totalIssues: updatedIssues.length,
-      resolvedIssues: resolved,
-      pendingIssues: pending,
-      flaggedIssues: flagged
-    });
-  };
-
   // Format date to a readable string
   const formatDate = (date: string | Date): string => {
     return new Date(date).toLocaleDateString('en-US', {
@@ -407,42 +502,81 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  // Calculate stats based on issues data
+  // Only issues matching the filters can be selected, so a new filter starts a new selection
+  const selectionFilterKey = JSON.stringify(debouncedFilters);
   useEffect(() => {
-    if (issues && issues.length > 0) {
-      // Filter flagged issues
-      const flagged = issues.filter(issue => issue.flags && issue.flags.length > 0);
-      setFlaggedIssues(flagged);
-      
-      // Calculate stats
-      const resolved = issues.filter(issue => issue.status === IssueStatus.RESOLVED).length;
-      const pending = issues.filter(issue => 
-        issue.status !== IssueStatus.RESOLVED && issue.status !== IssueStatus.CLOSED
-      ).length;
-      
-      const pendingStatusRequests = statusRequestsData?.statusRequests?.filter(
-        request => request.status === 'pending'
-      ).length || 0;
-      
-      setStats({
-        totalIssues: issues.length,
-        resolvedIssues: resolved,
-        pendingIssues: pending,
-        flaggedIssues: flagged.length,
-        totalUsers: users.length,
-        pendingStatusRequests
-      });
+    setSelectedIssues([]);
+    setAllMatchingSelected(false);
+  }, [selectionFilterKey]);
+
+  // Keep selected issues on the loaded page up to date, so bulk actions check their current state
+  useEffect(() => {
+    setSelectedIssues(prev => prev.map(selected => paginatedIssues.find(issue => issue.id === selected.id) || selected));
+  }, [paginatedIssues]);
+
+  const selectedIdSet = new Set(selectedIssues.map(issue => issue.id));
+  const pageSelectedCount = allMatchingSelected
+    ? paginatedIssues.length
+    : paginatedIssues.filter(issue => selectedIdSet.has(issue.id)).length;
+  const allPageSelected = paginatedIssues.length > 0 && pageSelectedCount === paginatedIssues.length;
+  const selectedCount = allMatchingSelected ? filteredIssueCount : selectedIssues.length;
+  // Which bulk actions to offer; with every match selected only the role is known
+  const selectionAllows = (action: 'issue:updateStatus' | 'issue:assign' | 'issue:delete') =>
+    allMatchingSelected ? can(action) : selectedIssues.some(issue => can(action, issue));
+
+  // Every issue matching the current filters and sort, fetched a page at a time
+  const loadAllFilteredIssues = async (): Promise<Issue[]> => {
+    const params = toIssueFilterParams(debouncedFilters, {
+      sort: sortConfig.field && sortConfig.direction ? sortConfig.field : undefined,
+      order: sortConfig.direction || undefined
+    });
+    return (await issueService.getAllMatchingIssues(params)).issues;
+  };
+
+  const handleToggleIssueSelected = (issue: Issue) => {
+    setSelectedIssues(prev => selectedIdSet.has(issue.id)
+      ? prev.filter(selected => selected.id !== issue.id)
+      : [...prev, issue]);
+  };
+
+  const handleTogglePageSelected = () => {
+    const pageIds = paginatedIssues.map(issue => issue.id);
+    setSelectedIssues(prev => allPageSelected
+      ? prev.filter(selected => !pageIds.includes(selected.id))
+      : [...prev.filter(selected => !pageIds.includes(selected.id)), ...paginatedIssues]);
+  };
+
+  const handleClearSelection = () => {
+    setSelectedIssues([]);
+    setAllMatchingSelected(false);
+  };
+
+  // Failed issues stay selected so the action can be retried on just those
+  const handleBulkCompleted = async (succeededIds: string[], failedIssues: Issue[]) => {
+    setAllMatchingSelected(false);
+    setSelectedIssues(failedIssues);
+    if (succeededIds.length > 0) {
+      await reloadIssues();
     }
-  }, [issues, users, statusRequestsData]);
+  };
 
-  // Get paginated issues
-  const paginatedIssues = filteredIssues.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+  // Active issue filters, as listed on exported reports
+  const issueFilterSummary = [
+    filters.searchTerm ? `Search: "${filters.searchTerm}"` : null,
+    filters.status !== 'all' ? `Status: ${String(filters.status).replace('_', ' ')}` : null,
+    filters.category !== 'all' ? `Category: ${filters.category}` : null,
+    filters.overdue ? 'Overdue only' : null
+  ].filter((item): item is string => item !== null);
 
-  // Get paginated status requests
-  const paginatedStatusRequests = filteredStatusRequests.slice(
-    statusRequestsPage * statusRequestsRowsPerPage, 
-    statusRequestsPage * statusRequestsRowsPerPage + statusRequestsRowsPerPage
-  );
+  const statusCommentRequirement = selectedIssue ? getCommentRequirement(selectedIssue.status, newStatus) : null;
+
+  // Approving applies the requested status to the issue as it is now, which may have moved on since the request
+  const reviewFromStatus = (selectedStatusRequest?.issue?.status ?? selectedStatusRequest?.currentStatus) as IssueStatus | undefined;
+  const reviewTransitionAllowed = !selectedStatusRequest || !reviewFromStatus ||
+    getNextStatuses(reviewFromStatus).includes(selectedStatusRequest.requestedStatus as IssueStatus);
+  const reviewCommentRequirement = selectedStatusRequest && reviewFromStatus && reviewAction === 'approve' && !selectedStatusRequest.reason
+    ? getCommentRequirement(reviewFromStatus, selectedStatusRequest.requestedStatus as IssueStatus)
+    : null;
 
   const handleStatusUpdate = async () => {
     if (!selectedIssue || !newStatus) return;
@@ -450,27 +584,7 @@ const AdminDashboard: React.FC = () => {
     setUpdating(true);
     try {
       await issueService.updateIssueStatus(selectedIssue.id, newStatus, statusComment);
-      
-      // Update the issues list
-      const updatedIssues = issues ? issues.map(issue => 
-        issue.id === selectedIssue.id 
-          ? { ...issue, status: newStatus } 
-          : issue 
-      ) : [];
-      await fetchIssues(); // Refetch issues from API after update
-      
-      // Update flagged issues if necessary
-      if (selectedIssue.flags && selectedIssue.flags.length > 0) {
-        const updatedFlagged = flaggedIssues.map(issue => 
-          issue.id === selectedIssue.id 
-            ? { ...issue, status: newStatus } 
-            : issue
-        );
-        setFlaggedIssues(updatedFlagged);
-      }
-      
-      // Update stats
-      updateStats(updatedIssues);
+      await reloadIssues(); // Refetch issues from API after update
       
       handleStatusDialogClose();
     } catch (error) {
@@ -486,30 +600,21 @@ const AdminDashboard: React.FC = () => {
     
     setDeleting(true);
     try {
-      // In a real app, you would call an API to delete the issue
-      // For demo purposes, we'll just remove it from the state
+      await issueService.deleteIssue(issueToDelete);
+      showSuccess('Issue moved to trash');
       
-      // Remove from issues list
-      const updatedIssues = issues?.filter(issue => issue.id !== issueToDelete) ?? [];
-      await fetchIssues(); // Refetch issues from API after deletion
-      
-      // Remove from flagged issues if present
-      const updatedFlagged = flaggedIssues.filter(issue => issue.id !== issueToDelete);
-      setFlaggedIssues(updatedFlagged);
-      
-      // Update stats
-      updateStats(updatedIssues);
+      await reloadIssues(); // Refetch issues from API after deletion
       
       handleDeleteDialogClose();
     } catch (error) {
       console.error('Failed to delete issue:', error);
-      setErrorMessage('Failed to delete issue. Please try again.');
+      showError('Failed to delete issue. Please try again.');
     } finally {
       setDeleting(false);
     }
   };
 
-  if (loading) {
+  if (loading && !issueStats) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', my: 4 }}>
         <CircularProgress />
@@ -580,6 +685,24 @@ const AdminDashboard: React.FC = () => {
             </Card>
           </Grid>
           
+          <Grid item xs={12} sm={6} md={3}>
+            <Card sx={{ backgroundColor: '#b71c1c', color: '#fff' }}>
+              <CardActionArea onClick={handleShowOverdue}>
+                <CardContent>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <Typography variant="h6" component="div">
+                      Overdue
+                    </Typography>
+                    <OverdueIcon fontSize="large" />
+                  </Box>
+                  <Typography variant="h3" component="div" sx={{ mt: 2 }}>
+                    {stats.overdueIssues}
+                  </Typography>
+                </CardContent>
+              </CardActionArea>
+            </Card>
+          </Grid>
+          
           <Grid item xs={12} sm={6} md={3}>
             <Card sx={{ backgroundColor: '#f44336', color: '#fff' }}>
               <CardContent>
@@ -627,45 +750,67 @@ const AdminDashboard: React.FC = () => {
             } 
           }}
         >
-          <Tab label="All Issues" {...a11yProps(0)} />
-          <Tab 
-            label={(
-              <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                <span>Flagged Issues</span>
-                {stats.flaggedIssues > 0 && (
-                  <Chip 
-                    label={stats.flaggedIssues} 
-                    size="small" 
-                    color="error" 
-                    sx={{ ml: 1, height: 20, minWidth: 20 }} 
-                  />
-                )}
-              </Box>
-            )} 
-            {...a11yProps(1)} 
-          />
-          <Tab 
-            label={(
-              <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                <span>Status Requests</span>
-                {stats.pendingStatusRequests > 0 && (
-                  <Chip 
-                    label={stats.pendingStatusRequests} 
-                    size="small" 
-                    color="warning" 
-                    sx={{ ml: 1, height: 20, minWidth: 20 }} 
-                  />
-                )}
-              </Box>
-            )} 
-            {...a11yProps(2)} 
-          />
-          <Tab label="User Management" {...a11yProps(3)} />
+          {can('queue:view') && (
+            <Tab label="My Queue" value="queue" {...a11yProps('queue')} />
+          )}
+          <Tab label="All Issues" value="issues" {...a11yProps('issues')} />
+          {can('flag:review') && (
+            <Tab 
+              value="flagged"
+              label={(
+                <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                  <span>Flagged Issues</span>
+                  {stats.flaggedIssues > 0 && (
+                    <Chip 
+                      label={stats.flaggedIssues} 
+                      size="small" 
+                      color="error" 
+                      sx={{ ml: 1, height: 20, minWidth: 20 }} 
+                    />
+                  )}
+                </Box>
+              )} 
+              {...a11yProps('flagged')} 
+            />
+          )}
+          {can('statusRequest:review') && (
+            <Tab 
+              value="requests"
+              label={(
+                <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                  <span>Status Requests</span>
+                  {stats.pendingStatusRequests > 0 && (
+                    <Chip 
+                      label={stats.pendingStatusRequests} 
+                      size="small" 
+                      color="warning" 
+                      sx={{ ml: 1, height: 20, minWidth: 20 }} 
+                    />
+                  )}
+                </Box>
+              )} 
+              {...a11yProps('requests')} 
+            />
+          )}
+          {can('analytics:view') && (
+            <Tab label="Analytics" value="analytics" {...a11yProps('analytics')} />
+          )}
+          {can('user:manage') && (
+            <Tab label="User Management" value="users" {...a11yProps('users')} />
+          )}
+          {can('issue:restore') && (
+            <Tab label="Trash" value="trash" {...a11yProps('trash')} />
+          )}
         </Tabs>
       </Box>
       
+      {/* My Queue Tab */}
+      <TabPanel value={tabValue} index="queue">
+        <MyQueue onAssigned={() => reloadIssues()} />
+      </TabPanel>
+      
       {/* All Issues Tab */}
-      <TabPanel value={tabValue} index={0}>
+      <TabPanel value={tabValue} index="issues">
         <Box sx={{ mb: 3, display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2 }}>
           <TextField
             label="Search Issues"
@@ -723,25 +868,131 @@ const AdminDashboard: React.FC = () => {
                 </MenuItem>
               ))}
             </TextField>
+            
+            <FormControlLabel
+              control={<Switch checked={!!filters.overdue} onChange={handleOverdueFilterChange} />}
+              label="Overdue"
+              sx={{ whiteSpace: 'nowrap' }}
+            />
+            
+            <ExportIssuesMenu
+              loadIssues={loadAllFilteredIssues}
+              filterSummary={issueFilterSummary}
+              disabled={filteredIssueCount === 0}
+            />
           </Box>
         </Box>
         
+        {selectedCount > 0 && (
+          <Paper sx={{ mb: 2, backgroundColor: '#1e1e1e' }}>
+            <Toolbar sx={{ flexWrap: 'wrap', gap: 1, py: 1 }}>
+              <Typography variant="subtitle1" sx={{ flexGrow: 1 }}>
+                {selectedCount} selected
+              </Typography>
+              {selectionAllows('issue:updateStatus') && (
+                <Button size="small" startIcon={<EditIcon />} onClick={() => setBulkAction('status')}>
+                  Change status
+                </Button>
+              )}
+              {selectionAllows('issue:assign') && (
+                <Button size="small" startIcon={<AssignIcon />} onClick={() => setBulkAction('assign')}>
+                  Assign
+                </Button>
+              )}
+              {can('flag:review') && (allMatchingSelected || selectedIssues.some(issue => issue.flags && issue.flags.length > 0)) && (
+                <Button size="small" startIcon={<ClearFlagsIcon />} onClick={() => setBulkAction('clearFlags')}>
+                  Clear flags
+                </Button>
+              )}
+              {allMatchingSelected ? (
+                <ExportIssuesMenu loadIssues={loadAllFilteredIssues} filterSummary={issueFilterSummary} />
+              ) : (
+                <ExportIssuesMenu issues={selectedIssues} filterSummary={[...issueFilterSummary, 'Selected issues only']} />
+              )}
+              {selectionAllows('issue:delete') && (
+                <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={() => setBulkAction('delete')}>
+                  Delete
+                </Button>
+              )}
+              <Button size="small" onClick={handleClearSelection}>
+                Clear selection
+              </Button>
+            </Toolbar>
+            {allPageSelected && filteredIssueCount > paginatedIssues.length && (
+              <Box sx={{ px: 2, pb: 1.5, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                <Typography variant="body2" color="text.secondary">
+                  {allMatchingSelected
+                    ? `All ${filteredIssueCount} issues matching the filters are selected.`
+                    : `All ${paginatedIssues.length} issues on this page are selected.`}
+                </Typography>
+                {!allMatchingSelected && (
+                  <Button size="small" onClick={() => setAllMatchingSelected(true)}>
+                    Select all {filteredIssueCount} issues
+                  </Button>
+                )}
+              </Box>
+            )}
+          </Paper>
+        )}
+        
+        {issuesError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {issuesError.message || 'Failed to load issues. Please try again later.'}
+          </Alert>
+        )}
+        
+        {issuesLoading && <LinearProgress />}
         <TableContainer component={Paper} sx={{ backgroundColor: '#1e1e1e' }}>
           <Table sx={{ minWidth: 650 }} aria-label="issues table">
             <TableHead>
               <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    indeterminate={pageSelectedCount > 0 && !allPageSelected}
+                    checked={allPageSelected}
+                    onChange={handleTogglePageSelected}
+                    disabled={allMatchingSelected}
+                    inputProps={{ 'aria-label': 'select all issues on this page' }}
+                  />
+                </TableCell>
                 <TableCell>Title</TableCell>
                 <TableCell>Category</TableCell>
                 <TableCell>Status</TableCell>
+                <TableCell>Assigned To</TableCell>
                 <TableCell>Reported By</TableCell>
-                <TableCell>Date</TableCell>
+                <TableCell>
+                  <TableSortLabel
+                    active={sortConfig.field === 'voteCount' && !!sortConfig.direction}
+                    direction={sortConfig.field === 'voteCount' && sortConfig.direction ? sortConfig.direction : 'desc'}
+                    onClick={() => setSort('voteCount')}
+                  >
+                    Votes
+                  </TableSortLabel>
+                </TableCell>
+                <TableCell>
+                  <TableSortLabel
+                    active={sortConfig.field === 'reportedAt' && !!sortConfig.direction}
+                    direction={sortConfig.field === 'reportedAt' && sortConfig.direction ? sortConfig.direction : 'desc'}
+                    onClick={() => setSort('reportedAt')}
+                  >
+                    Date
+                  </TableSortLabel>
+                </TableCell>
                 <TableCell align="right">Actions</TableCell>
               </TableRow>
             </TableHead>
             <TableBody>
               {paginatedIssues.length > 0 ? (
                 paginatedIssues.map((issue) => (
-                  <TableRow key={issue.id}>
+                  <TableRow key={issue.id} selected={allMatchingSelected || selectedIdSet.has(issue.id)}>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={allMatchingSelected || selectedIdSet.has(issue.id)}
+                        onChange={() => handleToggleIssueSelected(issue)}
+                        disabled={allMatchingSelected}
+                        inputProps={{ 'aria-label': `select ${issue.title}` }}
+                      />
+                    </TableCell>
                     <TableCell component="th" scope="row">
                       {issue.title}
                     </TableCell>
@@ -755,8 +1006,33 @@ const AdminDashboard: React.FC = () => {
                           color: '#fff',
                         }} 
                       />
+                      {issue.mergedInto && (
+                        <Chip 
+                          label="merged" 
+                          size="small"
+                          variant="outlined"
+                          onClick={() => handleViewIssue(issue.mergedInto!)}
+                          sx={{ ml: 1 }}
+                        />
+                      )}
+                      <SlaChip issue={issue} sx={{ ml: 1 }} />
+                    </TableCell>
+                    <TableCell>
+                      {issue.assignedTo ? (
+                        <>
+                          {issue.assignedTo.departmentName}
+                          {issue.assignedTo.staffName && (
+                            <Typography variant="caption" component="div" color="text.secondary">
+                              {issue.assignedTo.staffName}
+                            </Typography>
+                          )}
+                        </>
+                      ) : (
+                        <Chip label="Unassigned" size="small" variant="outlined" />
+                      )}
                     </TableCell>
                     <TableCell>{issue.reportedBy}</TableCell>
+                    <TableCell>{issue.voteCount ?? 0}</TableCell>
                     <TableCell>{formatDate(issue.reportedAt)}</TableCell>
                     <TableCell align="right">
                       <IconButton 
@@ -766,29 +1042,52 @@ const AdminDashboard: React.FC = () => {
                       >
                         <VisibilityIcon fontSize="small" />
                       </IconButton>
-                      <IconButton 
-                        aria-label="edit status"
-                        onClick={() => handleEditStatusClick(issue)}
-                        size="small"
-                        color="primary"
-                      >
-                        <EditIcon fontSize="small" />
-                      </IconButton>
-                      <IconButton 
-                        aria-label="delete"
-                        onClick={() => handleDeleteClick(issue.id)}
-                        size="small"
-                        color="error"
-                      >
-                        <DeleteIcon fontSize="small" />
-                      </IconButton>
+                      {can('issue:updateStatus', issue) && (
+                        <IconButton 
+                          aria-label="edit status"
+                          onClick={() => handleEditStatusClick(issue)}
+                          size="small"
+                          color="primary"
+                        >
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      )}
+                      {can('issue:assign', issue) && (
+                        <IconButton 
+                          aria-label="assign"
+                          onClick={() => setAssignTarget(issue)}
+                          size="small"
+                        >
+                          <AssignIcon fontSize="small" />
+                        </IconButton>
+                      )}
+                      {can('issue:merge', issue) && (
+                        <IconButton 
+                          aria-label="merge duplicates"
+                          onClick={() => handleMergeClick(issue)}
+                          size="small"
+                          disabled={!!issue.mergedInto}
+                        >
+                          <MergeIcon fontSize="small" />
+                        </IconButton>
+                      )}
+                      {can('issue:delete', issue) && (
+                        <IconButton 
+                          aria-label="delete"
+                          onClick={() => handleDeleteClick(issue.id)}
+                          size="small"
+                          color="error"
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={6} align="center">
-                    No issues found matching the current filters.
+                  <TableCell colSpan={9} align="center">
+                    {issuesLoading ? 'Loading issues...' : 'No issues found matching the current filters.'}
                   </TableCell>
                 </TableRow>
               )}
@@ -799,7 +1098,7 @@ const AdminDashboard: React.FC = () => {
         <TablePagination
           rowsPerPageOptions={[5, 10, 25]}
           component="div"
-          count={filteredIssues.length}
+          count={filteredIssueCount}
           rowsPerPage={rowsPerPage}
           page={page}
           onPageChange={handleChangePage}
@@ -814,7 +1113,13 @@ const AdminDashboard: React.FC = () => {
       </TabPanel>
       
       {/* Flagged Issues Tab */}
-      <TabPanel value={tabValue} index={1}>
+      <TabPanel value={tabValue} index="flagged">
+        {flaggedError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {flaggedError.message || 'Failed to load flagged issues. Please try again later.'}
+          </Alert>
+        )}
+        {flaggedLoading && <LinearProgress />}
         {flaggedIssues.length > 0 ? (
           <>
             <TableContainer component={Paper} sx={{ backgroundColor: '#1e1e1e' }}>
@@ -868,30 +1173,49 @@ const AdminDashboard: React.FC = () => {
                         >
                           <VisibilityIcon fontSize="small" />
                         </IconButton>
-                        <IconButton 
-                          aria-label="edit status"
-                          onClick={() => handleEditStatusClick(issue)}
-                          size="small"
-                          color="primary"
-                        >
-                          <EditIcon fontSize="small" />
-                        </IconButton>
-                        <IconButton 
-                          aria-label="delete"
-                          onClick={() => handleDeleteClick(issue.id)}
-                          size="small"
-                          color="error"
-                        >
-                          <DeleteIcon fontSize="small" />
-                        </IconButton>
+                        {can('issue:updateStatus', issue) && (
+                          <IconButton 
+                            aria-label="edit status"
+                            onClick={() => handleEditStatusClick(issue)}
+                            size="small"
+                            color="primary"
+                          >
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        )}
+                        {can('issue:delete', issue) && (
+                          <IconButton 
+                            aria-label="delete"
+                            onClick={() => handleDeleteClick(issue.id)}
+                            size="small"
+                            color="error"
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             </TableContainer>
+            <TablePagination
+              rowsPerPageOptions={[5, 10, 25]}
+              component="div"
+              count={flaggedPagination?.total ?? 0}
+              rowsPerPage={flaggedRowsPerPage}
+              page={flaggedPage}
+              onPageChange={(event, newPage) => setFlaggedPage(newPage)}
+              onRowsPerPageChange={(event) => setFlaggedRowsPerPage(parseInt(event.target.value, 10))}
+              sx={{ 
+                color: '#fff',
+                '.MuiTablePagination-selectIcon': {
+                  color: '#aaa',
+                },
+              }}
+            />
           </>
-        ) : (
+        ) : !flaggedLoading && (
           <Box sx={{ textAlign: 'center', py: 4 }}>
             <Typography variant="h6" gutterBottom>
               No Flagged Issues
@@ -904,7 +1228,7 @@ const AdminDashboard: React.FC = () => {
       </TabPanel>
       
       {/* Status Requests Tab */}
-      <TabPanel value={tabValue} index={2}>
+      <TabPanel value={tabValue} index="requests">
         <Box sx={{ mb: 3, display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2 }}>
           <TextField
             label="Search Requests"
@@ -942,7 +1266,7 @@ const AdminDashboard: React.FC = () => {
           </TextField>
         </Box>
 
-        {statusRequestsLoading ? (
+        {statusRequestsLoading && paginatedStatusRequests.length === 0 ? (
           <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
             <CircularProgress />
           </Box>
@@ -1019,7 +1343,7 @@ const AdminDashboard: React.FC = () => {
                         >
                           <VisibilityIcon fontSize="small" />
                         </IconButton>
-                        {request.status === 'pending' && (
+                        {request.status === 'pending' && can('statusRequest:review', request.issue) && (
                           <>
                             <IconButton 
                               aria-label="approve"
@@ -1049,7 +1373,7 @@ const AdminDashboard: React.FC = () => {
             <TablePagination
               rowsPerPageOptions={[5, 10, 25]}
               component="div"
-              count={filteredStatusRequests.length}
+              count={statusRequestsPagination?.total ?? 0}
               rowsPerPage={statusRequestsRowsPerPage}
               page={statusRequestsPage}
               onPageChange={handleStatusRequestsChangePage}
@@ -1074,59 +1398,19 @@ const AdminDashboard: React.FC = () => {
         )}
       </TabPanel>
       
+      {/* Analytics Tab */}
+      <TabPanel value={tabValue} index="analytics">
+        <IssueAnalytics />
+      </TabPanel>
+      
       {/* User Management Tab */}
-      <TabPanel value={tabValue} index={3}>
-        <TableContainer component={Paper} sx={{ backgroundColor: '#1e1e1e' }}>
-          <Table sx={{ minWidth: 650 }} aria-label="users table">
-            <TableHead>
-              <TableRow>
-                <TableCell>Name</TableCell>
-                <TableCell>Email</TableCell>
-                <TableCell>Role</TableCell>
-                <TableCell>Joined Date</TableCell>
-                <TableCell align="right">Actions</TableCell>
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {users.map((user) => (
-                <TableRow key={user.id}>
-                  <TableCell component="th" scope="row">
-                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                      <Avatar sx={{ width: 32, height: 32, mr: 1, bgcolor: theme.palette.primary.main }}>
-                        {user.name.charAt(0).toUpperCase()}
-                      </Avatar>
-                      {user.name}
-                    </Box>
-                  </TableCell>
-                  <TableCell>{user.email}</TableCell>
-                  <TableCell>
-                    <Chip 
-                      label={user.role} 
-                      size="small"
-                      color={user.role === 'admin' ? 'secondary' : 'default'}
-                    />
-                  </TableCell>
-                  <TableCell>{formatDate(user.createdAt)}</TableCell>
-                  <TableCell align="right">
-                    <IconButton 
-                      aria-label="view user"
-                      size="small"
-                    >
-                      <VisibilityIcon fontSize="small" />
-                    </IconButton>
-                    <IconButton 
-                      aria-label="edit user"
-                      size="small"
-                      color="primary"
-                    >
-                      <EditIcon fontSize="small" />
-                    </IconButton>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </TableContainer>
+      <TabPanel value={tabValue} index="users">
+        <UserManagement />
+      </TabPanel>
+      
+      {/* Trash Tab */}
+      <TabPanel value={tabValue} index="trash">
+        <IssueTrash onRestored={() => reloadIssues()} />
       </TabPanel>
       
       {/* Status Update Dialog */}
@@ -1158,22 +1442,24 @@ const AdminDashboard: React.FC = () => {
                 margin="normal"
                 sx={{ mb: 3 }}
               >
-                {Object.values(IssueStatus).map((status) => (
-                  <MenuItem key={status} value={status}>
+                {[selectedIssue.status, ...getNextStatuses(selectedIssue.status)].map((status) => (
+                  <MenuItem key={status} value={status} disabled={status === selectedIssue.status}>
                     {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
+                    {status === selectedIssue.status ? ' (current)' : ''}
                   </MenuItem>
                 ))}
               </TextField>
               
               <TextField
                 fullWidth
-                label="Comment (Optional)"
+                label={statusCommentRequirement ? 'Comment (Required)' : 'Comment (Optional)'}
                 value={statusComment}
                 onChange={(e) => setStatusComment(e.target.value)}
                 margin="normal"
                 multiline
                 rows={4}
-                placeholder="Add a comment explaining the status change"
+                required={!!statusCommentRequirement}
+                placeholder={statusCommentRequirement || 'Add a comment explaining the status change'}
               />
             </>
           )}
@@ -1183,7 +1469,11 @@ const AdminDashboard: React.FC = () => {
           <Button 
             onClick={handleStatusUpdate} 
             variant="contained" 
-            disabled={updating || !!(selectedIssue && newStatus === selectedIssue.status)}
+            disabled={
+              updating ||
+              !!(selectedIssue && newStatus === selectedIssue.status) ||
+              (!!statusCommentRequirement && !statusComment.trim())
+            }
             sx={{ 
               backgroundColor: '#4CAF50',
               '&:hover': {
@@ -1249,15 +1539,23 @@ const AdminDashboard: React.FC = () => {
                 )}
               </Box>
               
+              {reviewAction === 'approve' && !reviewTransitionAllowed && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  The issue is now {String(reviewFromStatus).replace('_', ' ')} and can no longer move
+                  to {String(selectedStatusRequest.requestedStatus).replace('_', ' ')}. Reject the request instead.
+                </Alert>
+              )}
+              
               <TextField
                 fullWidth
-                label={`${reviewAction === 'approve' ? 'Approval' : 'Rejection'} Comment (Optional)`}
+                required={!!reviewCommentRequirement}
+                label={`${reviewAction === 'approve' ? 'Approval' : 'Rejection'} Comment (${reviewCommentRequirement ? 'Required' : 'Optional'})`}
                 value={reviewComment}
                 onChange={(e) => setReviewComment(e.target.value)}
                 margin="normal"
                 multiline
                 rows={3}
-                placeholder={`Add a comment explaining your ${reviewAction} decision`}
+                placeholder={reviewCommentRequirement || `Add a comment explaining your ${reviewAction} decision`}
               />
             </>
           )}
@@ -1267,7 +1565,11 @@ const AdminDashboard: React.FC = () => {
           <Button 
             onClick={handleSubmitReview} 
             variant="contained" 
-            disabled={reviewing}
+            disabled={
+              reviewing ||
+              (reviewAction === 'approve' && !reviewTransitionAllowed) ||
+              (!!reviewCommentRequirement && !reviewComment.trim())
+            }
             color={reviewAction === 'approve' ? 'success' : 'error'}
           >
             {reviewing ? <CircularProgress size={24} /> : (reviewAction === 'approve' ? 'Approve' : 'Reject')}
@@ -1275,6 +1577,33 @@ const AdminDashboard: React.FC = () => {
         </DialogActions>
       </Dialog>
       
+      {/* Merge Duplicates Dialog */}
+      <MergeIssuesDialog
+        open={!!mergeTarget}
+        canonical={mergeTarget}
+        onClose={() => setMergeTarget(null)}
+        onMerged={handleMerged}
+      />
+      
+      <AssignIssueDialog
+        open={!!assignTarget}
+        issue={assignTarget}
+        departments={departments ?? []}
+        onClose={() => setAssignTarget(null)}
+        onAssigned={handleAssigned}
+      />
+      
+      <BulkActionDialog
+        open={!!bulkAction}
+        action={bulkAction}
+        issues={allMatchingSelected ? [] : selectedIssues}
+        loadIssues={allMatchingSelected ? loadAllFilteredIssues : undefined}
+        count={selectedCount}
+        departments={departments ?? []}
+        onClose={() => setBulkAction(null)}
+        onCompleted={handleBulkCompleted}
+      />
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onClose={handleDeleteDialogClose} maxWidth="xs" fullWidth>
         <DialogTitle>
@@ -1289,7 +1618,7 @@ const AdminDashboard: React.FC = () => {
         </DialogTitle>
         <DialogContent>
           <Typography variant="body1">
-            Are you sure you want to delete this issue? This action cannot be undone.
+            Are you sure you want to delete this issue? It will be moved to the trash and can be restored within {ISSUE_RETENTION_DAYS} days.
           </Typography>
         </DialogContent>
         <DialogActions>
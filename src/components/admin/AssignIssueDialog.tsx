@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { Department, Issue } from '../../types';
+import issueService from '../../services/issueService';
+import { useNotification, usePermission } from '../../hooks';
+
+interface AssignIssueDialogProps {
+  open: boolean;
+  issue: Issue | null;
+  departments: Department[];
+  onClose: () => void;
+  /** Called with the updated issue after a successful assignment */
+  onAssigned: (issue: Issue) => void;
+}
+
+// Value of the staff select when the issue goes to the department as a whole
+const ANY_STAFF = '';
+
+const AssignIssueDialog: React.FC<AssignIssueDialogProps> = ({ open, issue, departments, onClose, onAssigned }) => {
+  const { showSuccess } = useNotification();
+  const { can } = usePermission();
+  const [departmentId, setDepartmentId] = useState('');
+  const [staffId, setStaffId] = useState(ANY_STAFF);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && issue) {
+      setDepartmentId(issue.assignedTo?.departmentId || '');
+      setStaffId(issue.assignedTo?.staffId || ANY_STAFF);
+      setError(null);
+    }
+  }, [open, issue]);
+
+  const department = useMemo(
+    () => departments.find(d => d.id === departmentId),
+    [departments, departmentId]
+  );
+
+  // Departments the current user may hand the issue to, checked against the policy as if it were already there
+  const canAssignTo = (target: Department): boolean =>
+    !!issue && can('issue:assign', {
+      ...issue,
+      assignedTo: { departmentId: target.id, departmentName: target.name }
+    });
+
+  const unchanged = !!issue?.assignedTo &&
+    issue.assignedTo.departmentId === departmentId &&
+    (issue.assignedTo.staffId || ANY_STAFF) === staffId;
+
+  const handleDepartmentChange = (value: string) => {
+    setDepartmentId(value);
+    setStaffId(ANY_STAFF);
+  };
+
+  const handleAssign = async () => {
+    if (!issue || !department) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await issueService.assignIssue(issue.id, department.id, staffId || null);
+      const staffName = department.staff?.find(s => s.id === staffId)?.name;
+      showSuccess(`"${issue.title}" assigned to ${staffName ? `${staffName} (${department.name})` : department.name}`);
+      onAssigned(updated);
+    } catch (err: any) {
+      console.error('Failed to assign issue:', err);
+      setError(err?.message || 'Failed to assign the issue. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        Assign Issue
+        <IconButton
+          aria-label="close"
+          onClick={onClose}
+          disabled={saving}
+          sx={{ position: 'absolute', right: 8, top: 8 }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent>
+        {issue && (
+          <>
+            <Typography variant="subtitle1" gutterBottom>
+              {issue.title}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Category: {issue.category}
+            </Typography>
+
+            {error && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {error}
+              </Alert>
+            )}
+
+            <TextField
+              select
+              fullWidth
+              label="Department"
+              value={departmentId}
+              onChange={(e) => handleDepartmentChange(e.target.value)}
+              margin="normal"
+            >
+              {departments.map((d) => (
+                <MenuItem key={d.id} value={d.id} disabled={!canAssignTo(d)}>
+                  {d.name}
+                  {d.categories.some(c => c === issue.category) ? ' (handles this category)' : ''}
+                </MenuItem>
+              ))}
+            </TextField>
+
+            <TextField
+              select
+              fullWidth
+              label="Staff member"
+              value={staffId}
+              onChange={(e) => setStaffId(e.target.value)}
+              margin="normal"
+              disabled={!department}
+              helperText="Leave unassigned to let anyone in the department pick it up"
+            >
+              <MenuItem value={ANY_STAFF}>
+                <em>Unassigned</em>
+              </MenuItem>
+              {(department?.staff || []).map((staff) => (
+                <MenuItem key={staff.id} value={staff.id}>
+                  {staff.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>Cancel</Button>
+        <Button
+          onClick={handleAssign}
+          variant="contained"
+          disabled={saving || !department || unchanged}
+        >
+          {saving ? <CircularProgress size={24} /> : 'Assign'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AssignIssueDialog;
@@ -0,0 +1,406 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  LinearProgress,
+  Alert,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { Department, Issue, IssueStatus } from '../../types';
+import issueService from '../../services/issueService';
+import { useNotification, usePermission } from '../../hooks';
+import { getCommentRequirement, validateTransition } from '../../utils/statusTransitions';
+
+export type BulkAction = 'status' | 'assign' | 'clearFlags' | 'delete';
+
+interface BulkActionDialogProps {
+  open: boolean;
+  action: BulkAction | null;
+  /** Selected issues as last loaded; the dialog previews against them and re-reads each before acting */
+  issues: Issue[];
+  /** Loads the issues to act on once Apply is pressed, for selections that aren't all in memory, e.g. every issue matching the table's filters */
+  loadIssues?: () => Promise<Issue[]>;
+  /** Number of issues selected; defaults to `issues.length` */
+  count?: number;
+  departments: Department[];
+  onClose: () => void;
+  /** Called when a run finishes with the ids of the issues it succeeded on and the issues it didn't, so the caller can refresh */
+  onCompleted: (succeededIds: string[], failedIssues: Issue[]) => void;
+}
+
+interface BulkResult {
+  issue: Issue;
+  /** Why the action failed or was skipped for this issue */
+  error?: string;
+}
+
+const ACTION_TITLES: Record<BulkAction, string> = {
+  status: 'Change Status',
+  assign: 'Assign Issues',
+  clearFlags: 'Clear Flags',
+  delete: 'Move to Trash'
+};
+
+const ACTION_VERBS: Record<BulkAction, string> = {
+  status: 'Updated',
+  assign: 'Assigned',
+  clearFlags: 'Cleared flags on',
+  delete: 'Moved to trash'
+};
+
+// Value of the staff select when issues go to the department as a whole
+const ANY_STAFF = '';
+
+const formatStatus = (status: string): string =>
+  status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ');
+
+/**
+ * Applies an operation to each issue in turn, so progress can be shown and one
+ * failure doesn't stop the rest. Each issue is read again first, so the check sees
+ * its current state rather than the one it had when it was selected.
+ * @param issues - Issues to process
+ * @param check - Returns a reason to skip an issue without calling the backend, or null
+ * @param operation - Backend call for a single issue
+ * @param onProgress - Called with the number of issues processed so far
+ */
+const runBulk = async (
+  issues: Issue[],
+  check: (issue: Issue) => string | null,
+  operation: (issue: Issue) => Promise<unknown>,
+  onProgress: (done: number) => void
+): Promise<BulkResult[]> => {
+  const results: BulkResult[] = [];
+
+  for (const selected of issues) {
+    let issue: Issue;
+    try {
+      issue = await issueService.getIssueById(selected.id);
+    } catch (err: any) {
+      results.push({ issue: selected, error: err?.message || 'Issue could not be loaded' });
+      onProgress(results.length);
+      continue;
+    }
+
+    const skipReason = check(issue);
+    if (skipReason) {
+      results.push({ issue, error: skipReason });
+    } else {
+      try {
+        await operation(issue);
+        results.push({ issue });
+      } catch (err: any) {
+        results.push({ issue, error: err?.message || 'Request failed' });
+      }
+    }
+    onProgress(results.length);
+  }
+
+  return results;
+};
+
+/**
+ * Runs one action over a set of selected issues, showing progress while it works
+ * and a per-issue summary when any of them fail
+ */
+const BulkActionDialog: React.FC<BulkActionDialogProps> = ({
+  open,
+  action,
+  issues,
+  loadIssues,
+  count = issues.length,
+  departments,
+  onClose,
+  onCompleted
+}) => {
+  const { showSuccess, showError } = useNotification();
+  const { can } = usePermission();
+  const [newStatus, setNewStatus] = useState<IssueStatus | ''>('');
+  const [comment, setComment] = useState('');
+  const [departmentId, setDepartmentId] = useState('');
+  const [staffId, setStaffId] = useState(ANY_STAFF);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  // Issues being processed; a loaded selection may have changed size since it was made
+  const [targetCount, setTargetCount] = useState(0);
+  const [results, setResults] = useState<BulkResult[] | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setNewStatus('');
+      setComment('');
+      setDepartmentId('');
+      setStaffId(ANY_STAFF);
+      setProgress(0);
+      setResults(null);
+    }
+  }, [open, action]);
+
+  const department = useMemo(
+    () => departments.find(d => d.id === departmentId),
+    [departments, departmentId]
+  );
+
+  // Reason an issue will be skipped, checked up front so the user sees how many will go through
+  const checkIssue = (issue: Issue): string | null => {
+    switch (action) {
+      case 'status':
+        if (!newStatus) return 'No status chosen';
+        if (!can('issue:updateStatus', issue)) return 'You are not allowed to change the status of this issue';
+        if (issue.status === newStatus) return `Already ${formatStatus(newStatus)}`;
+        return validateTransition(issue.status, newStatus, comment);
+      case 'assign': {
+        if (!department) return 'No department chosen';
+        const assignedTo = { departmentId: department.id, departmentName: department.name };
+        if (!can('issue:assign', issue) || !can('issue:assign', { ...issue, assignedTo })) {
+          return 'You are not allowed to assign this issue to that department';
+        }
+        return null;
+      }
+      case 'clearFlags':
+        if (!can('flag:review', issue)) return 'You are not allowed to review flags';
+        return issue.flags && issue.flags.length > 0 ? null : 'Not flagged';
+      case 'delete':
+        return can('issue:delete', issue) ? null : 'You are not allowed to delete this issue';
+      default:
+        return 'Unknown action';
+    }
+  };
+
+  const performAction = (issue: Issue): Promise<unknown> => {
+    switch (action) {
+      case 'status':
+        return issueService.updateIssueStatus(issue.id, newStatus as IssueStatus, comment || undefined);
+      case 'assign':
+        return issueService.assignIssue(issue.id, departmentId, staffId || null);
+      case 'clearFlags':
+        return issueService.clearFlags(issue.id);
+      case 'delete':
+        return issueService.deleteIssue(issue.id);
+      default:
+        return Promise.reject(new Error('Unknown action'));
+    }
+  };
+
+  // Transitions from some selected statuses need a comment; one shared comment covers them all.
+  // Without the issues at hand, any status they could be in counts.
+  const fromStatuses = loadIssues ? Object.values(IssueStatus) : issues.map(issue => issue.status);
+  const commentRequirement = action === 'status' && newStatus
+    ? fromStatuses.map(status => getCommentRequirement(status, newStatus)).find(Boolean) || null
+    : null;
+
+  // Only known up front when the selected issues are in memory
+  const readyCount = loadIssues ? null : issues.filter(issue => !checkIssue(issue)).length;
+
+  const formIncomplete =
+    (action === 'status' && (!newStatus || (!!commentRequirement && !comment.trim()))) ||
+    (action === 'assign' && !department);
+
+  const handleApply = async () => {
+    if (!action) return;
+
+    setRunning(true);
+    setProgress(0);
+    setTargetCount(count);
+    let targets = issues;
+    if (loadIssues) {
+      try {
+        targets = await loadIssues();
+      } catch (err) {
+        console.error('Failed to load the selected issues:', err);
+        showError('Failed to load the selected issues. Please try again.');
+        setRunning(false);
+        return;
+      }
+    }
+    setTargetCount(targets.length);
+    const outcome = await runBulk(targets, checkIssue, performAction, setProgress);
+    setRunning(false);
+
+    const succeeded = outcome.filter(result => !result.error);
+    onCompleted(
+      succeeded.map(result => result.issue.id),
+      outcome.filter(result => result.error).map(result => result.issue)
+    );
+
+    if (succeeded.length === outcome.length) {
+      showSuccess(`${ACTION_VERBS[action]} ${succeeded.length} ${succeeded.length === 1 ? 'issue' : 'issues'}`);
+      onClose();
+    } else {
+      setResults(outcome);
+    }
+  };
+
+  const failures = results ? results.filter(result => result.error) : [];
+
+  const renderForm = () => {
+    switch (action) {
+      case 'status':
+        return (
+          <>
+            <TextField
+              select
+              fullWidth
+              label="New Status"
+              value={newStatus}
+              onChange={(e) => setNewStatus(e.target.value as IssueStatus)}
+              margin="normal"
+            >
+              {Object.values(IssueStatus).map((status) => (
+                <MenuItem key={status} value={status}>
+                  {formatStatus(status)}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              fullWidth
+              label={commentRequirement ? 'Comment (required)' : 'Comment (Optional)'}
+              multiline
+              rows={3}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              margin="normal"
+              required={!!commentRequirement}
+              helperText={commentRequirement
+                ? `${commentRequirement}. The same comment is added to every issue.`
+                : 'The same comment is added to every issue.'}
+            />
+          </>
+        );
+      case 'assign':
+        return (
+          <>
+            <TextField
+              select
+              fullWidth
+              label="Department"
+              value={departmentId}
+              onChange={(e) => {
+                setDepartmentId(e.target.value);
+                setStaffId(ANY_STAFF);
+              }}
+              margin="normal"
+            >
+              {departments.map((d) => (
+                <MenuItem key={d.id} value={d.id}>
+                  {d.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              fullWidth
+              label="Staff member"
+              value={staffId}
+              onChange={(e) => setStaffId(e.target.value)}
+              margin="normal"
+              disabled={!department}
+            >
+              <MenuItem value={ANY_STAFF}>
+                <em>Unassigned</em>
+              </MenuItem>
+              {(department?.staff || []).map((staff) => (
+                <MenuItem key={staff.id} value={staff.id}>
+                  {staff.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </>
+        );
+      case 'clearFlags':
+        return (
+          <Typography variant="body1">
+            Dismiss all flags on the selected issues? Use this once the reports have been reviewed.
+          </Typography>
+        );
+      case 'delete':
+        return (
+          <Typography variant="body1">
+            Move the selected issues to the trash? They can be restored from the Trash tab until they are purged.
+          </Typography>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={running ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {action ? ACTION_TITLES[action] : ''} ({count} {count === 1 ? 'issue' : 'issues'})
+        <IconButton
+          aria-label="close"
+          onClick={onClose}
+          disabled={running}
+          sx={{ position: 'absolute', right: 8, top: 8 }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent>
+        {results ? (
+          <>
+            <Alert severity={failures.length === results.length ? 'error' : 'warning'} sx={{ mb: 2 }}>
+              {results.length - failures.length} of {results.length} succeeded, {failures.length} failed or skipped.
+            </Alert>
+            <List dense sx={{ maxHeight: 300, overflowY: 'auto' }}>
+              {failures.map(({ issue, error }) => (
+                <ListItem key={issue.id} disableGutters>
+                  <ListItemText primary={issue.title} secondary={error} secondaryTypographyProps={{ color: 'error' }} />
+                </ListItem>
+              ))}
+            </List>
+            <Typography variant="body2" color="text.secondary">
+              The issues that failed are still selected, so you can try again.
+            </Typography>
+          </>
+        ) : running ? (
+          <Box sx={{ py: 2 }}>
+            <Typography variant="body2" gutterBottom>
+              Processing {Math.min(progress + 1, targetCount)} of {targetCount}...
+            </Typography>
+            <LinearProgress variant="determinate" value={targetCount > 0 ? (progress / targetCount) * 100 : 0} />
+          </Box>
+        ) : (
+          <>
+            {renderForm()}
+            {!formIncomplete && readyCount !== null && readyCount < issues.length && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                {readyCount} of {issues.length} selected issues will be changed; the rest will be skipped.
+              </Alert>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {results ? (
+          <Button onClick={onClose} variant="contained">Close</Button>
+        ) : (
+          <>
+            <Button onClick={onClose} disabled={running}>Cancel</Button>
+            <Button
+              onClick={handleApply}
+              variant="contained"
+              color={action === 'delete' ? 'error' : 'primary'}
+              disabled={running || formIncomplete || readyCount === 0 || count === 0}
+            >
+              Apply
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BulkActionDialog;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Button, CircularProgress, Menu, MenuItem, ListItemIcon, ListItemText } from '@mui/material';
+import {
+  FileDownload as ExportIcon,
+  TableChart as CsvIcon,
+  Public as GeoJsonIcon,
+  Print as PrintIcon
+} from '@mui/icons-material';
+import { Issue } from '../../types';
+import { useNotification } from '../../hooks';
+import {
+  buildIssueReportHtml,
+  downloadFile,
+  getExportFilename,
+  issuesToCsv,
+  issuesToGeoJson,
+  printReport
+} from '../../utils/issueExport';
+
+interface ExportIssuesMenuProps {
+  /** Issues to export, already filtered and sorted as shown */
+  issues?: Issue[];
+  /** Loads the issues to export once a format is picked, for sets that aren't all in memory, e.g. every page of a server-paged table */
+  loadIssues?: () => Promise<Issue[]>;
+  /** Active filters, listed in the printed report */
+  filterSummary?: string[];
+  /** Button text; defaults to "Export" */
+  label?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Export button offering CSV, GeoJSON and a printable report. Files are generated
+ * in the browser from the issues passed in or loaded, so no backend export is needed.
+ */
+const ExportIssuesMenu: React.FC<ExportIssuesMenuProps> = ({ issues = [], loadIssues, filterSummary, label = 'Export', disabled }) => {
+  const { showSuccess, showError } = useNotification();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleExport = async (format: 'csv' | 'geojson' | 'report') => {
+    setAnchorEl(null);
+
+    if (loadIssues) {
+      setLoading(true);
+      try {
+        exportIssues(format, await loadIssues());
+      } catch (error) {
+        console.error('Failed to load issues for export:', error);
+        showError('Failed to load the issues to export. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    } else {
+      exportIssues(format, issues);
+    }
+  };
+
+  const exportIssues = (format: 'csv' | 'geojson' | 'report', issues: Issue[]) => {
+    if (format === 'csv') {
+      // The byte order mark makes Excel read the file as UTF-8
+      downloadFile(`\uFEFF${issuesToCsv(issues)}`, getExportFilename('csv'), 'text/csv;charset=utf-8');
+      showSuccess(`Exported ${issues.length} issues to CSV`);
+    } else if (format === 'geojson') {
+      downloadFile(issuesToGeoJson(issues), getExportFilename('geojson'), 'application/geo+json');
+      showSuccess(`Exported ${issues.length} issues to GeoJSON`);
+    } else if (!printReport(buildIssueReportHtml(issues, 'Issue Report', filterSummary))) {
+      showError('The report window was blocked. Allow pop-ups for this site and try again.');
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={loading ? <CircularProgress size={16} /> : <ExportIcon />}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        disabled={disabled || loading || (!loadIssues && issues.length === 0)}
+        aria-haspopup="menu"
+        sx={{ whiteSpace: 'nowrap' }}
+      >
+        {label}
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => handleExport('csv')}>
+          <ListItemIcon><CsvIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="CSV" secondary="Spreadsheet" />
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('geojson')}>
+          <ListItemIcon><GeoJsonIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="GeoJSON" secondary="For GIS tools" />
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('report')}>
+          <ListItemIcon><PrintIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Printable report" secondary="Print or save as PDF" />
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
+
+export default ExportIssuesMenu;
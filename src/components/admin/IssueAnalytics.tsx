@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Grid,
+  Paper,
+  Typography,
+  TextField,
+  MenuItem,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { IssueAnalyticsFilters, IssueCategory, IssueStatus } from '../../types';
+import analyticsService from '../../services/analyticsService';
+import { useApi } from '../../hooks';
+import BarChart from '../common/BarChart';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 12 * 7;
+
+const STATUS_COLORS: Record<IssueStatus, string> = {
+  [IssueStatus.REPORTED]: '#f44336',
+  [IssueStatus.UNDER_REVIEW]: '#ff9800',
+  [IssueStatus.IN_PROGRESS]: '#2196f3',
+  [IssueStatus.RESOLVED]: '#4caf50',
+  [IssueStatus.CLOSED]: '#9e9e9e'
+};
+
+// YYYY-MM-DD in local time, as date inputs expect
+const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatWeek = (weekStart: string): string =>
+  new Date(`${weekStart}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatHours = (hours: number): string =>
+  hours >= 48 ? `${Math.round(hours / 24 * 10) / 10}d` : `${Math.round(hours)}h`;
+
+const formatLabel = (value: string): string =>
+  value.charAt(0).toUpperCase() + value.slice(1).replace('_', ' ');
+
+const ChartPanel: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <Paper sx={{ p: 2, backgroundColor: '#1e1e1e', height: '100%' }}>
+    <Typography variant="h6" gutterBottom>
+      {title}
+    </Typography>
+    {children}
+  </Paper>
+);
+
+/**
+ * Trends and breakdowns of reported issues over a date range, computed by the backend
+ */
+const IssueAnalytics: React.FC = () => {
+  const [filters, setFilters] = useState<Required<IssueAnalyticsFilters>>(() => {
+    const today = new Date();
+    return {
+      from: toDateInput(new Date(today.getTime() - DEFAULT_RANGE_DAYS * DAY_MS)),
+      to: toDateInput(today),
+      category: 'all'
+    };
+  });
+
+  const {
+    data: analytics,
+    loading,
+    error,
+    execute: fetchAnalytics
+  } = useApi(analyticsService.getIssueAnalytics, { resetOnFetch: false });
+
+  useEffect(() => {
+    fetchAnalytics({
+      from: filters.from || undefined,
+      to: filters.to || undefined,
+      category: filters.category === 'all' ? undefined : filters.category
+    });
+  }, [filters, fetchAnalytics]);
+
+  const handleFilterChange = (field: keyof IssueAnalyticsFilters) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        <TextField
+          type="date"
+          label="From"
+          size="small"
+          value={filters.from}
+          onChange={handleFilterChange('from')}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ max: filters.to || undefined }}
+        />
+        <TextField
+          type="date"
+          label="To"
+          size="small"
+          value={filters.to}
+          onChange={handleFilterChange('to')}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ min: filters.from || undefined }}
+        />
+        <TextField
+          select
+          label="Category"
+          size="small"
+          value={filters.category}
+          onChange={handleFilterChange('category')}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value="all">All Categories</MenuItem>
+          {Object.values(IssueCategory).map((category) => (
+            <MenuItem key={category} value={category}>
+              {formatLabel(category)}
+            </MenuItem>
+          ))}
+        </TextField>
+        {loading && <CircularProgress size={24} sx={{ alignSelf: 'center' }} />}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          Failed to load analytics. Please try again later.
+        </Alert>
+      )}
+
+      {analytics && (
+        <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <ChartPanel title="Reported vs Resolved per Week">
+              <BarChart
+                title="Issues reported and resolved per week"
+                data={analytics.weekly.map(week => ({
+                  label: formatWeek(week.weekStart),
+                  values: { reported: week.reported, resolved: week.resolved }
+                }))}
+                series={[
+                  { key: 'reported', label: 'Reported', color: '#f44336' },
+                  { key: 'resolved', label: 'Resolved', color: '#4caf50' }
+                ]}
+              />
+            </ChartPanel>
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <ChartPanel title="Median Time to Resolve">
+              <BarChart
+                title="Median time to resolve per category"
+                orientation="horizontal"
+                formatValue={formatHours}
+                data={analytics.resolutionTimes.map(row => ({
+                  label: `${formatLabel(row.category)} (${row.resolvedCount})`,
+                  values: { median: row.medianHours }
+                }))}
+                series={[{ key: 'median', label: 'Median time to resolve', color: '#2196f3' }]}
+              />
+            </ChartPanel>
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <ChartPanel title="Status Funnel">
+              <BarChart
+                title="Issues reaching each status"
+                orientation="horizontal"
+                data={analytics.statusFunnel.map(step => ({
+                  label: formatLabel(step.status),
+                  values: { [step.status]: step.count }
+                }))}
+                series={analytics.statusFunnel.map(step => ({
+                  key: step.status,
+                  label: formatLabel(step.status),
+                  color: STATUS_COLORS[step.status] || '#9e9e9e'
+                }))}
+              />
+            </ChartPanel>
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <ChartPanel title="Flag Rate">
+              <Typography variant="h3" component="div" sx={{ mt: 1 }}>
+                {(analytics.flagRate.rate * 100).toFixed(1)}%
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {analytics.flagRate.flaggedIssues} of {analytics.flagRate.totalIssues} issues reported in this
+                period were flagged for review.
+              </Typography>
+            </ChartPanel>
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <ChartPanel title="Top Locations">
+              <BarChart
+                title="Areas with the most reported issues"
+                orientation="horizontal"
+                data={analytics.topLocations.map(row => ({
+                  label: row.location,
+                  values: { count: row.count }
+                }))}
+                series={[{ key: 'count', label: 'Issues', color: '#9c27b0' }]}
+              />
+            </ChartPanel>
+          </Grid>
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default IssueAnalytics;
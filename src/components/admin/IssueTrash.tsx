@@ -0,0 +1,186 @@
+import React, { useCallback, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Chip,
+  Button,
+  CircularProgress,
+  LinearProgress,
+  Alert
+} from '@mui/material';
+import { RestoreFromTrash as RestoreIcon } from '@mui/icons-material';
+import { Issue, ISSUE_RETENTION_DAYS } from '../../types';
+import issueService from '../../services/issueService';
+import { useServerList, useNotification, ServerListQuery } from '../../hooks';
+
+interface IssueTrashProps {
+  /** Called after an issue is restored so the caller can refresh its issue list */
+  onRestored?: (issue: Issue) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days left before a deleted issue is purged
+const getDaysRemaining = (deletedAt: Date | string): number => {
+  const expiresAt = new Date(deletedAt).getTime() + ISSUE_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+};
+
+const IssueTrash: React.FC<IssueTrashProps> = ({ onRestored }) => {
+  const { showSuccess, showError } = useNotification();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Paged by the backend, so every deleted issue can be reached and restored
+  const {
+    items: deletedIssues,
+    serverPagination,
+    loading,
+    error,
+    refresh,
+    page,
+    pageSize,
+    setPage,
+    setPageSize
+  } = useServerList(
+    useCallback(async (query: ServerListQuery, signal: AbortSignal) => {
+      const result = await issueService.getDeletedIssues({ page: query.page, limit: query.limit }, { signal });
+      return { items: result.issues, pagination: result.pagination };
+    }, [])
+  );
+
+  const formatDate = (date: string | Date): string => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const handleRestore = async (issue: Issue) => {
+    setRestoringId(issue.id);
+    try {
+      const restored = await issueService.restoreIssue(issue.id);
+      showSuccess(`"${issue.title}" has been restored`);
+      refresh();
+      if (onRestored) {
+        onRestored(restored);
+      }
+    } catch (err: any) {
+      console.error('Failed to restore issue:', err);
+      showError(err?.message || 'Failed to restore issue. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading && !serverPagination) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error" sx={{ mb: 3 }}>
+        Failed to load deleted issues. Please try again later.
+      </Alert>
+    );
+  }
+
+  if (deletedIssues.length === 0 && !loading) {
+    return (
+      <Box sx={{ textAlign: 'center', py: 4 }}>
+        <Typography variant="h6" gutterBottom>
+          Trash is Empty
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Deleted issues appear here for {ISSUE_RETENTION_DAYS} days before they are removed permanently.
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Deleted issues can be restored for {ISSUE_RETENTION_DAYS} days, after which they are removed permanently.
+      </Typography>
+      {loading && <LinearProgress />}
+      <TableContainer component={Paper} sx={{ backgroundColor: '#1e1e1e' }}>
+        <Table sx={{ minWidth: 650 }} aria-label="deleted issues table">
+          <TableHead>
+            <TableRow>
+              <TableCell>Title</TableCell>
+              <TableCell>Category</TableCell>
+              <TableCell>Deleted By</TableCell>
+              <TableCell>Deleted On</TableCell>
+              <TableCell>Expires</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {deletedIssues.map((issue) => {
+              const daysRemaining = issue.deletedAt ? getDaysRemaining(issue.deletedAt) : ISSUE_RETENTION_DAYS;
+
+              return (
+                <TableRow key={issue.id}>
+                  <TableCell component="th" scope="row">
+                    {issue.title}
+                  </TableCell>
+                  <TableCell>{issue.category}</TableCell>
+                  <TableCell>{issue.deletedByName || issue.deletedBy || 'Unknown'}</TableCell>
+                  <TableCell>{issue.deletedAt ? formatDate(issue.deletedAt) : 'Unknown'}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={daysRemaining === 1 ? '1 day left' : `${daysRemaining} days left`}
+                      size="small"
+                      color={daysRemaining <= 3 ? 'error' : 'default'}
+                      variant="outlined"
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      startIcon={restoringId === issue.id ? <CircularProgress size={16} /> : <RestoreIcon />}
+                      onClick={() => handleRestore(issue)}
+                      disabled={restoringId !== null}
+                    >
+                      Restore
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        rowsPerPageOptions={[5, 10, 25]}
+        component="div"
+        count={serverPagination?.total ?? 0}
+        rowsPerPage={pageSize}
+        page={page}
+        onPageChange={(event, newPage) => setPage(newPage)}
+        onRowsPerPageChange={(event) => setPageSize(parseInt(event.target.value, 10))}
+        sx={{
+          color: '#fff',
+          '.MuiTablePagination-selectIcon': {
+            color: '#aaa',
+          },
+        }}
+      />
+    </>
+  );
+};
+
+export default IssueTrash;
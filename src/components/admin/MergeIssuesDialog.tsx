@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Alert,
+  Checkbox,
+  Chip,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  InputAdornment
+} from '@mui/material';
+import { Close as CloseIcon, Search as SearchIcon } from '@mui/icons-material';
+import { Issue } from '../../types';
+import issueService from '../../services/issueService';
+import { useFiltering, useNotification } from '../../hooks';
+import { distanceInKm } from '../../utils/geo';
+import { extractErrorMessage } from '../../utils/apiErrorHandler';
+
+interface MergeIssuesDialogProps {
+  open: boolean;
+  /** Issue the others are merged into */
+  canonical: Issue | null;
+  onClose: () => void;
+  /** Called with the updated canonical issue after a successful merge */
+  onMerged: (issue: Issue) => void;
+}
+
+const formatDistance = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+
+// Duplicates are usually reported close by; further issues are found by searching
+const NEARBY_RADIUS_KM = 2;
+// Most candidates listed at once
+const MAX_CANDIDATES = 50;
+
+const MergeIssuesDialog: React.FC<MergeIssuesDialogProps> = ({ open, canonical, onClose, onMerged }) => {
+  const { showSuccess } = useNotification();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loadedIssues, setLoadedIssues] = useState<Issue[]>([]);
+  const [loadingIssues, setLoadingIssues] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // The search goes to the backend once typing pauses
+  const { filters, debouncedFilters, setFilter, resetFilters } = useFiltering({
+    serverSide: true,
+    initialFilters: { search: '' },
+    textFilters: ['search']
+  });
+  const search = String(filters.search || '');
+  const debouncedSearch = String(debouncedFilters.search || '').trim();
+
+  useEffect(() => {
+    if (open) {
+      setSelectedIds([]);
+      resetFilters();
+      setError(null);
+    }
+  }, [open, canonical, resetFilters]);
+
+  // Issues near the canonical one, or those matching the search anywhere
+  useEffect(() => {
+    if (!open || !canonical) return;
+
+    const controller = new AbortController();
+    setLoadingIssues(true);
+    setLoadError(null);
+
+    const request = debouncedSearch
+      ? issueService.searchIssues({ search: debouncedSearch, limit: MAX_CANDIDATES }, { signal: controller.signal })
+        .then(result => result.issues)
+      : issueService.getNearbyIssues(canonical.location.latitude, canonical.location.longitude, NEARBY_RADIUS_KM);
+
+    request
+      .then(issues => {
+        if (!controller.signal.aborted) {
+          setLoadedIssues(issues);
+          setLoadingIssues(false);
+        }
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setLoadError(extractErrorMessage(err).message || 'Failed to load issues');
+          setLoadingIssues(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [open, canonical, debouncedSearch]);
+
+  // Mergeable issues, same category and closest first since those are the likely duplicates
+  const candidates = useMemo(() => {
+    if (!canonical) return [];
+
+    return loadedIssues
+      .filter(issue => issue.id !== canonical.id && !issue.mergedInto && !issue.deletedAt)
+      .map(issue => ({
+        issue,
+        distanceKm: distanceInKm(
+          canonical.location.latitude,
+          canonical.location.longitude,
+          issue.location.latitude,
+          issue.location.longitude
+        )
+      }))
+      .sort((a, b) => {
+        const aSame = a.issue.category === canonical.category ? 0 : 1;
+        const bSame = b.issue.category === canonical.category ? 0 : 1;
+        return aSame - bSame || a.distanceKm - b.distanceKm;
+      })
+      .slice(0, MAX_CANDIDATES);
+  }, [loadedIssues, canonical]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const handleMerge = async () => {
+    if (!canonical || selectedIds.length === 0) return;
+
+    setMerging(true);
+    setError(null);
+    try {
+      const merged = await issueService.mergeIssues(canonical.id, selectedIds);
+      showSuccess(`Merged ${selectedIds.length} issue${selectedIds.length === 1 ? '' : 's'} into "${canonical.title}"`);
+      onMerged(merged);
+    } catch (err: any) {
+      console.error('Failed to merge issues:', err);
+      setError(err?.message || 'Failed to merge issues. Please try again.');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={merging ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Merge Duplicates
+        <IconButton
+          aria-label="close"
+          onClick={onClose}
+          disabled={merging}
+          sx={{ position: 'absolute', right: 8, top: 8 }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent>
+        {canonical && (
+          <>
+            <Typography variant="subtitle1" gutterBottom>
+              Merge into: {canonical.title}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              The selected issues will be closed and point to this one. Their photos, flags, status history and
+              reporters are added to it.
+            </Typography>
+            <Divider sx={{ my: 2 }} />
+
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+
+            <TextField
+              fullWidth
+              size="small"
+              placeholder="Search issues..."
+              value={search}
+              onChange={(e) => setFilter('search', e.target.value)}
+              helperText={debouncedSearch
+                ? `Best matches for "${debouncedSearch}"`
+                : `Issues within ${NEARBY_RADIUS_KM} km. Search to find issues further away.`}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon />
+                  </InputAdornment>
+                ),
+              }}
+            />
+
+            {loadError && (
+              <Alert severity="error" sx={{ mt: 1 }}>
+                {loadError}
+              </Alert>
+            )}
+
+            <List dense sx={{ maxHeight: 360, overflow: 'auto', mt: 1 }}>
+              {loadingIssues && (
+                <ListItem sx={{ justifyContent: 'center' }}>
+                  <CircularProgress size={24} />
+                </ListItem>
+              )}
+              {!loadingIssues && !loadError && candidates.length === 0 && (
+                <ListItem>
+                  <ListItemText secondary="No other issues can be merged." />
+                </ListItem>
+              )}
+              {candidates.map(({ issue, distanceKm }) => (
+                <ListItem key={issue.id} disablePadding>
+                  <ListItemButton onClick={() => toggleSelected(issue.id)} disabled={merging}>
+                    <ListItemIcon sx={{ minWidth: 36 }}>
+                      <Checkbox
+                        edge="start"
+                        size="small"
+                        checked={selectedIds.includes(issue.id)}
+                        tabIndex={-1}
+                        disableRipple
+                      />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={issue.title}
+                      secondary={
+                        <Box component="span" sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 0.5 }}>
+                          <Chip
+                            size="small"
+                            label={issue.category}
+                            color={issue.category === canonical.category ? 'success' : 'default'}
+                          />
+                          <Chip size="small" label={`${formatDistance(distanceKm)} away`} />
+                          <Chip size="small" label={issue.status.replace('_', ' ')} />
+                        </Box>
+                      }
+                      secondaryTypographyProps={{ component: 'span' }}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={merging}>Cancel</Button>
+        <Button
+          onClick={handleMerge}
+          variant="contained"
+          disabled={merging || selectedIds.length === 0}
+          sx={{
+            backgroundColor: '#4CAF50',
+            '&:hover': {
+              backgroundColor: '#388E3C',
+            },
+          }}
+        >
+          {merging
+            ? <CircularProgress size={24} />
+            : selectedIds.length === 0 ? 'Merge' : `Merge ${selectedIds.length} Issue${selectedIds.length === 1 ? '' : 's'}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MergeIssuesDialog;
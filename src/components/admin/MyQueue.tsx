@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Button,
+  IconButton,
+  CircularProgress,
+  Alert,
+  FormControlLabel,
+  Switch
+} from '@mui/material';
+import { Visibility as VisibilityIcon, AssignmentInd as TakeIcon } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { Issue } from '../../types';
+import issueService from '../../services/issueService';
+import { useApi, useAuth, useNotification, usePermission } from '../../hooks';
+
+interface MyQueueProps {
+  /** Called after an issue in the queue is picked up, so the caller can refresh its issue list */
+  onAssigned?: (issue: Issue) => void;
+}
+
+const formatDate = (date: string | Date): string => {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+/**
+ * Open issues routed to the signed-in staff member's department. Issues assigned to
+ * them come first, then the rest oldest first, so nothing waits at the bottom.
+ */
+const MyQueue: React.FC<MyQueueProps> = ({ onAssigned }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { can } = usePermission();
+  const { showSuccess, showError } = useNotification();
+  const [mineOnly, setMineOnly] = useState(false);
+  const [takingId, setTakingId] = useState<string | null>(null);
+
+  const {
+    data: queue,
+    loading,
+    error,
+    execute: fetchQueue
+  } = useApi(issueService.getMyQueue, { resetOnFetch: false });
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const rows = useMemo(() => {
+    const isMine = (issue: Issue) => !!user && issue.assignedTo?.staffId === user.id;
+    return (queue || [])
+      .filter(issue => !mineOnly || isMine(issue))
+      .sort((a, b) =>
+        Number(isMine(b)) - Number(isMine(a)) ||
+        new Date(a.reportedAt).getTime() - new Date(b.reportedAt).getTime());
+  }, [queue, mineOnly, user]);
+
+  const handleTake = async (issue: Issue) => {
+    if (!user || !issue.assignedTo) return;
+
+    setTakingId(issue.id);
+    try {
+      const updated = await issueService.assignIssue(issue.id, issue.assignedTo.departmentId, user.id);
+      showSuccess(`You are now working on "${issue.title}"`);
+      await fetchQueue();
+      if (onAssigned) {
+        onAssigned(updated);
+      }
+    } catch (err: any) {
+      console.error('Failed to pick up issue:', err);
+      showError(err?.message || 'Failed to pick up the issue. Please try again.');
+    } finally {
+      setTakingId(null);
+    }
+  };
+
+  if (loading && !queue) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error" sx={{ mb: 3 }}>
+        Failed to load your queue. Please try again later.
+      </Alert>
+    );
+  }
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          Open issues routed to {queue?.[0]?.assignedTo?.departmentName || 'your department'}.
+        </Typography>
+        <FormControlLabel
+          control={<Switch checked={mineOnly} onChange={(e) => setMineOnly(e.target.checked)} />}
+          label="Assigned to me"
+        />
+      </Box>
+
+      {rows.length === 0 ? (
+        <Box sx={{ textAlign: 'center', py: 4 }}>
+          <Typography variant="h6" gutterBottom>
+            Queue is Empty
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            {mineOnly ? 'No open issues are assigned to you.' : 'Your department has no open issues.'}
+          </Typography>
+        </Box>
+      ) : (
+        <TableContainer component={Paper} sx={{ backgroundColor: '#1e1e1e' }}>
+          <Table sx={{ minWidth: 650 }} aria-label="my queue table">
+            <TableHead>
+              <TableRow>
+                <TableCell>Title</TableCell>
+                <TableCell>Category</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Assigned To</TableCell>
+                <TableCell>Reported</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((issue) => {
+                const mine = !!user && issue.assignedTo?.staffId === user.id;
+
+                return (
+                  <TableRow key={issue.id}>
+                    <TableCell component="th" scope="row">
+                      {issue.title}
+                    </TableCell>
+                    <TableCell>{issue.category}</TableCell>
+                    <TableCell>{issue.status.replace('_', ' ')}</TableCell>
+                    <TableCell>
+                      {mine ? (
+                        <Chip label="You" size="small" color="success" />
+                      ) : (
+                        issue.assignedTo?.staffName || <Chip label="Unassigned" size="small" variant="outlined" />
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDate(issue.reportedAt)}</TableCell>
+                    <TableCell align="right">
+                      <IconButton
+                        aria-label="view"
+                        onClick={() => navigate(`/issues/${issue.id}`)}
+                        size="small"
+                      >
+                        <VisibilityIcon fontSize="small" />
+                      </IconButton>
+                      {!mine && can('issue:assign', issue) && (
+                        <Button
+                          size="small"
+                          startIcon={takingId === issue.id ? <CircularProgress size={16} /> : <TakeIcon />}
+                          onClick={() => handleTake(issue)}
+                          disabled={takingId !== null}
+                        >
+                          Take
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </>
+  );
+};
+
+export default MyQueue;
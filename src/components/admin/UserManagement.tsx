@@ -0,0 +1,554 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Chip,
+  Button,
+  TextField,
+  MenuItem,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Alert,
+  Divider,
+  Avatar,
+  InputAdornment,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip
+} from '@mui/material';
+import {
+  Visibility as VisibilityIcon,
+  Edit as EditIcon,
+  Search as SearchIcon,
+  Close as CloseIcon,
+  Block as SuspendIcon,
+  LockOpen as ReactivateIcon
+} from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { Issue, User, UserFlag, UserRole, USER_ROLES } from '../../types';
+import userService from '../../services/userService';
+import departmentService from '../../services/departmentService';
+import { useApi, useTheme, useNotification } from '../../hooks';
+import { getUserRole, ROLE_LABELS } from '../../utils/permissions';
+
+const UserManagement: React.FC = () => {
+  const { theme } = useTheme();
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useNotification();
+
+  // Server-driven list state (page is 0-based for TablePagination, 1-based for the API)
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+
+  const {
+    data: usersData,
+    loading,
+    error,
+    execute: fetchUsers
+  } = useApi(userService.getUsers, { resetOnFetch: false });
+
+  // User details dialog
+  const [detailsUser, setDetailsUser] = useState<User | null>(null);
+  const [detailsLoading, setDetailsLoading] = useState(false);
+  const [detailsIssues, setDetailsIssues] = useState<Issue[]>([]);
+  const [detailsIssuesTotal, setDetailsIssuesTotal] = useState(0);
+  const [detailsFlags, setDetailsFlags] = useState<UserFlag[]>([]);
+
+  // Role dialog
+  const [roleUser, setRoleUser] = useState<User | null>(null);
+  const [newRole, setNewRole] = useState<UserRole>('citizen');
+  const [newDepartmentId, setNewDepartmentId] = useState('');
+  const { data: departments, execute: fetchDepartments } = useApi(departmentService.getDepartments);
+
+  // Suspend / reactivate dialog
+  const [statusUser, setStatusUser] = useState<User | null>(null);
+  const [suspensionReason, setSuspensionReason] = useState('');
+
+  const [saving, setSaving] = useState(false);
+
+  const loadUsers = useCallback(() => {
+    return fetchUsers({ page: page + 1, limit: rowsPerPage, search: search || undefined });
+  }, [fetchUsers, page, rowsPerPage, search]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  // Debounce the search box so we don't hit the server on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const formatDate = (date: string | Date): string => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const handleChangePage = (event: unknown, newPage: number) => {
+    setPage(newPage);
+  };
+
+  const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setRowsPerPage(parseInt(event.target.value, 10));
+    setPage(0);
+  };
+
+  const handleViewUser = async (user: User) => {
+    setDetailsUser(user);
+    setDetailsLoading(true);
+    try {
+      const [freshUser, issuesData, flags] = await Promise.all([
+        userService.getUserById(user.id),
+        userService.getUserIssues(user.id, { page: 1, limit: 5 }),
+        userService.getUserFlags(user.id)
+      ]);
+      setDetailsUser(freshUser);
+      setDetailsIssues(issuesData.issues);
+      setDetailsIssuesTotal(issuesData.pagination.total);
+      setDetailsFlags(flags);
+    } catch (err) {
+      console.error('Failed to load user details:', err);
+      showError('Failed to load user details. Please try again.');
+    } finally {
+      setDetailsLoading(false);
+    }
+  };
+
+  const handleDetailsClose = () => {
+    setDetailsUser(null);
+    setDetailsIssues([]);
+    setDetailsIssuesTotal(0);
+    setDetailsFlags([]);
+  };
+
+  const handleEditRoleClick = (user: User) => {
+    setRoleUser(user);
+    setNewRole(getUserRole(user) ?? 'citizen');
+    setNewDepartmentId(user.departmentId || '');
+    if (!departments) {
+      fetchDepartments();
+    }
+  };
+
+  const handleRoleUpdate = async () => {
+    if (!roleUser) return;
+
+    setSaving(true);
+    try {
+      await userService.updateUserRole(
+        roleUser.id,
+        newRole,
+        newRole === 'department_staff' ? newDepartmentId : null
+      );
+      showSuccess(`${roleUser.name} is now ${ROLE_LABELS[newRole].toLowerCase()}`);
+      setRoleUser(null);
+      await loadUsers();
+    } catch (err: any) {
+      console.error('Failed to update role:', err);
+      showError(err?.message || 'Failed to update user role. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusClick = (user: User) => {
+    setStatusUser(user);
+    setSuspensionReason('');
+  };
+
+  const handleStatusUpdate = async () => {
+    if (!statusUser) return;
+
+    const suspending = statusUser.status !== 'suspended';
+    setSaving(true);
+    try {
+      if (suspending) {
+        await userService.suspendUser(statusUser.id, suspensionReason.trim() || undefined);
+      } else {
+        await userService.reactivateUser(statusUser.id);
+      }
+      showSuccess(`${statusUser.name} has been ${suspending ? 'suspended' : 'reactivated'}`);
+      setStatusUser(null);
+      await loadUsers();
+    } catch (err: any) {
+      console.error('Failed to update account status:', err);
+      showError(err?.message || 'Failed to update account status. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const users = usersData?.users ?? [];
+  const roleChanged = !!roleUser && (
+    newRole !== getUserRole(roleUser) ||
+    (newRole === 'department_staff' && newDepartmentId !== (roleUser.departmentId || ''))
+  );
+
+  return (
+    <>
+      <Box sx={{ mb: 3 }}>
+        <TextField
+          label="Search Users"
+          variant="outlined"
+          size="small"
+          fullWidth
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search by name, username or email..."
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" sx={{ color: 'text.secondary' }} />
+              </InputAdornment>
+            ),
+          }}
+        />
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          Failed to load users. Please try again later.
+        </Alert>
+      )}
+
+      <TableContainer component={Paper} sx={{ backgroundColor: '#1e1e1e' }}>
+        <Table sx={{ minWidth: 650 }} aria-label="users table">
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>Email</TableCell>
+              <TableCell>Role</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Joined Date</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading && users.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            ) : users.length > 0 ? (
+              users.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell component="th" scope="row">
+                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                      <Avatar sx={{ width: 32, height: 32, mr: 1, bgcolor: theme.palette.primary.main }}>
+                        {user.name.charAt(0).toUpperCase()}
+                      </Avatar>
+                      {user.name}
+                    </Box>
+                  </TableCell>
+                  <TableCell>{user.email}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={ROLE_LABELS[getUserRole(user) ?? 'citizen']}
+                      size="small"
+                      color={getUserRole(user) === 'citizen' ? 'default' : 'secondary'}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={user.status === 'suspended' ? 'suspended' : 'active'}
+                      size="small"
+                      color={user.status === 'suspended' ? 'error' : 'success'}
+                      variant="outlined"
+                    />
+                  </TableCell>
+                  <TableCell>{formatDate(user.createdAt)}</TableCell>
+                  <TableCell align="right">
+                    <IconButton
+                      aria-label="view user"
+                      onClick={() => handleViewUser(user)}
+                      size="small"
+                    >
+                      <VisibilityIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton
+                      aria-label="edit user role"
+                      onClick={() => handleEditRoleClick(user)}
+                      size="small"
+                      color="primary"
+                    >
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <Tooltip title={user.status === 'suspended' ? 'Reactivate account' : 'Suspend account'}>
+                      <IconButton
+                        aria-label={user.status === 'suspended' ? 'reactivate user' : 'suspend user'}
+                        onClick={() => handleStatusClick(user)}
+                        size="small"
+                        color={user.status === 'suspended' ? 'success' : 'error'}
+                      >
+                        {user.status === 'suspended' ? <ReactivateIcon fontSize="small" /> : <SuspendIcon fontSize="small" />}
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  No users found matching the current search.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <TablePagination
+        rowsPerPageOptions={[5, 10, 25]}
+        component="div"
+        count={usersData?.pagination.total ?? 0}
+        rowsPerPage={rowsPerPage}
+        page={usersData ? page : 0}
+        onPageChange={handleChangePage}
+        onRowsPerPageChange={handleChangeRowsPerPage}
+        sx={{
+          color: '#fff',
+          '.MuiTablePagination-selectIcon': {
+            color: '#aaa',
+          },
+        }}
+      />
+
+      {/* User Details Dialog */}
+      <Dialog open={!!detailsUser} onClose={handleDetailsClose} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          User Details
+          <IconButton
+            aria-label="close"
+            onClick={handleDetailsClose}
+            sx={{ position: 'absolute', right: 8, top: 8 }}
+          >
+            <CloseIcon />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent>
+          {detailsUser && (
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                <Avatar sx={{ width: 48, height: 48, mr: 2, bgcolor: theme.palette.primary.main }}>
+                  {detailsUser.name.charAt(0).toUpperCase()}
+                </Avatar>
+                <Box>
+                  <Typography variant="h6">{detailsUser.name}</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    @{detailsUser.username} · {detailsUser.email}
+                  </Typography>
+                </Box>
+              </Box>
+              <Typography variant="body2" gutterBottom>
+                Role: {ROLE_LABELS[getUserRole(detailsUser) ?? 'citizen']} · Joined {formatDate(detailsUser.createdAt)}
+              </Typography>
+              {detailsUser.status === 'suspended' && (
+                <Alert severity="warning" sx={{ mt: 1 }}>
+                  Suspended{detailsUser.suspendedAt ? ` on ${formatDate(detailsUser.suspendedAt)}` : ''}
+                  {detailsUser.suspensionReason ? `: ${detailsUser.suspensionReason}` : ''}
+                </Alert>
+              )}
+              <Divider sx={{ my: 2 }} />
+
+              {detailsLoading ? (
+                <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+                  <CircularProgress size={24} />
+                </Box>
+              ) : (
+                <>
+                  <Typography variant="subtitle1">
+                    Reported Issues ({detailsIssuesTotal})
+                  </Typography>
+                  {detailsIssues.length > 0 ? (
+                    <List dense>
+                      {detailsIssues.map((issue) => (
+                        <ListItem
+                          key={issue.id}
+                          button
+                          onClick={() => navigate(`/issues/${issue.id}`)}
+                        >
+                          <ListItemText
+                            primary={issue.title}
+                            secondary={`${issue.status} · ${formatDate(issue.reportedAt)}`}
+                          />
+                        </ListItem>
+                      ))}
+                    </List>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                      This user hasn't reported any issues.
+                    </Typography>
+                  )}
+
+                  <Typography variant="subtitle1" sx={{ mt: 1 }}>
+                    Flags Raised ({detailsFlags.length})
+                  </Typography>
+                  {detailsFlags.length > 0 ? (
+                    <List dense>
+                      {detailsFlags.map((flag) => (
+                        <ListItem
+                          key={flag.id}
+                          button
+                          onClick={() => navigate(`/issues/${flag.issueId}`)}
+                        >
+                          <ListItemText
+                            primary={flag.issueTitle}
+                            secondary={`${flag.reason} · ${formatDate(flag.flaggedAt)}`}
+                          />
+                        </ListItem>
+                      ))}
+                    </List>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">
+                      This user hasn't flagged any issues.
+                    </Typography>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleDetailsClose}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Role Dialog */}
+      <Dialog open={!!roleUser} onClose={() => setRoleUser(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          Change Role
+          <IconButton
+            aria-label="close"
+            onClick={() => setRoleUser(null)}
+            sx={{ position: 'absolute', right: 8, top: 8 }}
+          >
+            <CloseIcon />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent>
+          {roleUser && (
+            <>
+              <Typography variant="subtitle1" gutterBottom>
+                User: {roleUser.name}
+              </Typography>
+              <TextField
+                select
+                fullWidth
+                label="Role"
+                value={newRole}
+                onChange={(e) => setNewRole(e.target.value as UserRole)}
+                margin="normal"
+              >
+                {USER_ROLES.map((role) => (
+                  <MenuItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </MenuItem>
+                ))}
+              </TextField>
+              {newRole === 'department_staff' && (
+                <TextField
+                  select
+                  fullWidth
+                  required
+                  label="Department"
+                  value={newDepartmentId}
+                  onChange={(e) => setNewDepartmentId(e.target.value)}
+                  margin="normal"
+                  helperText="Staff work on their own department's issues"
+                >
+                  {(departments ?? []).map((department) => (
+                    <MenuItem key={department.id} value={department.id}>
+                      {department.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRoleUser(null)}>Cancel</Button>
+          <Button
+            onClick={handleRoleUpdate}
+            variant="contained"
+            disabled={saving || !roleChanged || (newRole === 'department_staff' && !newDepartmentId)}
+          >
+            {saving ? <CircularProgress size={24} /> : 'Save Role'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Suspend / Reactivate Dialog */}
+      <Dialog open={!!statusUser} onClose={() => setStatusUser(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          {statusUser?.status === 'suspended' ? 'Reactivate Account' : 'Suspend Account'}
+          <IconButton
+            aria-label="close"
+            onClick={() => setStatusUser(null)}
+            sx={{ position: 'absolute', right: 8, top: 8 }}
+          >
+            <CloseIcon />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent>
+          {statusUser && (statusUser.status === 'suspended' ? (
+            <Typography variant="body1">
+              Allow {statusUser.name} to sign in and report issues again?
+            </Typography>
+          ) : (
+            <>
+              <Typography variant="body1" gutterBottom>
+                {statusUser.name} will no longer be able to sign in.
+              </Typography>
+              <TextField
+                fullWidth
+                label="Reason (Optional)"
+                value={suspensionReason}
+                onChange={(e) => setSuspensionReason(e.target.value)}
+                margin="normal"
+                multiline
+                rows={3}
+              />
+            </>
+          ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setStatusUser(null)}>Cancel</Button>
+          <Button
+            onClick={handleStatusUpdate}
+            variant="contained"
+            color={statusUser?.status === 'suspended' ? 'success' : 'error'}
+            disabled={saving}
+          >
+            {saving ? <CircularProgress size={24} /> : (statusUser?.status === 'suspended' ? 'Reactivate' : 'Suspend')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default UserManagement;
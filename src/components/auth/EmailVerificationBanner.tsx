@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { Alert, Button, CircularProgress } from '@mui/material';
+import authService from '../../services/authService';
+import { useAuth, useNotification } from '../../hooks';
+
+/**
+ * Reminds signed-in users with an unverified email address to verify it,
+ * with a button to send the verification email again
+ */
+const EmailVerificationBanner: React.FC = () => {
+  const { user } = useAuth();
+  const { showSuccess, showError } = useNotification();
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  // Only an explicit false counts; older backends don't send the field at all
+  if (!user || user.emailVerified !== false) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      await authService.resendVerificationEmail();
+      setSent(true);
+      showSuccess(`Verification email sent to ${user.email}`);
+    } catch (err: any) {
+      console.error('Failed to resend verification email:', err);
+      showError(err?.message || 'Failed to send the verification email. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Alert
+      severity="warning"
+      square
+      action={
+        <Button color="inherit" size="small" onClick={handleResend} disabled={sending || sent}>
+          {sending ? <CircularProgress size={16} color="inherit" /> : sent ? 'Email sent' : 'Resend email'}
+        </Button>
+      }
+    >
+      Please verify your email address ({user.email}). Check your inbox for the verification link.
+    </Alert>
+  );
+};
+
+export default EmailVerificationBanner;
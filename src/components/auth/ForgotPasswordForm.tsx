@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { TextField, Button, Typography, Box, Paper, Link, CircularProgress, Alert } from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+import authService from '../../services/authService';
+
+const ForgotPasswordForm: React.FC = () => {
+  const navigate = useNavigate();
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [sent, setSent] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authService.requestPasswordReset(email.trim());
+      setSent(true);
+    } catch (err: any) {
+      console.error('Password reset request failed:', err);
+      setError(err.message || 'Failed to send the reset link. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 4, maxWidth: 400, mx: 'auto', mt: 4, backgroundColor: '#000', color: '#fff', borderRadius: 2 }}>
+      <Typography variant="h5" component="h1" gutterBottom align="center">
+        Forgot Password
+      </Typography>
+
+      {sent ? (
+        <Alert severity="success" sx={{ mt: 2 }}>
+          If an account exists for {email}, we've sent a link to reset your password. The link expires in an hour.
+        </Alert>
+      ) : (
+        <Box component="form" onSubmit={handleSubmit} noValidate>
+          <Typography variant="body2" sx={{ color: '#aaa', mb: 2 }}>
+            Enter the email address you registered with and we'll send you a link to choose a new password.
+          </Typography>
+
+          {error && (
+            <Box sx={{ mb: 2, p: 2, backgroundColor: 'rgba(244, 67, 54, 0.1)', borderRadius: 1 }}>
+              <Typography color="error" variant="body2">
+                {error}
+              </Typography>
+            </Box>
+          )}
+
+          <TextField
+            margin="normal"
+            required
+            fullWidth
+            id="email"
+            label="Email Address"
+            name="email"
+            autoComplete="email"
+            autoFocus
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            sx={{
+              mb: 2,
+              '& .MuiOutlinedInput-root': {
+                '& fieldset': {
+                  borderColor: '#444',
+                },
+                '&:hover fieldset': {
+                  borderColor: '#666',
+                },
+              },
+              '& .MuiInputLabel-root': {
+                color: '#aaa',
+              },
+              '& .MuiInputBase-input': {
+                color: '#fff',
+              },
+            }}
+          />
+
+          <Button
+            type="submit"
+            fullWidth
+            variant="contained"
+            disabled={loading}
+            sx={{
+              mt: 2,
+              mb: 2,
+              py: 1.5,
+              backgroundColor: '#4CAF50',
+              '&:hover': {
+                backgroundColor: '#388E3C',
+              },
+            }}
+          >
+            {loading ? <CircularProgress size={24} color="inherit" /> : 'Send Reset Link'}
+          </Button>
+        </Box>
+      )}
+
+      <Box sx={{ textAlign: 'center', mt: 2 }}>
+        <Typography variant="body2" sx={{ color: '#aaa' }}>
+          Remembered it?{' '}
+          <Link
+            onClick={() => navigate('/login')}
+            sx={{
+              cursor: 'pointer',
+              color: '#4CAF50',
+              textDecoration: 'none',
+              '&:hover': {
+                textDecoration: 'underline',
+              },
+            }}
+          >
+            Back to sign in
+          </Link>
+        </Typography>
+      </Box>
+    </Paper>
+  );
+};
+
+export default ForgotPasswordForm;
@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import { TextField, Button, Typography, Box, Paper, Link, CircularProgress } from '@mui/material';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import authService, { LoginCredentials } from '../../services/authService';
+import { getReturnTarget } from '../../utils/authRedirect';
 
 const LoginForm: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const [credentials, setCredentials] = useState<LoginCredentials>({
     email: '',
     password: ''
@@ -28,11 +30,12 @@ const LoginForm: React.FC = () => {
     try {
       console.log('Submitting login form with credentials:', { email: credentials.email });
       const response = await authService.login(credentials);
-      console.log('Login successful, navigating to home page');
       
-      // Force a full page reload to ensure all components update with the new auth state
-      // This is more reliable than just navigating
-      window.location.href = '/';
+      // Return to the page that required login, with its state; auth listeners
+      // picked up the new token from the storage event
+      const target = getReturnTarget(location);
+      console.log('Login successful, navigating to', target.path);
+      navigate(target.path, { replace: true, state: target.state });
       
       return response;
     } catch (err: any) {
@@ -130,7 +133,7 @@ const LoginForm: React.FC = () => {
             sx: { color: '#aaa' }
           }}
           sx={{ 
-            mb: 3,
+            mb: 1,
             '& .MuiOutlinedInput-root': {
               '& fieldset': {
                 borderColor: '#444',
@@ -148,6 +151,23 @@ const LoginForm: React.FC = () => {
           }}
         />
         
+        <Box sx={{ textAlign: 'right', mb: 2 }}>
+          <Link 
+            onClick={() => navigate('/forgot-password')} 
+            variant="body2"
+            sx={{ 
+              cursor: 'pointer', 
+              color: '#4CAF50',
+              textDecoration: 'none',
+              '&:hover': {
+                textDecoration: 'underline',
+              },
+            }}
+          >
+            Forgot password?
+          </Link>
+        </Box>
+        
         <Button
           type="submit"
           fullWidth
@@ -170,7 +190,7 @@ const LoginForm: React.FC = () => {
           <Typography variant="body2" sx={{ color: '#aaa' }}>
             Don't have an account?{' '}
             <Link 
-              onClick={() => navigate('/register')} 
+              onClick={() => navigate({ pathname: '/register', search: location.search }, { state: location.state })} 
               sx={{ 
                 cursor: 'pointer', 
                 color: '#4CAF50',
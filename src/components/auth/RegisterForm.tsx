@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { TextField, Button, Typography, Box, Paper, Link, CircularProgress } from '@mui/material';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import authService, { RegisterData } from '../../services/authService';
+import { getReturnTarget } from '../../utils/authRedirect';
+import { validatePassword } from '../../utils/passwordPolicy';
 
 const RegisterForm: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const [formData, setFormData] = useState<RegisterData>({
     username: '',
     email: '',
@@ -55,22 +58,10 @@ const RegisterForm: React.FC = () => {
       return false;
     }
     
-    // Check if passwords match
-    if (formData.password !== confirmPassword) {
-      setError('Passwords do not match');
-      return false;
-    }
-    
-    // Check password length
-    if (formData.password.length < 8) {
-      setError('Password must be at least 8 characters');
-      return false;
-    }
-    
-    // Check password complexity using the exact same regex as the backend
-    const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[a-zA-Z\d@$!%*?&]{8,}$/;
-    if (!passwordRegex.test(formData.password)) {
-      setError('Password must be at least 8 characters long and contain at least one uppercase letter (A-Z), one lowercase letter (a-z), and one number (0-9). Special characters (@$!%*?&) are allowed but not required.');
+    // Check the password matches its confirmation and the backend's complexity rules
+    const passwordError = validatePassword(formData.password, confirmPassword);
+    if (passwordError) {
+      setError(passwordError);
       return false;
     }
     
@@ -105,9 +96,9 @@ const RegisterForm: React.FC = () => {
 
     try {
       await authService.register(formData);
-      // Force a full page reload to ensure all components update with the new auth state
-      // This is more reliable than just navigating
-      window.location.href = '/';
+      // Continue to the page that sent the user here, with its state
+      const target = getReturnTarget(location);
+      navigate(target.path, { replace: true, state: target.state });
     } catch (err: any) {
       console.error('Registration failed:', err);
       
@@ -349,7 +340,7 @@ const RegisterForm: React.FC = () => {
           <Typography variant="body2" sx={{ color: '#aaa' }}>
             Already have an account?{' '}
             <Link 
-              onClick={() => navigate('/login')} 
+              onClick={() => navigate({ pathname: '/login', search: location.search }, { state: location.state })} 
               sx={{ 
                 cursor: 'pointer', 
                 color: '#4CAF50',
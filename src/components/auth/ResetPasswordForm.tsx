@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { TextField, Button, Typography, Box, Paper, Link, CircularProgress, Alert } from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+import authService from '../../services/authService';
+import { validatePassword } from '../../utils/passwordPolicy';
+
+interface ResetPasswordFormProps {
+  /** Token from the reset link */
+  token: string | null;
+}
+
+const textFieldSx = {
+  mb: 2,
+  '& .MuiOutlinedInput-root': {
+    '& fieldset': {
+      borderColor: '#444',
+    },
+    '&:hover fieldset': {
+      borderColor: '#666',
+    },
+  },
+  '& .MuiInputLabel-root': {
+    color: '#aaa',
+  },
+  '& .MuiInputBase-input': {
+    color: '#fff',
+  },
+};
+
+const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ token }) => {
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [done, setDone] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!token) return;
+
+    const passwordError = validatePassword(password, confirmPassword);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authService.resetPassword(token, password);
+      setDone(true);
+    } catch (err: any) {
+      console.error('Password reset failed:', err);
+      setError(err.message || 'Failed to reset your password. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 4, maxWidth: 400, mx: 'auto', mt: 4, backgroundColor: '#000', color: '#fff', borderRadius: 2 }}>
+      <Typography variant="h5" component="h1" gutterBottom align="center">
+        Choose a New Password
+      </Typography>
+
+      {!token ? (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          This reset link is incomplete. Please use the link from your email, or request a new one.
+        </Alert>
+      ) : done ? (
+        <Alert severity="success" sx={{ mt: 2 }}>
+          Your password has been reset. You can now sign in with your new password.
+        </Alert>
+      ) : (
+        <Box component="form" onSubmit={handleSubmit} noValidate>
+          {error && (
+            <Box sx={{ mb: 2, p: 2, backgroundColor: 'rgba(244, 67, 54, 0.1)', borderRadius: 1 }}>
+              <Typography color="error" variant="body2">
+                {error}
+              </Typography>
+            </Box>
+          )}
+
+          <TextField
+            margin="normal"
+            required
+            fullWidth
+            name="password"
+            label="New Password"
+            type="password"
+            id="password"
+            autoComplete="new-password"
+            autoFocus
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            helperText="Password must contain uppercase, lowercase, and number"
+            FormHelperTextProps={{
+              sx: { color: '#aaa' }
+            }}
+            sx={textFieldSx}
+          />
+
+          <TextField
+            margin="normal"
+            required
+            fullWidth
+            name="confirmPassword"
+            label="Confirm New Password"
+            type="password"
+            id="confirmPassword"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            sx={textFieldSx}
+          />
+
+          <Button
+            type="submit"
+            fullWidth
+            variant="contained"
+            disabled={loading}
+            sx={{
+              mt: 2,
+              mb: 2,
+              py: 1.5,
+              backgroundColor: '#4CAF50',
+              '&:hover': {
+                backgroundColor: '#388E3C',
+              },
+            }}
+          >
+            {loading ? <CircularProgress size={24} color="inherit" /> : 'Reset Password'}
+          </Button>
+        </Box>
+      )}
+
+      <Box sx={{ textAlign: 'center', mt: 2 }}>
+        <Typography variant="body2" sx={{ color: '#aaa' }}>
+          <Link
+            onClick={() => navigate(done ? '/login' : '/forgot-password')}
+            sx={{
+              cursor: 'pointer',
+              color: '#4CAF50',
+              textDecoration: 'none',
+              '&:hover': {
+                textDecoration: 'underline',
+              },
+            }}
+          >
+            {done ? 'Go to sign in' : 'Request a new reset link'}
+          </Link>
+        </Typography>
+      </Box>
+    </Paper>
+  );
+};
+
+export default ResetPasswordForm;
@@ -0,0 +1,175 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+
+export interface BarChartSeries {
+  key: string;
+  label: string;
+  color: string;
+}
+
+export interface BarChartDatum {
+  label: string;
+  /** Value per series key */
+  values: Record<string, number>;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  series: BarChartSeries[];
+  /** Vertical bars suit time series; horizontal bars suit ranked categories with long labels */
+  orientation?: 'vertical' | 'horizontal';
+  /** Height of a vertical chart in SVG units; horizontal charts grow with the number of rows */
+  height?: number;
+  formatValue?: (value: number) => string;
+  /** Accessible name for the chart */
+  title: string;
+}
+
+const WIDTH = 600;
+const AXIS_COLOR = '#444';
+const TEXT_COLOR = '#aaa';
+const ROW_HEIGHT = 28;
+const GRID_LINES = 4;
+
+// Round the axis maximum up to 1, 2 or 5 times a power of ten so the grid lines land on readable values
+const getNiceMax = (max: number): number => {
+  if (max <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(max)));
+  const fraction = max / magnitude;
+  const nice = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10;
+  return nice * magnitude;
+};
+
+/**
+ * Grouped bar chart drawn as plain SVG, scaling to the width of its container
+ */
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  series,
+  orientation = 'vertical',
+  height = 240,
+  formatValue = (value) => String(value),
+  title
+}) => {
+  if (data.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+        No data for the selected filters.
+      </Typography>
+    );
+  }
+
+  const max = getNiceMax(Math.max(...data.map(d => Math.max(...series.map(s => d.values[s.key] || 0)))));
+
+  const legend = series.length > 1 && (
+    <Box sx={{ display: 'flex', gap: 2, justifyContent: 'center', mt: 1 }}>
+      {series.map(s => (
+        <Box key={s.key} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Box sx={{ width: 12, height: 12, backgroundColor: s.color, borderRadius: 0.5 }} />
+          <Typography variant="caption" color="text.secondary">{s.label}</Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+
+  if (orientation === 'horizontal') {
+    const labelWidth = 150;
+    const valueWidth = 60;
+    const plotWidth = WIDTH - labelWidth - valueWidth;
+    const groupHeight = ROW_HEIGHT * series.length;
+    const chartHeight = data.length * (groupHeight + 8);
+
+    return (
+      <Box>
+        <svg viewBox={`0 0 ${WIDTH} ${chartHeight}`} width="100%" role="img" aria-label={title}>
+          {data.map((d, row) => {
+            const y = row * (groupHeight + 8);
+            return (
+              <g key={d.label}>
+                <text x={labelWidth - 8} y={y + groupHeight / 2} textAnchor="end" dominantBaseline="middle" fill={TEXT_COLOR} fontSize={12}>
+                  {d.label.length > 22 ? `${d.label.slice(0, 21)}…` : d.label}
+                </text>
+                {series.map((s, i) => {
+                  const value = d.values[s.key] || 0;
+                  const barWidth = (value / max) * plotWidth;
+                  const barY = y + i * ROW_HEIGHT + 4;
+                  return (
+                    <g key={s.key}>
+                      <rect x={labelWidth} y={barY} width={Math.max(barWidth, 1)} height={ROW_HEIGHT - 8} fill={s.color} rx={2}>
+                        <title>{`${d.label} · ${s.label}: ${formatValue(value)}`}</title>
+                      </rect>
+                      <text x={labelWidth + barWidth + 6} y={barY + (ROW_HEIGHT - 8) / 2} dominantBaseline="middle" fill={TEXT_COLOR} fontSize={12}>
+                        {formatValue(value)}
+                      </text>
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+        {legend}
+      </Box>
+    );
+  }
+
+  const margin = { top: 10, right: 10, bottom: 30, left: 40 };
+  const plotWidth = WIDTH - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+  const groupWidth = plotWidth / data.length;
+  const barWidth = Math.max(2, (groupWidth * 0.7) / series.length);
+  // Keep x labels from overlapping when there are many groups
+  const labelEvery = Math.ceil(data.length / 12);
+
+  return (
+    <Box>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" role="img" aria-label={title}>
+        {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+          const value = (max / GRID_LINES) * i;
+          const y = margin.top + plotHeight - (value / max) * plotHeight;
+          return (
+            <g key={i}>
+              <line x1={margin.left} x2={WIDTH - margin.right} y1={y} y2={y} stroke={AXIS_COLOR} strokeDasharray={i === 0 ? undefined : '2 4'} />
+              <text x={margin.left - 6} y={y} textAnchor="end" dominantBaseline="middle" fill={TEXT_COLOR} fontSize={11}>
+                {formatValue(Math.round(value * 100) / 100)}
+              </text>
+            </g>
+          );
+        })}
+
+        {data.map((d, index) => {
+          const groupX = margin.left + index * groupWidth + (groupWidth - barWidth * series.length) / 2;
+          return (
+            <g key={d.label}>
+              {series.map((s, i) => {
+                const value = d.values[s.key] || 0;
+                const barHeight = (value / max) * plotHeight;
+                return (
+                  <rect
+                    key={s.key}
+                    x={groupX + i * barWidth}
+                    y={margin.top + plotHeight - barHeight}
+                    width={barWidth - 1}
+                    height={barHeight}
+                    fill={s.color}
+                    rx={1}
+                  >
+                    <title>{`${d.label} · ${s.label}: ${formatValue(value)}`}</title>
+                  </rect>
+                );
+              })}
+              {index % labelEvery === 0 && (
+                <text x={margin.left + index * groupWidth + groupWidth / 2} y={height - 10} textAnchor="middle" fill={TEXT_COLOR} fontSize={11}>
+                  {d.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      {legend}
+    </Box>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,22 @@
+import React from 'react';
+import usePermission from '../../hooks/usePermission';
+import { PermissionAction, PermissionResource } from '../../utils/permissions';
+
+interface CanProps {
+  action: PermissionAction;
+  /** Issue or comment the action targets */
+  resource?: PermissionResource;
+  /** Rendered instead of the children when the action isn't allowed */
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only when the current user may perform the action
+ */
+const Can: React.FC<CanProps> = ({ action, resource, fallback = null, children }) => {
+  const { can } = usePermission();
+  return <>{can(action, resource) ? children : fallback}</>;
+};
+
+export default Can;
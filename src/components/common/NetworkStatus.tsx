@@ -1,15 +1,52 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Snackbar, Alert, AlertColor } from '@mui/material';
+import { useAuth } from '../../hooks';
+import outboxService from '../../services/outboxService';
 
 interface NetworkStatusProps {
   // Optional props can be added here
 }
 
+// Every page mounts its own Layout; replay on load only once per user per session
+const replayedOnLoad = new Set<string>();
+
 const NetworkStatus: React.FC<NetworkStatusProps> = () => {
   const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
   const [showMessage, setShowMessage] = useState<boolean>(false);
   const [message, setMessage] = useState<string>('');
   const [severity, setSeverity] = useState<AlertColor>('info');
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  // Send any reports that were saved while offline
+  const syncOutbox = useCallback(async () => {
+    if (!userId || !outboxService.isSupported()) return;
+
+    try {
+      // Reports the server rejected wait for the user to retry them from their profile
+      const pending = (await outboxService.getEntries(userId)).filter(entry => !entry.lastError);
+      if (pending.length === 0) return;
+
+      const result = await outboxService.flush(userId);
+      if (result.synced.length > 0 || result.failed.length > 0) {
+        setMessage(result.failed.length > 0
+          ? `Synced ${result.synced.length} pending report(s); ${result.failed.length} could not be sent. See your profile for details.`
+          : `Synced ${result.synced.length} report(s) saved while you were offline`);
+        setSeverity(result.failed.length > 0 ? 'warning' : 'success');
+        setShowMessage(true);
+      }
+    } catch (error) {
+      console.error('Failed to sync offline reports:', error);
+    }
+  }, [userId]);
+
+  // Replay on load too, in case connectivity came back while the app was closed
+  useEffect(() => {
+    if (userId && navigator.onLine && !replayedOnLoad.has(userId)) {
+      replayedOnLoad.add(userId);
+      syncOutbox();
+    }
+  }, [userId, syncOutbox]);
 
   useEffect(() => {
     // Function to handle online status change
@@ -18,6 +55,7 @@ const NetworkStatus: React.FC<NetworkStatusProps> = () => {
       setMessage('You are back online');
       setSeverity('success');
       setShowMessage(true);
+      syncOutbox();
     };
 
     // Function to handle offline status change
@@ -42,7 +80,7 @@ const NetworkStatus: React.FC<NetworkStatusProps> = () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, []);
+  }, [syncOutbox]);
 
   // Handle closing the snackbar
   const handleClose = () => {
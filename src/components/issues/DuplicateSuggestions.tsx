@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  Chip,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import {
+  ThumbUp as ThumbUpIcon,
+  OpenInNew as OpenInNewIcon
+} from '@mui/icons-material';
+import { Issue } from '../../types';
+import issueService from '../../services/issueService';
+import {
+  DuplicateCandidate,
+  DuplicateDraft,
+  DUPLICATE_SEARCH_RADIUS_KM,
+  findDuplicateCandidates
+} from '../../utils/duplicateDetection';
+import { isOnline } from '../../utils/networkUtils';
+
+interface DuplicateSuggestionsProps {
+  draft: DuplicateDraft;
+  /** Whether the report has photos that would be added to the chosen issue */
+  hasPhotos?: boolean;
+  /** Issue currently being joined, if any */
+  joiningId?: string | null;
+  onJoin: (issue: Issue) => void;
+}
+
+const formatDistance = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m away` : `${km.toFixed(1)} km away`;
+
+const DuplicateSuggestions: React.FC<DuplicateSuggestionsProps> = ({ draft, hasPhotos = false, joiningId = null, onJoin }) => {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { title, description, category, location } = draft;
+
+  useEffect(() => {
+    // The check is a convenience; skip it offline rather than hold up the report
+    if (!isOnline()) return;
+
+    let cancelled = false;
+    setLoading(true);
+    issueService.getNearbyIssues(location.latitude, location.longitude, DUPLICATE_SEARCH_RADIUS_KM)
+      .then(issues => {
+        if (!cancelled) {
+          setCandidates(findDuplicateCandidates({ title, description, category, location }, issues));
+        }
+      })
+      .catch(err => {
+        console.error('Failed to check for similar issues:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [title, description, category, location]);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 3, color: '#aaa' }}>
+        <CircularProgress size={16} sx={{ mr: 1 }} />
+        <Typography variant="body2">Checking for similar reports nearby...</Typography>
+      </Box>
+    );
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert severity="info" sx={{ mb: 3, '& .MuiAlert-message': { width: '100%' } }}>
+      <Typography variant="subtitle2" gutterBottom>
+        Has this already been reported?
+      </Typography>
+      <Typography variant="body2" sx={{ mb: 2 }}>
+        We found similar {category} reports close to this location. If one of them is your issue,
+        add your vote{hasPhotos ? ' and photos' : ''} to it instead of filing a new report.
+      </Typography>
+
+      {candidates.map(({ issue, distanceKm }) => (
+        <Paper
+          key={issue.id}
+          variant="outlined"
+          sx={{ p: 2, mb: 1, backgroundColor: 'transparent', borderColor: '#444' }}
+        >
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', flexWrap: 'wrap', gap: 1 }}>
+            <Box sx={{ flex: 1, minWidth: 200 }}>
+              <Typography variant="body1">{issue.title}</Typography>
+              <Typography variant="body2" color="text.secondary" noWrap>
+                {issue.description}
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, mt: 1, flexWrap: 'wrap' }}>
+                <Chip size="small" label={formatDistance(distanceKm)} />
+                <Chip size="small" label={`Reported ${new Date(issue.reportedAt).toLocaleDateString()}`} />
+                <Chip size="small" label={issue.status.replace('_', ' ')} />
+                <Chip size="small" icon={<ThumbUpIcon />} label={issue.voteCount ?? 0} />
+              </Box>
+            </Box>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={() => onJoin(issue)}
+                disabled={!!joiningId}
+                startIcon={joiningId === issue.id ? <CircularProgress size={16} color="inherit" /> : <ThumbUpIcon />}
+                sx={{
+                  backgroundColor: '#4CAF50',
+                  '&:hover': {
+                    backgroundColor: '#388E3C',
+                  },
+                }}
+              >
+                This is my issue
+              </Button>
+              <Button
+                size="small"
+                href={`/issues/${issue.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                endIcon={<OpenInNewIcon fontSize="small" />}
+              >
+                View
+              </Button>
+            </Box>
+          </Box>
+        </Paper>
+      ))}
+    </Alert>
+  );
+};
+
+export default DuplicateSuggestions;
@@ -20,6 +20,8 @@ import {
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { Issue, IssueStatus } from '../../types';
+import VoteButton from './VoteButton';
+import SlaChip from './SlaChip';
 
 interface IssueCardProps {
   issue: Issue;
@@ -122,14 +124,13 @@ const IssueCard: React.FC<IssueCardProps> = ({
             )}
           </Box>
           
-          <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 1 }}>
             <Chip 
               label={issue.status} 
               size="small" 
               sx={{ 
                 backgroundColor: getStatusColor(issue.status),
-                color: '#fff',
-                mr: 1
+                color: '#fff'
               }} 
             />
             <Chip 
@@ -138,6 +139,7 @@ const IssueCard: React.FC<IssueCardProps> = ({
               variant="outlined"
               sx={{ borderColor: '#666', color: '#fff' }}
             />
+            <SlaChip issue={issue} />
           </Box>
           
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2, display: '-webkit-box', overflow: 'hidden', WebkitBoxOrient: 'vertical', WebkitLineClamp: 2 }}>
@@ -163,13 +165,24 @@ const IssueCard: React.FC<IssueCardProps> = ({
       <CardActions sx={{ justifyContent: 'space-between', p: 1 }}>
         <Button 
           size="small" 
-          startIcon={<CommentIcon />}
           onClick={() => navigate(`/issues/${issue.id}`)}
           sx={{ color: '#4CAF50' }}
         >
           Details
         </Button>
         
+        <VoteButton issue={issue} />
+        
+        <Box
+          sx={{ display: 'flex', alignItems: 'center', color: '#aaa', ml: 'auto', mr: 1 }}
+          aria-label={`${issue.commentCount ?? 0} comments`}
+        >
+          <CommentIcon fontSize="small" sx={{ mr: 0.5 }} />
+          <Typography variant="body2" sx={{ fontSize: '0.75rem' }}>
+            {issue.commentCount ?? 0}
+          </Typography>
+        </Box>
+        
         {onFlag && (
           <IconButton 
             size="small" 
@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  Avatar,
+  Chip,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import {
+  Reply as ReplyIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Send as SendIcon
+} from '@mui/icons-material';
+import { Link as RouterLink, useLocation } from 'react-router-dom';
+import { Comment } from '../../types';
+import commentService from '../../services/commentService';
+import { useAuth, useNotification, usePermission } from '../../hooks';
+
+interface IssueCommentsProps {
+  issueId: string;
+  /** Comment count known from the issue, shown until the thread is loaded */
+  initialCount?: number;
+}
+
+const PAGE_SIZE = 10;
+const MAX_INDENT_DEPTH = 4;
+
+const formatDate = (date: Date | string): string => {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const IssueComments: React.FC<IssueCommentsProps> = ({ issueId, initialCount = 0 }) => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const { showError } = useNotification();
+  const { can } = usePermission();
+
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [pagesLoaded, setPagesLoaded] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [commentCount, setCommentCount] = useState(initialCount);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newComment, setNewComment] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Reload every page loaded so far in one request so the thread stays in place after a change
+  const reload = useCallback(async (pages: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await commentService.getComments(issueId, { page: 1, limit: PAGE_SIZE * pages });
+      const pageCount = Math.ceil(result.pagination.total / PAGE_SIZE) || 1;
+      setComments(result.comments);
+      setPagesLoaded(pages);
+      setTotalPages(pageCount);
+      // Only a fully loaded thread gives an exact count; otherwise keep the issue's count
+      if (pages >= pageCount) {
+        setCommentCount(result.comments.filter(c => !c.deleted).length);
+      }
+    } catch (err: any) {
+      console.error('Failed to load comments:', err);
+      setError(err?.message || 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [issueId]);
+
+  useEffect(() => {
+    reload(1);
+  }, [reload]);
+
+  const handleLoadMore = async () => {
+    setLoading(true);
+    try {
+      const result = await commentService.getComments(issueId, { page: pagesLoaded + 1, limit: PAGE_SIZE });
+      setComments(prev => [...prev, ...result.comments.filter(c => !prev.some(p => p.id === c.id))]);
+      setPagesLoaded(pagesLoaded + 1);
+      setTotalPages(result.pagination.totalPages);
+    } catch (err: any) {
+      console.error('Failed to load more comments:', err);
+      showError(err?.message || 'Failed to load more comments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Group replies under their parent, keeping the server's chronological order
+  const childrenByParent = useMemo(() => {
+    const groups: Record<string, Comment[]> = {};
+    comments.forEach(comment => {
+      const key = comment.parentId || 'root';
+      (groups[key] = groups[key] || []).push(comment);
+    });
+    return groups;
+  }, [comments]);
+
+  const runMutation = async (action: () => Promise<unknown>, countChange: number, failureMessage: string): Promise<boolean> => {
+    setSaving(true);
+    try {
+      await action();
+      setCommentCount(count => Math.max(0, count + countChange));
+      await reload(Math.max(1, pagesLoaded));
+      return true;
+    } catch (err: any) {
+      console.error(failureMessage, err);
+      showError(err?.message || failureMessage);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!newComment.trim()) return;
+    if (await runMutation(() => commentService.createComment(issueId, newComment.trim()), 1, 'Failed to post comment')) {
+      setNewComment('');
+    }
+  };
+
+  const handleReply = async (parentId: string) => {
+    if (!replyText.trim()) return;
+    if (await runMutation(() => commentService.createComment(issueId, replyText.trim(), parentId), 1, 'Failed to post reply')) {
+      setReplyTo(null);
+      setReplyText('');
+    }
+  };
+
+  const handleEdit = async (id: string) => {
+    if (!editText.trim()) return;
+    if (await runMutation(() => commentService.updateComment(id, editText.trim()), 0, 'Failed to update comment')) {
+      setEditingId(null);
+      setEditText('');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this comment?')) return;
+    await runMutation(() => commentService.deleteComment(id), -1, 'Failed to delete comment');
+  };
+
+  const renderComment = (comment: Comment, depth: number): React.ReactNode => {
+    const replies = childrenByParent[comment.id] || [];
+    const isAuthor = !!user && comment.authorId === user.id;
+
+    return (
+      <Box key={comment.id} sx={{ ml: depth > 0 ? Math.min(depth, MAX_INDENT_DEPTH) * 3 : 0, mt: 2 }}>
+        <Paper
+          variant="outlined"
+          sx={{
+            p: 2,
+            backgroundColor: comment.authorIsAdmin ? 'rgba(76, 175, 80, 0.08)' : 'transparent',
+            borderColor: comment.authorIsAdmin ? '#4CAF50' : '#444',
+            borderLeftWidth: comment.authorIsAdmin ? 4 : 1
+          }}
+        >
+          {comment.deleted ? (
+            <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+              This comment was deleted
+            </Typography>
+          ) : (
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                <Avatar sx={{ width: 28, height: 28, mr: 1, fontSize: '0.875rem', bgcolor: comment.authorIsAdmin ? '#4CAF50' : '#666' }}>
+                  {(comment.authorName?.[0] ?? '?').toUpperCase()}
+                </Avatar>
+                <Typography variant="subtitle2" sx={{ mr: 1 }}>
+                  {comment.authorName}
+                </Typography>
+                {comment.authorIsAdmin && (
+                  <Chip label="Admin" size="small" sx={{ backgroundColor: '#4CAF50', color: '#fff', height: 20, mr: 1 }} />
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  {formatDate(comment.createdAt)}
+                  {comment.editedAt && ' (edited)'}
+                </Typography>
+              </Box>
+
+              {editingId === comment.id ? (
+                <Box>
+                  <TextField
+                    fullWidth
+                    multiline
+                    minRows={2}
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    autoFocus
+                  />
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+                    <Button size="small" onClick={() => setEditingId(null)} disabled={saving}>
+                      Cancel
+                    </Button>
+                    <Button size="small" variant="contained" onClick={() => handleEdit(comment.id)} disabled={saving || !editText.trim()}>
+                      Save
+                    </Button>
+                  </Box>
+                </Box>
+              ) : (
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                  {comment.body}
+                </Typography>
+              )}
+
+              {user && editingId !== comment.id && (
+                <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                  <Button
+                    size="small"
+                    startIcon={<ReplyIcon fontSize="small" />}
+                    onClick={() => {
+                      setReplyTo(comment.id);
+                      setReplyText('');
+                    }}
+                  >
+                    Reply
+                  </Button>
+                  {isAuthor && (
+                    <Button
+                      size="small"
+                      startIcon={<EditIcon fontSize="small" />}
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditText(comment.body);
+                      }}
+                    >
+                      Edit
+                    </Button>
+                  )}
+                  {can('comment:delete', comment) && (
+                    <Button
+                      size="small"
+                      color="error"
+                      startIcon={<DeleteIcon fontSize="small" />}
+                      onClick={() => handleDelete(comment.id)}
+                      disabled={saving}
+                    >
+                      Delete
+                    </Button>
+                  )}
+                </Box>
+              )}
+            </>
+          )}
+        </Paper>
+
+        {replyTo === comment.id && (
+          <Box sx={{ ml: 3, mt: 1 }}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              placeholder={`Reply to ${comment.authorName}`}
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              autoFocus
+            />
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+              <Button size="small" onClick={() => setReplyTo(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button size="small" variant="contained" onClick={() => handleReply(comment.id)} disabled={saving || !replyText.trim()}>
+                Reply
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        {replies.map(reply => renderComment(reply, depth + 1))}
+      </Box>
+    );
+  };
+
+  const topLevel = childrenByParent.root || [];
+
+  return (
+    <Box sx={{ mt: 4 }}>
+      <Typography variant="h6" gutterBottom>
+        Discussion ({commentCount})
+      </Typography>
+
+      {user ? (
+        <Box sx={{ mb: 2 }}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            placeholder="Share an update or ask a question about this issue"
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+          />
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+            <Button
+              variant="contained"
+              startIcon={saving ? <CircularProgress size={16} /> : <SendIcon />}
+              onClick={handlePost}
+              disabled={saving || !newComment.trim()}
+              sx={{
+                backgroundColor: '#4CAF50',
+                '&:hover': {
+                  backgroundColor: '#388E3C',
+                },
+              }}
+            >
+              Post Comment
+            </Button>
+          </Box>
+        </Box>
+      ) : (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          <RouterLink to="/login" state={{ from: location }} style={{ color: '#4CAF50' }}>Log in</RouterLink> to join the discussion.
+        </Typography>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && comments.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : topLevel.length === 0 && !error ? (
+        <Typography variant="body2" color="text.secondary">
+          No comments yet. Be the first to comment.
+        </Typography>
+      ) : (
+        topLevel.map(comment => renderComment(comment, 0))
+      )}
+
+      {pagesLoaded > 0 && pagesLoaded < totalPages && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+          <Button onClick={handleLoadMore} disabled={loading}>
+            {loading ? <CircularProgress size={20} /> : 'Show more comments'}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default IssueComments;
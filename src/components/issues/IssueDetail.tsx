@@ -29,11 +29,18 @@ import {
   Close as CloseIcon,
   ArrowBack as ArrowBackIcon,
   NavigateBefore as PrevIcon,
-  NavigateNext as NextIcon
+  NavigateNext as NextIcon,
+  AssignmentInd as AssignIcon,
+  MergeType as MergeIcon
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { Issue, IssueStatus, StatusLog } from '../../types';
 import IssueMap from '../map/IssueMap';
+import IssueComments from './IssueComments';
+import VoteButton from './VoteButton';
+import Can from '../common/Can';
+import usePermission from '../../hooks/usePermission';
+import { getCommentRequirement, getNextStatuses } from '../../utils/statusTransitions';
 import issueService from '../../services/issueService';
 
 interface IssueDetailProps {
@@ -43,7 +50,6 @@ interface IssueDetailProps {
   onStatusUpdate?: (id: string, status: IssueStatus, comment: string) => Promise<void>;
   onFlagIssue?: (id: string, reason: string) => Promise<void>;
   onRequestStatusChange?: (id: string, requestedStatus: IssueStatus, reason?: string) => Promise<void>;
-  isAdmin?: boolean;
 }
 
 const IssueDetail: React.FC<IssueDetailProps> = ({ 
@@ -52,10 +58,10 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
   error, 
   onStatusUpdate, 
   onFlagIssue,
-  onRequestStatusChange,
-  isAdmin = false
+  onRequestStatusChange
 }) => {
   const navigate = useNavigate();
+  const { can } = usePermission();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   
@@ -104,6 +110,18 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
     }
   };
 
+  // Only the statuses the transition table allows from here, with the current one shown for reference
+  const nextStatuses = getNextStatuses(issue.status);
+  const statusCommentRequirement = getCommentRequirement(issue.status, newStatus);
+  const requestReasonRequirement = getCommentRequirement(issue.status, requestedStatus);
+
+  const statusOptions = [issue.status, ...nextStatuses].map((status) => (
+    <MenuItem key={status} value={status} disabled={status === issue.status}>
+      {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
+      {status === issue.status ? ' (current)' : ''}
+    </MenuItem>
+  ));
+
   const handleStatusDialogOpen = () => {
     setNewStatus(issue.status);
     setStatusComment('');
@@ -248,6 +266,7 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
                   variant="outlined"
                   sx={{ borderColor: '#666', color: '#fff' }}
                 />
+                <VoteButton issue={issue} size="medium" />
               </Box>
               
               <Box sx={{ display: 'flex', alignItems: 'center', color: '#aaa', mb: 1 }}>
@@ -257,18 +276,28 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
                 </Typography>
               </Box>
               
-              <Box sx={{ display: 'flex', alignItems: 'center', color: '#aaa', mb: 3 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', color: '#aaa', mb: issue.assignedTo ? 1 : 3 }}>
                 <LocationIcon fontSize="small" sx={{ mr: 0.5 }} />
                 <Typography variant="body2">
                   {issue.location.address || `${issue.location.latitude.toFixed(6)}, ${issue.location.longitude.toFixed(6)}`}
                 </Typography>
               </Box>
               
+              {issue.assignedTo && (
+                <Box sx={{ display: 'flex', alignItems: 'center', color: '#aaa', mb: 3 }}>
+                  <AssignIcon fontSize="small" sx={{ mr: 0.5 }} />
+                  <Typography variant="body2">
+                    Assigned to {issue.assignedTo.departmentName}
+                    {issue.assignedTo.staffName ? ` · ${issue.assignedTo.staffName}` : ''}
+                  </Typography>
+                </Box>
+              )}
+              
               <Typography variant="body1" paragraph>
                 {issue.description}
               </Typography>
               
-              {isAdmin && (
+              <Can action="issue:updateStatus" resource={issue}>
                 <Button
                   variant="contained"
                   onClick={handleStatusDialogOpen}
@@ -283,29 +312,33 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
                 >
                   Update Status
                 </Button>
-              )}
+              </Can>
               
-              {!isAdmin && (
+              {(can('issue:requestStatusChange', issue) || can('issue:flag', issue)) && (
                 <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
-                  <Button
-                    variant="contained"
-                    onClick={handleRequestDialogOpen}
-                    startIcon={<EditIcon />}
-                    sx={{
-                      backgroundColor: '#1976d2',
-                      '&:hover': { backgroundColor: '#115293' }
-                    }}
-                  >
-                    Request Status Change
-                  </Button>
-                  <Button
-                    variant="outlined"
-                    onClick={handleFlagDialogOpen}
-                    startIcon={<FlagIcon />}
-                    color="error"
-                  >
-                    Flag Issue
-                  </Button>
+                  {can('issue:requestStatusChange', issue) && (
+                    <Button
+                      variant="contained"
+                      onClick={handleRequestDialogOpen}
+                      startIcon={<EditIcon />}
+                      sx={{
+                        backgroundColor: '#1976d2',
+                        '&:hover': { backgroundColor: '#115293' }
+                      }}
+                    >
+                      Request Status Change
+                    </Button>
+                  )}
+                  {can('issue:flag', issue) && (
+                    <Button
+                      variant="outlined"
+                      onClick={handleFlagDialogOpen}
+                      startIcon={<FlagIcon />}
+                      color="error"
+                    >
+                      Flag Issue
+                    </Button>
+                  )}
                 </Box>
               )}
             </Box>
@@ -357,12 +390,42 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
                       <Box key={log.id}>
                         <Box sx={{ p: 2 }}>
                           <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
-                            <Avatar sx={{ width: 32, height: 32, bgcolor: getStatusColor(statusToDisplay as IssueStatus), mr: 1 }}>
-                              {statusToDisplay && typeof statusToDisplay === 'string' ? statusToDisplay.charAt(0).toUpperCase() : '?'}
-                            </Avatar>
+                            {log.kind === 'merge' ? (
+                              <Avatar sx={{ width: 32, height: 32, bgcolor: '#607d8b', mr: 1 }}>
+                                <MergeIcon fontSize="small" />
+                              </Avatar>
+                            ) : log.assignedTo ? (
+                              <Avatar sx={{ width: 32, height: 32, bgcolor: '#607d8b', mr: 1 }}>
+                                <AssignIcon fontSize="small" />
+                              </Avatar>
+                            ) : (
+                              <Avatar
+                                sx={{
+                                  width: 32,
+                                  height: 32,
+                                  bgcolor: getStatusColor(statusToDisplay as IssueStatus),
+                                  mr: 1,
+                                  // Entries from merged duplicates are history of another issue
+                                  opacity: log.mergedFrom ? 0.5 : 1
+                                }}
+                              >
+                                {statusToDisplay && typeof statusToDisplay === 'string' ? statusToDisplay.charAt(0).toUpperCase() : '?'}
+                              </Avatar>
+                            )}
                             <Box>
-                              <Typography variant="subtitle2">
-                                Status changed to <strong>{statusToDisplay}</strong>
+                              {log.mergedFrom && (
+                                <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                                  From merged duplicate "{log.mergedFrom.title}"
+                                </Typography>
+                              )}
+                              <Typography variant="subtitle2" color={log.mergedFrom ? 'text.secondary' : undefined}>
+                                {log.kind === 'merge' ? (
+                                  <>Duplicates merged</>
+                                ) : log.assignedTo ? (
+                                  <>Assigned to <strong>{log.assignedTo.staffName || log.assignedTo.departmentName}</strong></>
+                                ) : (
+                                  <>Status changed to <strong>{statusToDisplay}</strong></>
+                                )}
                               </Typography>
                               <Typography variant="caption" color="text.secondary">
                                 {formatDate(changedAt)} by {changedBy}
@@ -383,6 +446,8 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
                 </Paper>
               </Box>
             )}
+            
+            <IssueComments issueId={issue.id} initialCount={issue.commentCount} />
           </Grid>
           
           <Grid item xs={12} md={4}>
@@ -421,22 +486,19 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
             margin="normal"
             sx={{ mb: 3 }}
           >
-            {Object.values(IssueStatus).map((status) => (
-              <MenuItem key={status} value={status}>
-                {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
-              </MenuItem>
-            ))}
+            {statusOptions}
           </TextField>
           
           <TextField
             fullWidth
-            label="Comment (Optional)"
+            label={statusCommentRequirement ? 'Comment (Required)' : 'Comment (Optional)'}
             value={statusComment}
             onChange={(e) => setStatusComment(e.target.value)}
             margin="normal"
             multiline
             rows={4}
-            placeholder="Add a comment explaining the status change"
+            required={!!statusCommentRequirement}
+            placeholder={statusCommentRequirement || 'Add a comment explaining the status change'}
           />
         </DialogContent>
         <DialogActions>
@@ -444,7 +506,7 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
           <Button 
             onClick={handleStatusUpdate} 
             variant="contained" 
-            disabled={updating || newStatus === issue.status}
+            disabled={updating || newStatus === issue.status || (!!statusCommentRequirement && !statusComment.trim())}
             sx={{ 
               backgroundColor: '#4CAF50',
               '&:hover': {
@@ -479,22 +541,19 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
             margin="normal"
             sx={{ mb: 3 }}
           >
-            {Object.values(IssueStatus).map((status) => (
-              <MenuItem key={status} value={status}>
-                {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
-              </MenuItem>
-            ))}
+            {statusOptions}
           </TextField>
 
           <TextField
             fullWidth
-            label="Reason (Optional)"
+            label={requestReasonRequirement ? 'Reason (Required)' : 'Reason (Optional)'}
             value={requestReason}
             onChange={(e) => setRequestReason(e.target.value)}
             margin="normal"
             multiline
             rows={4}
-            placeholder="Explain why this status should be changed"
+            required={!!requestReasonRequirement}
+            placeholder={requestReasonRequirement || 'Explain why this status should be changed'}
           />
         </DialogContent>
         <DialogActions>
@@ -502,7 +561,7 @@ const IssueDetail: React.FC<IssueDetailProps> = ({
           <Button 
             onClick={handleSubmitStatusRequest} 
             variant="contained" 
-            disabled={requesting || requestedStatus === issue.status}
+            disabled={requesting || requestedStatus === issue.status || (!!requestReasonRequirement && !requestReason.trim())}
             sx={{ 
               backgroundColor: '#1976d2',
               '&:hover': { backgroundColor: '#115293' }
@@ -23,15 +23,25 @@ import {
   NavigateBefore as BackIcon
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
-import { IssueCategory, Location } from '../../types';
+import { Issue, IssueCategory, Location } from '../../types';
 import LocationPicker from '../map/LocationPicker';
+import DuplicateSuggestions from './DuplicateSuggestions';
 import issueService, { IssueFormData } from '../../services/issueService';
+import outboxService from '../../services/outboxService';
 import useApiForm from '../../hooks/useApiForm';
+import useAuth from '../../hooks/useAuth';
+import { isOnline } from '../../utils/networkUtils';
+import { v4 as uuidv4 } from 'uuid';
 
 const IssueForm: React.FC = () => {
   const navigate = useNavigate();
   const [activeStep, setActiveStep] = useState(0);
   const [success, setSuccess] = useState(false);
+  const [queued, setQueued] = useState(false);
+  const [joinedIssue, setJoinedIssue] = useState<Issue | null>(null);
+  const [joiningId, setJoiningId] = useState<string | null>(null);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const { user } = useAuth();
   const [photoFiles, setPhotoFiles] = useState<File[]>([]);
   const [photoPreviewUrls, setPhotoPreviewUrls] = useState<string[]>([]);
   
@@ -39,7 +49,27 @@ const IssueForm: React.FC = () => {
   const form = useApiForm<IssueFormData, void>(
     // Submit function
     async (data) => {
-      await issueService.createIssue(data);
+      const canQueue = !!user && outboxService.isSupported();
+      // The request may reach the server even when it fails here; replaying with the same key can't file it twice
+      const idempotencyKey = uuidv4();
+
+      // Save straight to the outbox when offline instead of waiting out the retries
+      if (canQueue && !isOnline()) {
+        await outboxService.enqueue(user.id, data, idempotencyKey);
+        setQueued(true);
+        return;
+      }
+
+      try {
+        await issueService.createIssue(data, { idempotencyKey });
+      } catch (err) {
+        if (canQueue && outboxService.shouldQueue(err)) {
+          await outboxService.enqueue(user.id, data, idempotencyKey);
+          setQueued(true);
+          return;
+        }
+        throw err;
+      }
     },
     {
       // Initial form data
@@ -153,6 +183,32 @@ const IssueForm: React.FC = () => {
     setActiveStep(prevStep => prevStep - 1);
   };
 
+  // Fold this report into an existing issue: vote for it and attach any photos instead of creating a duplicate
+  const handleJoinExisting = async (issue: Issue) => {
+    setJoiningId(issue.id);
+    setJoinError(null);
+    try {
+      if (!issue.hasVoted && issue.reportedBy !== user?.id) {
+        await issueService.voteIssue(issue.id);
+      }
+      if (photoFiles.length > 0) {
+        await issueService.addPhotos(issue.id, photoFiles);
+      }
+
+      photoPreviewUrls.forEach(url => URL.revokeObjectURL(url));
+      setJoinedIssue(issue);
+      setSuccess(true);
+      setTimeout(() => {
+        navigate(`/issues/${issue.id}`);
+      }, 2000);
+    } catch (err: any) {
+      console.error('Failed to add to existing issue:', err);
+      setJoinError(err?.message || 'Failed to add your report to the existing issue. Please try again.');
+    } finally {
+      setJoiningId(null);
+    }
+  };
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -344,6 +400,19 @@ const IssueForm: React.FC = () => {
               Review Your Report
             </Typography>
             
+            {joinError && (
+              <Alert severity="error" sx={{ mb: 3 }}>
+                {joinError}
+              </Alert>
+            )}
+            
+            <DuplicateSuggestions
+              draft={formData}
+              hasPhotos={photoFiles.length > 0}
+              joiningId={joiningId}
+              onJoin={handleJoinExisting}
+            />
+            
             <Paper elevation={0} sx={{ p: 3, mb: 3, backgroundColor: '#1e1e1e' }}>
               <Grid container spacing={2}>
                 <Grid item xs={12} sm={6}>
@@ -418,13 +487,17 @@ const IssueForm: React.FC = () => {
     return (
       <Paper elevation={3} sx={{ p: 4, textAlign: 'center', backgroundColor: '#1e1e1e' }}>
         <Typography variant="h5" gutterBottom color="primary">
-          Issue Reported Successfully!
+          {joinedIssue ? 'Added to Existing Report' : queued ? 'Issue Saved Offline' : 'Issue Reported Successfully!'}
         </Typography>
         <Typography variant="body1" paragraph>
-          Thank you for reporting this issue. Your report has been submitted and will be reviewed by the authorities.
+          {joinedIssue
+            ? `Thanks! Your vote${photoFiles.length > 0 ? ' and photos have' : ' has'} been added to "${joinedIssue.title}" so it gets the attention it needs.`
+            : queued
+            ? 'You appear to be offline. Your report has been saved on this device and will be sent automatically when your connection returns. You can check its status under "Pending Sync" in your profile.'
+            : 'Thank you for reporting this issue. Your report has been submitted and will be reviewed by the authorities.'}
         </Typography>
         <Typography variant="body2" sx={{ mb: 3, color: '#aaa' }}>
-          You will be redirected to the home page shortly...
+          {joinedIssue ? 'Taking you to the issue...' : 'You will be redirected to the home page shortly...'}
         </Typography>
       </Paper>
     );
@@ -475,7 +548,7 @@ const IssueForm: React.FC = () => {
               <Button
                 variant="contained"
                 type="submit"
-                disabled={submitting}
+                disabled={submitting || !!joiningId}
                 sx={{ 
                   backgroundColor: '#4CAF50',
                   '&:hover': {
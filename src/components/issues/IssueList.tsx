@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useCallback, useRef } from 'react';
 import { 
   Grid, 
   Box, 
@@ -13,44 +13,132 @@ import {
   Alert,
   Paper,
   InputAdornment,
-  SelectChangeEvent
+  SelectChangeEvent,
+  Button,
+  useMediaQuery
 } from '@mui/material';
 import { Search as SearchIcon } from '@mui/icons-material';
+import { useNavigationType } from 'react-router-dom';
 import IssueCard from './IssueCard';
 import { Issue, IssueStatus, IssueCategory } from '../../types';
-import { usePagination, useFiltering } from '../../hooks';
+import {
+  usePagination,
+  useFiltering,
+  useServerList,
+  useInfiniteList,
+  useVirtualRows,
+  useTheme,
+  FilterValues,
+  SortConfig,
+  ServerListQuery,
+  InfiniteListQuery,
+  InfiniteListSnapshot,
+  ScrollAnchor
+} from '../../hooks';
+import issueService, { IssueFilterParams } from '../../services/issueService';
+import { compareIssues } from '../../utils/issueSort';
 
-interface IssueListProps {
-  issues: Issue[];
-  loading: boolean;
-  error: string | null;
+// "Sort by" options, keyed as `field:direction`
+const SORT_OPTIONS = [
+  { value: 'reportedAt:desc', label: 'Newest first' },
+  { value: 'reportedAt:asc', label: 'Oldest first' },
+  { value: 'voteCount:desc', label: 'Most affected' },
+  { value: 'commentCount:desc', label: 'Most discussed' }
+];
+
+const INITIAL_FILTERS: FilterValues = {
+  searchTerm: '',
+  status: '',
+  category: ''
+};
+
+const INITIAL_SORT: SortConfig = { field: 'reportedAt', direction: 'desc' };
+
+const PAGE_SIZE = 9;
+
+// Issues per batch in infinite-scroll mode; a whole number of rows at one, two or three columns
+const INFINITE_BATCH_SIZE = 18;
+
+// Height assumed for a row of cards until it has been rendered and measured
+const ESTIMATED_ROW_HEIGHT = 420;
+
+interface IssueCardOptions {
   onFlagIssue?: (issue: Issue) => void;
   selectable?: boolean;
   selectedIssues?: Issue[];
   onSelectIssue?: (issue: Issue) => void;
 }
 
-const IssueList: React.FC<IssueListProps> = ({ 
-  issues = [], 
-  loading, 
-  error, 
-  onFlagIssue,
-  selectable = false,
-  selectedIssues = [],
-  onSelectIssue
- }) => {
+interface IssueListProps extends IssueCardOptions {
+  /** Issues to filter, sort and page in the browser; ignored when `serverSide` is set */
+  issues?: Issue[];
+  loading?: boolean;
+  error?: string | null;
+  /** Fetch each page from the backend, which filters and sorts it, instead of taking `issues` */
+  serverSide?: boolean;
+  /** Filters sent with every request in server mode; the list's own search and selects take precedence */
+  baseFilters?: IssueFilterParams;
+  /** Change to reload from the backend in server mode */
+  refreshKey?: number;
+  /** In server mode, load more as the user scrolls instead of paging, mounting only the cards in view */
+  infiniteScroll?: boolean;
+  /** In infinite-scroll mode, going back to the list restores the issues loaded and the scroll position saved under this key */
+  restoreKey?: string;
+}
+
+interface IssueListViewProps extends IssueCardOptions {
+  issues: Issue[];
+  loading: boolean;
+  error: string | null;
+  filters: FilterValues;
+  sortConfig: SortConfig;
+  onFilterChange: (key: string, value: string) => void;
+  onSortChange: (sortConfig: SortConfig) => void;
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+// Infinite lists saved as they unmount, so going back to one picks up where the user left off
+const savedInfiniteLists = new Map<string, { snapshot: InfiniteListSnapshot<Issue>; anchor: ScrollAnchor }>();
+
+// Map the list's filters and sort onto the backend's query parameters
+const toIssueQuery = (
+  query: Pick<ServerListQuery, 'filters' | 'sort' | 'order'>,
+  baseFilters: IssueFilterParams = {}
+): IssueFilterParams => ({
+  ...baseFilters,
+  search: (query.filters.searchTerm as string) || baseFilters.search,
+  status: (query.filters.status as IssueStatus) || baseFilters.status,
+  category: (query.filters.category as IssueCategory) || baseFilters.category,
+  sort: query.sort,
+  order: query.order
+});
+
+// Issues filtered, sorted and paged in the browser, for lists already loaded in full
+const ClientIssueList: React.FC<IssueListProps> = ({
+  issues = [],
+  loading = false,
+  error = null,
+  serverSide,
+  baseFilters,
+  refreshKey,
+  infiniteScroll,
+  restoreKey,
+  ...cardOptions
+}) => {
   // Setup filtering with custom hook
   const { 
     filters, 
     setFilter, 
+    sortConfig,
+    setSortConfig,
     filteredData: filteredIssues 
   } = useFiltering({
     data: Array.isArray(issues) ? issues : [],
-    initialFilters: {
-      searchTerm: '',
-      status: '',
-      category: ''
-    },
+    initialFilters: INITIAL_FILTERS,
+    initialSort: INITIAL_SORT,
+    sortFn: compareIssues,
     filterFn: (issue, filters) => {
       const matchesSearch = !filters.searchTerm || 
         (typeof issue.title === 'string' && typeof filters.searchTerm === 'string' && 
@@ -77,108 +165,379 @@ const IssueList: React.FC<IssueListProps> = ({
     } 
   } = usePagination({
     initialPage: 0,
-    initialPageSize: 9,
+    initialPageSize: PAGE_SIZE,
     totalItems: filteredIssues.length
   });
 
-  // Get current page of issues
-  const currentIssues = filteredIssues.slice(firstItemIndex, lastItemIndex);
+  return (
+    <IssueListView
+      {...cardOptions}
+      issues={filteredIssues.slice(firstItemIndex, lastItemIndex)}
+      loading={loading}
+      error={error}
+      filters={filters}
+      sortConfig={sortConfig}
+      onFilterChange={(key, value) => {
+        setFilter(key, value);
+        setPage(0); // Reset to first page when filters change
+      }}
+      onSortChange={(config) => {
+        setSortConfig(config);
+        setPage(0);
+      }}
+      page={page}
+      totalPages={totalPages}
+      onPageChange={setPage}
+    />
+  );
+};
+
+// Issues paged, filtered and sorted by the backend, one page loaded at a time
+const ServerIssueList: React.FC<IssueListProps> = ({ baseFilters, refreshKey, onFlagIssue, selectable, selectedIssues, onSelectIssue }) => {
+  const fetchPage = useCallback(
+    async (query: ServerListQuery, signal: AbortSignal) => {
+      const result = await issueService.searchIssues(
+        { ...toIssueQuery(query, baseFilters), page: query.page, limit: query.limit },
+        { signal }
+      );
+      return { items: result.issues, pagination: result.pagination };
+    },
+    [baseFilters]
+  );
+
+  const {
+    items,
+    loading,
+    error,
+    filters,
+    setFilter,
+    sortConfig,
+    setSortConfig,
+    page,
+    totalPages,
+    setPage
+  } = useServerList(fetchPage, {
+    initialFilters: INITIAL_FILTERS,
+    initialSort: INITIAL_SORT,
+    initialPageSize: PAGE_SIZE,
+    textFilters: ['searchTerm'],
+    deps: [baseFilters, refreshKey]
+  });
+
+  return (
+    <IssueListView
+      onFlagIssue={onFlagIssue}
+      selectable={selectable}
+      selectedIssues={selectedIssues}
+      onSelectIssue={onSelectIssue}
+      issues={items}
+      loading={loading}
+      error={error?.message || null}
+      filters={filters}
+      sortConfig={sortConfig}
+      onFilterChange={setFilter}
+      onSortChange={setSortConfig}
+      page={page}
+      totalPages={totalPages}
+      onPageChange={setPage}
+    />
+  );
+};
+
+// Issues loaded by cursor as the user scrolls, with only the rows near the viewport mounted
+const InfiniteIssueList: React.FC<IssueListProps> = ({
+  baseFilters,
+  refreshKey,
+  restoreKey,
+  onFlagIssue,
+  selectable = false,
+  selectedIssues = [],
+  onSelectIssue
+}) => {
+  const { theme } = useTheme();
+  const isMedium = useMediaQuery(theme.breakpoints.up('md'));
+  const isSmall = useMediaQuery(theme.breakpoints.up('sm'));
+  const columns = isMedium ? 3 : isSmall ? 2 : 1;
+
+  // Going back returns to where the user was; arriving any other way starts afresh
+  const navigationType = useNavigationType();
+  const [saved] = useState(() =>
+    restoreKey && navigationType === 'POP' ? savedInfiniteLists.get(restoreKey) : undefined
+  );
+
+  const fetchPage = useCallback(
+    async (query: InfiniteListQuery, signal: AbortSignal) => {
+      const result = await issueService.searchIssues(
+        { ...toIssueQuery(query, baseFilters), cursor: query.cursor ?? undefined, limit: query.limit },
+        { signal }
+      );
+      return { items: result.issues, nextCursor: result.nextCursor ?? null, total: result.pagination?.total };
+    },
+    [baseFilters]
+  );
+
+  const {
+    items,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    restored,
+    getSnapshot,
+    filters,
+    setFilter,
+    sortConfig,
+    setSortConfig
+  } = useInfiniteList(fetchPage, {
+    initialFilters: INITIAL_FILTERS,
+    initialSort: INITIAL_SORT,
+    pageSize: INFINITE_BATCH_SIZE,
+    textFilters: ['searchTerm'],
+    deps: [baseFilters, refreshKey],
+    initialSnapshot: saved?.snapshot
+  });
+
+  // Cards are laid out in rows, and it's rows that are windowed
+  const rows = useMemo(() => {
+    const result: Issue[][] = [];
+    for (let i = 0; i < items.length; i += columns) {
+      result.push(items.slice(i, i + columns));
+    }
+    return result;
+  }, [items, columns]);
+
+  const {
+    containerRef,
+    range,
+    paddingTop,
+    paddingBottom,
+    measureElement,
+    getAnchor,
+    scrollToAnchor
+  } = useVirtualRows({ count: rows.length, estimateRowHeight: ESTIMATED_ROW_HEIGHT });
+
+  // Fetch the next batch as the last rows come into view
+  useEffect(() => {
+    if (hasMore && !loadingMore && !error && range.end >= rows.length) {
+      loadMore();
+    }
+  }, [hasMore, loadingMore, error, range.end, rows.length, loadMore]);
+
+  // Back at a restored list: put the viewport where it was once the rows are laid out, the first time only
+  const pendingAnchorRef = useRef(saved && restored ? saved.anchor : null);
+  useLayoutEffect(() => {
+    if (pendingAnchorRef.current) {
+      scrollToAnchor(pendingAnchorRef.current);
+      pendingAnchorRef.current = null;
+    }
+  }, [scrollToAnchor]);
+
+  // Save the list as it unmounts, e.g. on opening one of its issues
+  useLayoutEffect(() => () => {
+    if (restoreKey) {
+      savedInfiniteLists.set(restoreKey, { snapshot: getSnapshot(), anchor: getAnchor() });
+    }
+  }, [restoreKey, getSnapshot, getAnchor]);
+
+  const isIssueSelected = (issue: Issue): boolean => {
+    return selectedIssues.some(selected => selected.id === issue.id);
+  };
+
+  return (
+    <Box>
+      <IssueListFilters
+        filters={filters}
+        sortConfig={sortConfig}
+        onFilterChange={setFilter}
+        onSortChange={setSortConfig}
+      />
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', my: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : error && items.length === 0 ? (
+        <Alert severity="error" sx={{ my: 2 }}>{error.message}</Alert>
+      ) : items.length === 0 ? (
+        <Box sx={{ textAlign: 'center', my: 4 }}>
+          <Typography variant="h6" color="text.secondary">
+            No issues found
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Try adjusting your search or filters
+          </Typography>
+        </Box>
+      ) : (
+        <>
+          <Box ref={containerRef} style={{ paddingTop, paddingBottom }}>
+            {rows.slice(range.start, range.end).map((row, i) => (
+              <Box
+                key={row[0].id}
+                ref={measureElement}
+                data-index={range.start + i}
+                sx={{ display: 'grid', gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gap: 3, pb: 3 }}
+              >
+                {row.map((issue) => (
+                  <IssueCard
+                    key={issue.id}
+                    issue={issue}
+                    onFlag={onFlagIssue}
+                    selectable={selectable}
+                    selected={isIssueSelected(issue)}
+                    onSelect={onSelectIssue}
+                  />
+                ))}
+              </Box>
+            ))}
+          </Box>
+
+          {loadingMore && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
+              <CircularProgress size={32} />
+            </Box>
+          )}
+          {error && (
+            <Alert
+              severity="error"
+              sx={{ my: 2 }}
+              action={<Button color="inherit" size="small" onClick={loadMore}>Retry</Button>}
+            >
+              {error.message}
+            </Alert>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+interface IssueListFiltersProps {
+  filters: FilterValues;
+  sortConfig: SortConfig;
+  onFilterChange: (key: string, value: string) => void;
+  onSortChange: (sortConfig: SortConfig) => void;
+}
 
+// Search, status, category and sort controls shared by every mode
+const IssueListFilters: React.FC<IssueListFiltersProps> = ({ filters, sortConfig, onFilterChange, onSortChange }) => {
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setFilter('searchTerm', e.target.value);
-    setPage(0); // Reset to first page when search changes
+    onFilterChange('searchTerm', e.target.value);
   };
 
   const handleStatusFilterChange = (e: SelectChangeEvent<string>) => {
-    setFilter('status', e.target.value);
-    setPage(0);
+    onFilterChange('status', e.target.value);
   };
 
   const handleCategoryFilterChange = (e: SelectChangeEvent<string>) => {
-    setFilter('category', e.target.value);
-    setPage(0);
-  };
-
-  const handlePageChange = (event: React.ChangeEvent<unknown>, value: number) => {
-    // MUI Pagination is 1-based; convert to 0-based for hook
-    setPage(value - 1);
+    onFilterChange('category', e.target.value);
   };
 
-  const isIssueSelected = (issue: Issue): boolean => {
-    return selectedIssues.some(selected => selected.id === issue.id);
+  const handleSortChange = (e: SelectChangeEvent<string>) => {
+    const [field, direction] = e.target.value.split(':');
+    onSortChange({ field, direction: direction as 'asc' | 'desc' });
   };
 
   return (
-    <Box>
-      <Paper elevation={0} sx={{ p: 3, mb: 4, backgroundColor: '#1e1e1e' }}>
-        <Grid container spacing={2} alignItems="center">
-          <Grid item xs={12} md={6}>
-            <TextField
-              fullWidth
-              placeholder="Search issues..."
-              value={filters.searchTerm || ''}
-              onChange={handleSearchChange}
-              InputProps={{
-                startAdornment: (
-                  <InputAdornment position="start">
-                    <SearchIcon sx={{ color: '#aaa' }} />
-                  </InputAdornment>
-                ),
-              }}
+    <Paper elevation={0} sx={{ p: 3, mb: 4, backgroundColor: '#1e1e1e' }}>
+      <Grid container spacing={2} alignItems="center">
+        <Grid item xs={12} md={6}>
+          <TextField
+            fullWidth
+            placeholder="Search issues..."
+            value={filters.searchTerm || ''}
+            onChange={handleSearchChange}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon sx={{ color: '#aaa' }} />
+                </InputAdornment>
+              ),
+            }}
+            sx={{ 
+              '& .MuiOutlinedInput-root': {
+                '& fieldset': {
+                  borderColor: '#444',
+                },
+                '&:hover fieldset': {
+                  borderColor: '#666',
+                },
+              },
+              '& .MuiInputBase-input': {
+                color: '#fff',
+              },
+            }}
+          />
+        </Grid>
+        
+        <Grid item xs={12} sm={4} md={2}>
+          <FormControl fullWidth>
+            <InputLabel id="status-filter-label" sx={{ color: '#aaa' }}>Status</InputLabel>
+            <Select
+              labelId="status-filter-label"
+              value={filters.status?.toString() || ''}
+              label="Status"
+              onChange={handleStatusFilterChange}
               sx={{ 
-                '& .MuiOutlinedInput-root': {
-                  '& fieldset': {
-                    borderColor: '#444',
-                  },
-                  '&:hover fieldset': {
-                    borderColor: '#666',
-                  },
+                '& .MuiOutlinedInput-notchedOutline': {
+                  borderColor: '#444',
+                },
+                '&:hover .MuiOutlinedInput-notchedOutline': {
+                  borderColor: '#666',
                 },
                 '& .MuiInputBase-input': {
                   color: '#fff',
                 },
               }}
-            />
-          </Grid>
-          
-          <Grid item xs={12} sm={6} md={3}>
-            <FormControl fullWidth>
-              <InputLabel id="status-filter-label" sx={{ color: '#aaa' }}>Status</InputLabel>
-              <Select
-                labelId="status-filter-label"
-                value={filters.status?.toString() || ''}
-                label="Status"
-                onChange={handleStatusFilterChange}
-                sx={{ 
-                  '& .MuiOutlinedInput-notchedOutline': {
-                    borderColor: '#444',
-                  },
-                  '&:hover .MuiOutlinedInput-notchedOutline': {
-                    borderColor: '#666',
-                  },
-                  '& .MuiInputBase-input': {
-                    color: '#fff',
-                  },
-                }}
-              >
-                <MenuItem value="">All Statuses</MenuItem>
-                {Object.values(IssueStatus).map((status) => (
-                  <MenuItem key={status} value={status}>
-                    {status && typeof status === 'string' ? status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ') : 'Unknown'}
-                  </MenuItem>
-                ))}
-              </Select>
-            </FormControl>
-          </Grid>
-          
-          <Grid item xs={12} sm={6} md={3}>
-            <FormControl fullWidth>
-              <InputLabel id="category-filter-label" sx={{ color: '#aaa' }}>Category</InputLabel>
-              <Select
-              labelId="category-filter-label" 
-              value={typeof filters.category === 'string' ? filters.category : ''} 
-              label="Category" 
-              onChange={handleCategoryFilterChange} 
+            >
+              <MenuItem value="">All Statuses</MenuItem>
+              {Object.values(IssueStatus).map((status) => (
+                <MenuItem key={status} value={status}>
+                  {status && typeof status === 'string' ? status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ') : 'Unknown'}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        
+        <Grid item xs={12} sm={4} md={2}>
+          <FormControl fullWidth>
+            <InputLabel id="category-filter-label" sx={{ color: '#aaa' }}>Category</InputLabel>
+            <Select
+            labelId="category-filter-label" 
+            value={typeof filters.category === 'string' ? filters.category : ''} 
+            label="Category" 
+            onChange={handleCategoryFilterChange} 
+            sx={{ 
+              '& .MuiOutlinedInput-notchedOutline': {
+                borderColor: '#444',
+              },
+              '&:hover .MuiOutlinedInput-notchedOutline': {
+                borderColor: '#666',
+              },
+              '& .MuiInputBase-input': {
+                color: '#fff',
+              },
+            }}
+          >
+              <MenuItem value="">All Categories</MenuItem>
+              {Object.values(IssueCategory).map((category) => (
+                <MenuItem key={category} value={category}>
+                  {category && typeof category === 'string' ? category.charAt(0).toUpperCase() + category.slice(1).replace('_', ' ') : 'Unknown'}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        
+        <Grid item xs={12} sm={4} md={2}>
+          <FormControl fullWidth>
+            <InputLabel id="sort-label" sx={{ color: '#aaa' }}>Sort by</InputLabel>
+            <Select
+              labelId="sort-label"
+              value={`${sortConfig.field}:${sortConfig.direction || 'desc'}`}
+              label="Sort by"
+              onChange={handleSortChange}
               sx={{ 
                 '& .MuiOutlinedInput-notchedOutline': {
                   borderColor: '#444',
@@ -191,17 +550,53 @@ const IssueList: React.FC<IssueListProps> = ({
                 },
               }}
             >
-                <MenuItem value="">All Categories</MenuItem>
-                {Object.values(IssueCategory).map((category) => (
-                  <MenuItem key={category} value={category}>
-                    {category && typeof category === 'string' ? category.charAt(0).toUpperCase() + category.slice(1).replace('_', ' ') : 'Unknown'}
-                  </MenuItem>
-                ))}
-              </Select>
-            </FormControl>
-          </Grid>
+              {SORT_OPTIONS.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
         </Grid>
-      </Paper>
+      </Grid>
+    </Paper>
+  );
+};
+
+// Filter bar, card grid and pager shared by the paged modes
+const IssueListView: React.FC<IssueListViewProps> = ({
+  issues,
+  loading,
+  error,
+  filters,
+  sortConfig,
+  onFilterChange,
+  onSortChange,
+  page,
+  totalPages,
+  onPageChange,
+  onFlagIssue,
+  selectable = false,
+  selectedIssues = [],
+  onSelectIssue
+}) => {
+  const handlePageChange = (event: React.ChangeEvent<unknown>, value: number) => {
+    // MUI Pagination is 1-based; convert to 0-based for hook
+    onPageChange(value - 1);
+  };
+
+  const isIssueSelected = (issue: Issue): boolean => {
+    return selectedIssues.some(selected => selected.id === issue.id);
+  };
+
+  return (
+    <Box>
+      <IssueListFilters
+        filters={filters}
+        sortConfig={sortConfig}
+        onFilterChange={onFilterChange}
+        onSortChange={onSortChange}
+      />
       
       {loading ? (
         <Box sx={{ display: 'flex', justifyContent: 'center', my: 4 }}>
@@ -209,7 +604,7 @@ const IssueList: React.FC<IssueListProps> = ({
         </Box>
       ) : error ? (
         <Alert severity="error" sx={{ my: 2 }}>{error}</Alert>
-      ) : filteredIssues.length === 0 ? (
+      ) : issues.length === 0 ? (
         <Box sx={{ textAlign: 'center', my: 4 }}>
           <Typography variant="h6" color="text.secondary">
             No issues found
@@ -221,7 +616,7 @@ const IssueList: React.FC<IssueListProps> = ({
       ) : (
         <>
           <Grid container spacing={3}>
-            {currentIssues.map((issue) => (
+            {issues.map((issue) => (
               <Grid item xs={12} sm={6} md={4} key={issue.id}>
                 <IssueCard 
                   issue={issue} 
@@ -251,4 +646,14 @@ const IssueList: React.FC<IssueListProps> = ({
   );
 };
 
+/**
+ * Searchable, sortable grid of issue cards. Filters either the issues passed in,
+ * or, with `serverSide`, has the backend do it a page at a time; `infiniteScroll`
+ * then loads further batches on scrolling instead of showing a pager.
+ */
+const IssueList: React.FC<IssueListProps> = (props) => {
+  if (!props.serverSide) return <ClientIssueList {...props} />;
+  return props.infiniteScroll ? <InfiniteIssueList {...props} /> : <ServerIssueList {...props} />;
+};
+
 export default IssueList;
\ No newline at end of file
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { Chip, Tooltip, SxProps, Theme } from '@mui/material';
+import { Timer as TimerIcon } from '@mui/icons-material';
+import { Issue } from '../../types';
+import { formatSlaDuration, getSlaState } from '../../utils/sla';
+
+interface SlaChipProps {
+  issue: Issue;
+  size?: 'small' | 'medium';
+  sx?: SxProps<Theme>;
+}
+
+// Countdowns are shown to the hour at best, so a minute is plenty
+const TICK_MS = 60 * 1000;
+
+/**
+ * Time left before an issue misses its SLA target for the current status, or how
+ * long it is overdue. Renders nothing for statuses without a target.
+ */
+const SlaChip: React.FC<SlaChipProps> = ({ issue, size = 'small', sx }) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const sla = getSlaState(issue, now);
+  if (!sla) return null;
+
+  const label = sla.overdue
+    ? `Overdue ${formatSlaDuration(sla.remainingMs)}`
+    : `${formatSlaDuration(sla.remainingMs)} left`;
+
+  return (
+    <Tooltip title={`Target: ${sla.targetHours}h in ${issue.status.replace('_', ' ')} · due ${sla.dueAt.toLocaleString()}`}>
+      <Chip
+        icon={<TimerIcon />}
+        label={label}
+        size={size}
+        color={sla.overdue ? 'error' : sla.dueSoon ? 'warning' : 'default'}
+        variant={sla.overdue ? 'filled' : 'outlined'}
+        sx={sx}
+      />
+    </Tooltip>
+  );
+};
+
+export default SlaChip;
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Button, CircularProgress, Tooltip } from '@mui/material';
+import { ThumbUp as ThumbUpIcon, ThumbUpOutlined as ThumbUpOutlinedIcon } from '@mui/icons-material';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { Issue } from '../../types';
+import issueService from '../../services/issueService';
+import { useAuth, useNotification } from '../../hooks';
+
+interface VoteButtonProps {
+  issue: Issue;
+  size?: 'small' | 'medium' | 'large';
+  /** Called with the updated issue after the vote is recorded */
+  onVoteChange?: (issue: Issue) => void;
+}
+
+const VoteButton: React.FC<VoteButtonProps> = ({ issue, size = 'small', onVoteChange }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isAuthenticated } = useAuth();
+  const { showError } = useNotification();
+  const [voteCount, setVoteCount] = useState(issue.voteCount ?? 0);
+  const [hasVoted, setHasVoted] = useState(!!issue.hasVoted);
+  const [voting, setVoting] = useState(false);
+
+  // Follow the parent when it reloads the issue
+  useEffect(() => {
+    setVoteCount(issue.voteCount ?? 0);
+    setHasVoted(!!issue.hasVoted);
+  }, [issue.voteCount, issue.hasVoted]);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!isAuthenticated) {
+      navigate('/login', { state: { from: location } });
+      return;
+    }
+
+    setVoting(true);
+    try {
+      const updated = hasVoted
+        ? await issueService.unvoteIssue(issue.id)
+        : await issueService.voteIssue(issue.id);
+      setVoteCount(updated.voteCount ?? 0);
+      setHasVoted(!!updated.hasVoted);
+      if (onVoteChange) {
+        onVoteChange(updated);
+      }
+    } catch (err: any) {
+      console.error('Failed to update vote:', err);
+      showError(err?.message || 'Failed to record your vote. Please try again.');
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  return (
+    <Tooltip title={hasVoted ? 'Remove your vote' : 'I am affected by this too'}>
+      <Button
+        size={size}
+        variant={hasVoted ? 'contained' : 'outlined'}
+        onClick={handleClick}
+        disabled={voting}
+        aria-pressed={hasVoted}
+        startIcon={voting ? <CircularProgress size={16} /> : hasVoted ? <ThumbUpIcon /> : <ThumbUpOutlinedIcon />}
+        sx={{
+          minWidth: 0,
+          color: hasVoted ? '#fff' : '#4CAF50',
+          borderColor: '#4CAF50',
+          backgroundColor: hasVoted ? '#4CAF50' : 'transparent',
+          '&:hover': {
+            borderColor: '#388E3C',
+            backgroundColor: hasVoted ? '#388E3C' : 'rgba(76, 175, 80, 0.08)',
+          },
+        }}
+      >
+        Me too · {voteCount}
+      </Button>
+    </Tooltip>
+  );
+};
+
+export default VoteButton;
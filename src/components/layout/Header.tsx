@@ -31,6 +31,7 @@ import {
 import { useNavigate, Link as RouterLink } from 'react-router-dom';
 import authService from '../../services/authService';
 import { User } from '../../types';
+import { can } from '../../utils/permissions';
 
 interface HeaderProps {
   user: User | null;
@@ -53,9 +54,9 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
     setAnchorEl(null);
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
     handleMenuClose();
-    authService.logout();
+    await authService.logout();
     onLogout();
     navigate('/login');
   };
@@ -88,7 +89,7 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
         <ListItemText>Profile</ListItemText>
       </MenuItem>
       
-      {user?.isAdmin && (
+      {can(user, 'admin:access') && (
         <MenuItem onClick={() => { handleMenuClose(); navigate('/admin'); }}>
           <ListItemIcon>
             <Dashboard fontSize="small" sx={{ color: '#fff' }} />
@@ -166,7 +167,7 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
             <ListItemText primary="Profile" />
           </ListItem>
           
-          {user.isAdmin && (
+          {can(user, 'admin:access') && (
             <ListItem button component={RouterLink} to="/admin" onClick={toggleMobileMenu}>
               <ListItemIcon>
                 <Dashboard sx={{ color: '#fff' }} />
@@ -5,10 +5,13 @@ import Footer from './Footer';
 import { User } from '../../types';
 import authService from '../../services/authService';
 import NetworkStatus from '../common/NetworkStatus';
+import EmailVerificationBanner from '../auth/EmailVerificationBanner';
 import { useNotification } from '../../hooks/useNotification';
 
 interface LayoutProps {
   children: React.ReactNode;
+  /** Render children edge-to-edge without the page container and footer (e.g. full-screen map) */
+  fullBleed?: boolean;
 }
 
 const darkTheme = createTheme({
@@ -49,7 +52,7 @@ const darkTheme = createTheme({
   },
 });
 
-const Layout: React.FC<LayoutProps> = ({ children }) => {
+const Layout: React.FC<LayoutProps> = ({ children, fullBleed = false }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
@@ -109,7 +112,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         if (!isNetworkError) {
           // If token is invalid, clear it
           console.log('Layout: Non-network error, logging out user');
-          authService.logout();
+          authService.clearSession();
           setUser(null);
           // Don't show notification for auth errors, as they're expected when token is invalid
         } else {
@@ -158,6 +161,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         }}
       >
         <Header user={user} onLogout={handleLogout} />
+        <EmailVerificationBanner />
         {!isOnline && (
           <Box 
             sx={{ 
@@ -172,11 +176,17 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             You are currently offline. Some features may be limited.
           </Box>
         )}
-        <Container component="main" sx={{ flexGrow: 1, py: 4 }}>
-          {children}
-        </Container>
+        {fullBleed ? (
+          <Box component="main" sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column' }}>
+            {children}
+          </Box>
+        ) : (
+          <Container component="main" sx={{ flexGrow: 1, py: 4 }}>
+            {children}
+          </Container>
+        )}
         <NetworkStatus />
-        <Footer />
+        {!fullBleed && <Footer />}
       </Box>
     </ThemeProvider>
   );
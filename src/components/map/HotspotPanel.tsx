@@ -0,0 +1,72 @@
+import React from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Chip
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { Issue } from '../../types';
+import { getStatusColor } from '../../utils/mapMarkers';
+
+interface HotspotPanelProps {
+  issues: Issue[];
+  onClose: () => void;
+  onIssueClick: (issue: Issue) => void;
+}
+
+/**
+ * Lists the issues in the hotspot cell selected on the map, newest first
+ */
+const HotspotPanel: React.FC<HotspotPanelProps> = ({ issues, onClose, onIssueClick }) => {
+  const sorted = [...issues].sort((a, b) => new Date(b.reportedAt).getTime() - new Date(a.reportedAt).getTime());
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{ display: 'flex', flexDirection: 'column', maxHeight: '100%', backgroundColor: 'rgba(30, 30, 30, 0.95)' }}
+    >
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', px: 2, pt: 1.5, pb: 1 }}>
+        <Typography variant="subtitle1" fontWeight="bold">
+          {issues.length} {issues.length === 1 ? 'issue' : 'issues'} in this area
+        </Typography>
+        <IconButton aria-label="close" size="small" onClick={onClose}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      {sorted.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ px: 2, pb: 2 }}>
+          No issues here match the current filters.
+        </Typography>
+      ) : (
+        <List dense sx={{ overflowY: 'auto', pt: 0 }}>
+          {sorted.map((issue) => (
+            <ListItemButton key={issue.id} onClick={() => onIssueClick(issue)}>
+              <ListItemText
+                primary={issue.title}
+                secondary={
+                  <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+                    <Chip
+                      component="span"
+                      label={issue.status.replace('_', ' ')}
+                      size="small"
+                      sx={{ backgroundColor: getStatusColor(issue.status), color: '#fff', height: 20 }}
+                    />
+                    <span>{issue.category} · {new Date(issue.reportedAt).toLocaleDateString()}</span>
+                  </Box>
+                }
+              />
+            </ListItemButton>
+          ))}
+        </List>
+      )}
+    </Paper>
+  );
+};
+
+export default HotspotPanel;
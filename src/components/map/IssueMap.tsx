@@ -1,31 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
-import { Icon, LatLngExpression } from 'leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Rectangle, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import L, { LatLngExpression } from 'leaflet';
 import { Box, Typography, Button, Paper, Chip, Alert, CircularProgress } from '@mui/material';
 import { useNavigate } from 'react-router-dom';
-import { Issue, IssueStatus, Location } from '../../types';
+import { Issue, Location } from '../../types';
+import { clusterIssues, createClusterIcon } from '../../utils/mapClustering';
+import { createIssueIcon, getStatusColor, selectedLocationIcon } from '../../utils/mapMarkers';
+import { groupIntoHotspots, HotspotCell, HOTSPOT_THRESHOLD } from '../../utils/mapHotspots';
+import { drawHeatmap } from '../../utils/mapHeatmap';
 import 'leaflet/dist/leaflet.css';
 
-// Fix for Leaflet icon in webpack
-import L from 'leaflet';
-
-// Fix the icon paths for Leaflet
-delete (L.Icon.Default.prototype as any)._getIconUrl;
-L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon-2x.png',
-  iconUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png',
-});
-
-// Fix for default marker icon issue in React Leaflet
-const defaultIcon = new Icon({
-  iconUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png',
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-  popupAnchor: [1, -34],
-  shadowSize: [41, 41]
-});
+/** How issues are drawn: individual pins, a density heatmap, or a grid of hotspot cells */
+export type MapLayer = 'markers' | 'heatmap' | 'hotspots';
+
+export const MAP_LAYERS: MapLayer[] = ['markers', 'heatmap', 'hotspots'];
+
+/** Most issues a page loads onto a map; past this it tells the user the set is capped */
+export const MAP_ISSUE_LIMIT = 2000;
 
 interface IssueMapProps {
   issues: Issue[];
@@ -35,15 +26,157 @@ interface IssueMapProps {
   onMarkerClick?: (issue: Issue) => void;
   selectable?: boolean;
   onLocationSelect?: (location: Location) => void;
+  /** Group nearby markers into clusters that expand on click */
+  cluster?: boolean;
+  /** Called after the user pans or zooms the map */
+  onViewChange?: (center: [number, number], zoom: number) => void;
+  layer?: MapLayer;
+  /** Issue count at which a hotspot cell is highlighted */
+  hotspotThreshold?: number;
+  /** Hotspot cell to outline as selected */
+  selectedHotspotId?: string | null;
+  onHotspotClick?: (cell: HotspotCell) => void;
 }
 
 // Component to recenter map when center prop changes
 const ChangeMapView: React.FC<{ center: LatLngExpression }> = ({ center }) => {
   const map = useMap();
-  map.setView(center, map.getZoom());
+  const { lat, lng } = L.latLng(center as L.LatLngTuple);
+
+  useEffect(() => {
+    const target = L.latLng(lat, lng);
+    // Skip no-op moves so a parent syncing center from map events doesn't loop
+    if (!map.getCenter().equals(target, 1e-5)) {
+      map.setView(target, map.getZoom());
+    }
+  }, [map, lat, lng]);
+
   return null;
 };
 
+// Component to report pan/zoom changes back to the parent
+const ViewChangeListener: React.FC<{ onViewChange: (center: [number, number], zoom: number) => void }> = ({ onViewChange }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const { lat, lng } = map.getCenter();
+      onViewChange([lat, lng], map.getZoom());
+    }
+  });
+  return null;
+};
+
+// Component that renders issues as clusters, re-grouping them whenever the zoom changes
+const ClusteredMarkers: React.FC<{ issues: Issue[]; renderMarker: (issue: Issue) => React.ReactNode }> = ({ issues, renderMarker }) => {
+  const map = useMap();
+  const [zoomLevel, setZoomLevel] = useState(map.getZoom());
+
+  useMapEvents({
+    zoomend: () => setZoomLevel(map.getZoom())
+  });
+
+  const clusters = React.useMemo(
+    () => clusterIssues(issues, map, zoomLevel),
+    [issues, map, zoomLevel]
+  );
+
+  return (
+    <>
+      {clusters.map((cluster) => cluster.issues.length === 1 ? (
+        <React.Fragment key={cluster.issues[0].id}>
+          {renderMarker(cluster.issues[0])}
+        </React.Fragment>
+      ) : (
+        <Marker
+          key={cluster.id}
+          position={cluster.center}
+          icon={createClusterIcon(cluster.issues.length)}
+          eventHandlers={{
+            click: () => {
+              // Issues at the exact same spot never separate, so step in instead of fitting bounds
+              if (cluster.bounds.getNorthEast().equals(cluster.bounds.getSouthWest())) {
+                map.setView(cluster.center, Math.min(map.getZoom() + 2, map.getMaxZoom()));
+              } else {
+                map.fitBounds(cluster.bounds.pad(0.2));
+              }
+            }
+          }}
+        />
+      ))}
+    </>
+  );
+};
+
+// Component that draws a density heatmap on a canvas over the map, redrawn after every pan or zoom
+const HeatmapLayer: React.FC<{ issues: Issue[] }> = ({ issues }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    // leaflet-zoom-hide keeps the stale heatmap out of sight during zoom animations
+    const canvas = L.DomUtil.create('canvas', 'issue-heatmap-layer leaflet-zoom-hide') as HTMLCanvasElement;
+    canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(canvas);
+
+    const redraw = () => {
+      const size = map.getSize();
+      canvas.width = size.x;
+      canvas.height = size.y;
+      L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+      drawHeatmap(canvas, issues.map(issue => map.latLngToContainerPoint([issue.location.latitude, issue.location.longitude])));
+    };
+
+    redraw();
+    map.on('moveend resize', redraw);
+
+    return () => {
+      map.off('moveend resize', redraw);
+      L.DomUtil.remove(canvas);
+    };
+  }, [map, issues]);
+
+  return null;
+};
+
+// Component that shades each grid cell containing issues, highlighting those at or above the threshold
+const HotspotGrid: React.FC<{
+  issues: Issue[];
+  threshold: number;
+  selectedId?: string | null;
+  onCellClick?: (cell: HotspotCell) => void;
+}> = ({ issues, threshold, selectedId, onCellClick }) => {
+  const cells = React.useMemo(() => groupIntoHotspots(issues), [issues]);
+
+  return (
+    <>
+      {cells.map((cell) => {
+        const count = cell.issues.length;
+        const hot = count >= threshold;
+        const selected = cell.id === selectedId;
+        const color = hot ? '#f44336' : '#ff9800';
+
+        return (
+          <Rectangle
+            key={cell.id}
+            bounds={cell.bounds}
+            pathOptions={{
+              color: selected ? '#fff' : color,
+              weight: selected ? 3 : 1,
+              fillColor: color,
+              fillOpacity: hot ? Math.min(0.3 + (count - threshold) * 0.05, 0.6) : 0.15
+            }}
+            eventHandlers={{
+              click: () => onCellClick && onCellClick(cell)
+            }}
+          >
+            <Tooltip>
+              {count} {count === 1 ? 'issue' : 'issues'}{hot ? ' · hotspot' : ''}
+            </Tooltip>
+          </Rectangle>
+        );
+      })}
+    </>
+  );
+};
+
 const IssueMap: React.FC<IssueMapProps> = ({
   issues,
   center = [51.505, -0.09], // Default to London
@@ -51,40 +184,20 @@ const IssueMap: React.FC<IssueMapProps> = ({
   height = '500px',
   onMarkerClick,
   selectable = false,
-  onLocationSelect
+  onLocationSelect,
+  cluster = false,
+  onViewChange,
+  layer = 'markers',
+  hotspotThreshold = HOTSPOT_THRESHOLD,
+  selectedHotspotId,
+  onHotspotClick
 }) => {
   const navigate = useNavigate();
+  const issueList = React.useMemo(() => (Array.isArray(issues) ? issues : []), [issues]);
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
   const [mapError, setMapError] = useState<string | null>(null);
   const [isMapLoading, setIsMapLoading] = useState<boolean>(true);
 
-  // Status color mapping
-  const getStatusColor = (status: IssueStatus): string => {
-    switch (status) {
-      case IssueStatus.REPORTED:
-        return '#f44336'; // Red
-      case IssueStatus.UNDER_REVIEW:
-        return '#ff9800'; // Orange
-      case IssueStatus.IN_PROGRESS:
-        return '#2196f3'; // Blue
-      case IssueStatus.RESOLVED:
-        return '#4caf50'; // Green
-      case IssueStatus.CLOSED:
-        return '#9e9e9e'; // Grey
-      default:
-        return '#f44336'; // Default to red
-    }
-  };
-
-  // Custom icon for each issue based on status
-  const getMarkerIcon = (status: IssueStatus) => {
-    return new Icon({
-      ...defaultIcon.options,
-      iconUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon.png',
-      // In a real app, we would use different colored markers for each status
-    });
-  };
-
   const handleMapClick = (e: any) => {
     if (selectable && onLocationSelect) {
       const { lat, lng } = e.latlng;
@@ -119,6 +232,57 @@ const IssueMap: React.FC<IssueMapProps> = ({
     setIsMapLoading(false);
   };
 
+  const renderIssueMarker = (issue: Issue) => (
+    <Marker 
+      key={issue.id} 
+      position={[issue.location.latitude, issue.location.longitude]} 
+      icon={createIssueIcon(issue)}
+      eventHandlers={{
+        click: () => handleViewIssue(issue)
+      }}
+    >
+      <Popup>
+        <Paper sx={{ p: 1, maxWidth: 250 }}>
+          <Typography variant="subtitle1" fontWeight="bold">
+            {issue.title}
+          </Typography>
+          
+          <Chip 
+            label={issue.status} 
+            size="small" 
+            sx={{ 
+              backgroundColor: getStatusColor(issue.status),
+              color: '#fff',
+              my: 1
+            }} 
+          />
+          
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            {issue.description.length > 100 
+              ? `${issue.description.substring(0, 100)}...` 
+              : issue.description}
+          </Typography>
+          
+          <Button 
+            variant="contained" 
+            size="small" 
+            fullWidth
+            onClick={() => handleViewIssue(issue)}
+            sx={{ 
+              mt: 1,
+              backgroundColor: '#4CAF50',
+              '&:hover': {
+                backgroundColor: '#388E3C',
+              },
+            }}
+          >
+            View Details
+          </Button>
+        </Paper>
+      </Popup>
+    </Marker>
+  );
+
   if (isMapLoading) {
     return (
       <Box sx={{ height, width: '100%', display: 'flex', justifyContent: 'center', alignItems: 'center' }}>
@@ -164,61 +328,29 @@ const IssueMap: React.FC<IssueMapProps> = ({
         
         <ChangeMapView center={center as LatLngExpression} />
         
-        {(Array.isArray(issues) ? issues : []).map((issue) => (
-          <Marker 
-            key={issue.id} 
-            position={[issue.location.latitude, issue.location.longitude]} 
-            icon={getMarkerIcon(issue.status)}
-            eventHandlers={{
-              click: () => handleViewIssue(issue)
-            }}
-          >
-            <Popup>
-              <Paper sx={{ p: 1, maxWidth: 250 }}>
-                <Typography variant="subtitle1" fontWeight="bold">
-                  {issue.title}
-                </Typography>
-                
-                <Chip 
-                  label={issue.status} 
-                  size="small" 
-                  sx={{ 
-                    backgroundColor: getStatusColor(issue.status),
-                    color: '#fff',
-                    my: 1
-                  }} 
-                />
-                
-                <Typography variant="body2" sx={{ mb: 1 }}>
-                  {issue.description.length > 100 
-                    ? `${issue.description.substring(0, 100)}...` 
-                    : issue.description}
-                </Typography>
-                
-                <Button 
-                  variant="contained" 
-                  size="small" 
-                  fullWidth
-                  onClick={() => handleViewIssue(issue)}
-                  sx={{ 
-                    mt: 1,
-                    backgroundColor: '#4CAF50',
-                    '&:hover': {
-                      backgroundColor: '#388E3C',
-                    },
-                  }}
-                >
-                  View Details
-                </Button>
-              </Paper>
-            </Popup>
-          </Marker>
+        {onViewChange && <ViewChangeListener onViewChange={onViewChange} />}
+        
+        {layer === 'heatmap' && <HeatmapLayer issues={issueList} />}
+        
+        {layer === 'hotspots' && (
+          <HotspotGrid
+            issues={issueList}
+            threshold={hotspotThreshold}
+            selectedId={selectedHotspotId}
+            onCellClick={onHotspotClick}
+          />
+        )}
+        
+        {layer === 'markers' && (cluster ? (
+          <ClusteredMarkers issues={issueList} renderMarker={renderIssueMarker} />
+        ) : (
+          issueList.map(renderIssueMarker)
         ))}
         
         {selectable && selectedLocation && (
           <Marker 
             position={[selectedLocation.latitude, selectedLocation.longitude]} 
-            icon={defaultIcon}
+            icon={selectedLocationIcon}
           >
             <Popup>
               <Typography variant="body2">Selected Location</Typography>
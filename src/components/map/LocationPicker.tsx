@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { Box, Typography, Paper, TextField, Button, CircularProgress } from '@mui/material';
+import React, { useState, useEffect, useRef } from 'react';
+import { Box, Typography, Paper, TextField, Button, CircularProgress, Autocomplete } from '@mui/material';
 import { Location } from '../../types';
+import geocodingService, { GeocodingResult } from '../../services/geocodingService';
 import IssueMap from './IssueMap';
 
 interface LocationPickerProps {
@@ -13,6 +14,11 @@ const LocationPicker: React.FC<LocationPickerProps> = ({ onLocationSelect, initi
   const [address, setAddress] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
+  const [searchInput, setSearchInput] = useState<string>('');
+  const [searchResults, setSearchResults] = useState<GeocodingResult[]>([]);
+  const [searching, setSearching] = useState<boolean>(false);
+  // Reverse lookup in flight; a newer pick aborts it so an old response can't overwrite the location
+  const reverseControllerRef = useRef<AbortController | null>(null);
 
   // Get user's current location on component mount
   useEffect(() => {
@@ -37,31 +43,85 @@ const LocationPicker: React.FC<LocationPickerProps> = ({ onLocationSelect, initi
     }
   }, [initialLocation, onLocationSelect]);
 
-  // Fetch address from coordinates using a geocoding service
+  // Debounce address search and abort lookups that a newer keystroke has superseded
+  useEffect(() => {
+    const query = searchInput.trim();
+    if (query.length < 3) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const results = await geocodingService.search(query, { signal: controller.signal });
+        setSearchResults(results);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error searching addresses:', error);
+          setSearchResults([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setSearching(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchInput]);
+
+  // Abort a reverse lookup still running when the picker goes away
+  useEffect(() => () => reverseControllerRef.current?.abort(), []);
+
+  const cancelAddressLookup = () => {
+    reverseControllerRef.current?.abort();
+    reverseControllerRef.current = null;
+    setLoading(false);
+  };
+
+  // Fetch address from coordinates using the configured geocoding provider
   const fetchAddress = async (latitude: number, longitude: number) => {
+    cancelAddressLookup();
+    const controller = new AbortController();
+    reverseControllerRef.current = controller;
     setLoading(true);
     try {
-      // In a real app, you would use a geocoding service like Google Maps or Nominatim
-      // For this example, we'll simulate a delay and set a placeholder address
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      const resolvedAddress = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+      const result = await geocodingService.reverse(latitude, longitude, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      // Fall back to the raw coordinates when the provider knows no address there
+      const resolvedAddress = result ? result.address : `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
       setAddress(resolvedAddress);
       // Also propagate address to parent once available
       onLocationSelect({ latitude, longitude, address: resolvedAddress });
-      
-      // In a real implementation, you would do something like:
-      // const response = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`);
-      // const data = await response.json();
-      // setAddress(data.display_name);
-      // onLocationSelect({ latitude, longitude, address: data.display_name });
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error('Error fetching address:', error);
       setAddress('Address not found');
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   };
 
+  const handleSearchSelect = (result: GeocodingResult | null) => {
+    if (!result) return;
+
+    // The search result carries its own address; a lookup for an earlier pick must not replace it
+    cancelAddressLookup();
+
+    const loc = { latitude: result.latitude, longitude: result.longitude, address: result.address };
+    setLocation(loc);
+    setAddress(result.address);
+    onLocationSelect(loc);
+  };
+
   const handleLocationSelect = (newLocation: Location) => {
     setLocation(newLocation);
     onLocationSelect(newLocation);
@@ -86,8 +146,38 @@ const LocationPicker: React.FC<LocationPickerProps> = ({ onLocationSelect, initi
       
       <Paper elevation={3} sx={{ p: 2, mb: 3, backgroundColor: '#1e1e1e' }}>
         <Typography variant="body2" sx={{ mb: 2 }}>
-          Click on the map to select the location of the issue, or use your current location.
+          Search for an address, click on the map to select the location of the issue, or use your current location.
         </Typography>
+
+        <Autocomplete
+          options={searchResults}
+          getOptionLabel={(option) => option.address}
+          filterOptions={(options) => options}
+          isOptionEqualToValue={(option, value) =>
+            option.latitude === value.latitude && option.longitude === value.longitude
+          }
+          loading={searching}
+          noOptionsText={searchInput.trim().length < 3 ? 'Type at least 3 characters' : 'No matching addresses'}
+          inputValue={searchInput}
+          onInputChange={(event, value) => setSearchInput(value)}
+          onChange={(event, value) => handleSearchSelect(value)}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Search address"
+              InputProps={{
+                ...params.InputProps,
+                endAdornment: (
+                  <>
+                    {searching ? <CircularProgress size={20} /> : null}
+                    {params.InputProps.endAdornment}
+                  </>
+                ),
+              }}
+            />
+          )}
+          sx={{ mb: 2 }}
+        />
         
         <Button 
           variant="outlined" 
@@ -3,18 +3,26 @@
 // API and data fetching hooks
 export { default as useApi } from './useApi';
 export { default as useApiForm } from './useApiForm';
+export { default as useOutbox } from './useOutbox';
 
 // UI and state management hooks
 export { default as usePagination } from './usePagination';
 export { default as useFiltering } from './useFiltering';
+export { default as useServerList } from './useServerList';
+export { default as useInfiniteList } from './useInfiniteList';
+export { default as useVirtualRows } from './useVirtualRows';
 export { default as useFormValidation, validationRules } from './useFormValidation';
 export { default as useTheme, ThemeProvider } from './useTheme';
 
 // Authentication and notification hooks
 export { default as useAuth, AuthProvider } from './useAuth';
 export { default as useNotification, NotificationProvider } from './useNotification';
+export { default as usePermission } from './usePermission';
 
 // Export types
 export type { FilterValue, FilterValues, SortConfig, SortDirection } from './useFiltering';
+export type { ServerListQuery, ServerListPage } from './useServerList';
+export type { InfiniteListQuery, InfiniteListPage, InfiniteListSnapshot } from './useInfiniteList';
+export type { ScrollAnchor } from './useVirtualRows';
 export type { ValidationRule, ValidationRules, ValidationErrors } from './useFormValidation';
 export type { Notification, NotificationType } from './useNotification';
\ No newline at end of file
@@ -19,10 +19,12 @@ interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<boolean>;
   /** Register a new user */
   register: (userData: RegisterData) => Promise<boolean>;
-  /** Logout current user */
-  logout: () => void;
+  /** Logout current user, revoking the session on the server */
+  logout: () => Promise<void>;
   /** Clear any auth errors */
   clearError: () => void;
+  /** Reload the current user, e.g. after their email address is verified */
+  refreshUser: () => Promise<void>;
 }
 
 // Create context with default values
@@ -33,8 +35,9 @@ const AuthContext = createContext<AuthContextType>({
   error: null,
   login: async () => false,
   register: async () => false,
-  logout: () => {},
-  clearError: () => {}
+  logout: async () => {},
+  clearError: () => {},
+  refreshUser: async () => {}
 });
 
 /**
@@ -139,7 +142,7 @@ const useAuthProvider = (): AuthContextType => {
             error: null
           });
           // Also clear token as it might be invalid
-          authService.logout();
+          authService.clearSession();
         } else {
           // For network errors, keep the user logged in but mark as not loading
           console.log('Network error during authentication, keeping user logged in');
@@ -158,6 +161,8 @@ const useAuthProvider = (): AuthContextType => {
       console.log('Checking authentication status');
       if (authService.isAuthenticated()) {
         console.log('Token found, attempting to get current user');
+        // Hold protected routes until the user is known, e.g. right after logging in
+        setAuthState(prev => ({ ...prev, loading: true }));
         try {
           await getCurrentUserApi.execute();
           console.log('Successfully retrieved current user');
@@ -174,7 +179,7 @@ const useAuthProvider = (): AuthContextType => {
               error: null
             });
             // Clear token as it might be invalid
-            authService.logout();
+            authService.clearSession();
           } else {
             // For network errors, keep the user logged in
             console.log('Network error, keeping user logged in');
@@ -258,9 +263,9 @@ const useAuthProvider = (): AuthContextType => {
   }, [registerApi, clearError, setAuthState]);
 
   // Logout function
-  const logout = useCallback(() => {
+  const logout = useCallback(async () => {
     console.log('Logout function called');
-    authService.logout();
+    await authService.logout();
     setAuthState({
       user: null,
       isAuthenticated: false,
@@ -270,12 +275,20 @@ const useAuthProvider = (): AuthContextType => {
     console.log('Auth state reset after logout');
   }, []);
 
+  // Refresh user function
+  const refreshUser = useCallback(async () => {
+    if (authService.isAuthenticated()) {
+      await getCurrentUserApi.execute();
+    }
+  }, [getCurrentUserApi]);
+
   return {
     ...authState,
     login,
     register,
     logout,
-    clearError
+    clearError,
+    refreshUser
   };
 };
 
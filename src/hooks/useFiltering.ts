@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 
 type FilterValue = string | number | boolean | null | undefined;
 type FilterValues = Record<string, FilterValue>;
@@ -24,6 +24,12 @@ interface FilteringOptions<T> {
   onFiltersChange?: (filters: FilterValues) => void;
   /** Callback when sort changes */
   onSortChange?: (sortConfig: SortConfig) => void;
+  /** The backend filters and sorts; `filteredData` is then `data` unchanged */
+  serverSide?: boolean;
+  /** Filters typed into text fields, whose changes reach `debouncedFilters` only once typing pauses */
+  textFilters?: string[];
+  /** Pause in milliseconds before a text filter change is applied */
+  debounceMs?: number;
 }
 
 /**
@@ -41,12 +47,33 @@ const useFiltering = <T extends Record<string, any>>(
     filterFn,
     sortFn,
     onFiltersChange,
-    onSortChange
+    onSortChange,
+    serverSide = false,
+    textFilters = [],
+    debounceMs = 300
   } = options;
 
   // State for filters and sort
   const [filters, setFilters] = useState<FilterValues>(initialFilters);
   const [sortConfig, setSortConfig] = useState<SortConfig>(initialSort);
+  const [debouncedFilters, setDebouncedFilters] = useState<FilterValues>(initialFilters);
+
+  // Selects and toggles apply at once; text filters wait until typing pauses
+  const textFilterKey = textFilters.join(',');
+  useEffect(() => {
+    if (filters === debouncedFilters) return;
+
+    const textKeys = textFilterKey.split(',');
+    const onlyTextChanged = Object.keys({ ...filters, ...debouncedFilters })
+      .every(key => filters[key] === debouncedFilters[key] || textKeys.includes(key));
+    if (!onlyTextChanged || debounceMs <= 0) {
+      setDebouncedFilters(filters);
+      return;
+    }
+
+    const timer = setTimeout(() => setDebouncedFilters(filters), debounceMs);
+    return () => clearTimeout(timer);
+  }, [filters, debouncedFilters, textFilterKey, debounceMs]);
 
   // Default filter function
   const defaultFilterFn = useCallback(
@@ -136,6 +163,18 @@ const useFiltering = <T extends Record<string, any>>(
     [sortConfig, onSortChange]
   );
 
+  // Apply a sort directly, e.g. from a "sort by" dropdown
+  const applySort = useCallback(
+    (newSortConfig: SortConfig) => {
+      setSortConfig(newSortConfig);
+
+      if (onSortChange) {
+        onSortChange(newSortConfig);
+      }
+    },
+    [onSortChange]
+  );
+
   // Reset all filters
   const resetFilters = useCallback(() => {
     setFilters({});
@@ -157,6 +196,8 @@ const useFiltering = <T extends Record<string, any>>(
 
   // Apply filtering and sorting to data
   const filteredAndSortedData = useMemo(() => {
+    if (serverSide) return data;
+
     // Apply filters
     const filteredData = data.filter(item =>
       filterFn ? filterFn(item, filters) : defaultFilterFn(item, filters)
@@ -170,17 +211,20 @@ const useFiltering = <T extends Record<string, any>>(
     }
 
     return filteredData;
-  }, [data, filters, sortConfig, filterFn, sortFn, defaultFilterFn, defaultSortFn]);
+  }, [data, filters, sortConfig, filterFn, sortFn, defaultFilterFn, defaultSortFn, serverSide]);
 
   return {
     // Current state
     filters,
+    /** Filters to send to the backend: as `filters`, but text changes arrive after the debounce */
+    debouncedFilters,
     sortConfig,
     filteredData: filteredAndSortedData,
     
     // Handlers
     setFilter: handleFilterChange,
     setSort: handleSortChange,
+    setSortConfig: applySort,
     resetFilters,
     resetSort,
     
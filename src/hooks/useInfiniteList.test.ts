@@ -0,0 +1,30 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import useInfiniteList, { InfiniteListPage, InfiniteListQuery } from './useInfiniteList';
+
+interface Item {
+  id: string;
+  title: string;
+}
+
+const item = (id: string, title = id): Item => ({ id, title });
+
+describe('useInfiniteList', () => {
+  test('drops items a later batch sends again, keeping the copy already shown', async () => {
+    const batches: Record<string, InfiniteListPage<Item>> = {
+      first: { items: [item('a'), item('b')], nextCursor: 'after-b' },
+      // `b` moved down the sort order between requests, so it arrives a second time
+      'after-b': { items: [item('b', 'b, moved'), item('c')], nextCursor: null }
+    };
+    const fetchPage = jest.fn((query: InfiniteListQuery) => Promise.resolve(batches[query.cursor ?? 'first']));
+
+    const { result } = renderHook(() => useInfiniteList(fetchPage, { pageSize: 2 }));
+    await waitFor(() => expect(result.current.items).toHaveLength(2));
+
+    act(() => result.current.loadMore());
+    await waitFor(() => expect(result.current.loadingMore).toBe(false));
+
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 'after-b', limit: 2 }), expect.anything());
+    expect(result.current.items).toEqual([item('a'), item('b'), item('c')]);
+    expect(result.current.hasMore).toBe(false);
+  });
+});
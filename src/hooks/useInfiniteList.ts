@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ApiErrorResponse } from '../utils/apiErrorHandler';
+import { FilterValues, SortConfig } from './useFiltering';
+import useListQuery from './useListQuery';
+
+/** What an infinite list asks the backend for */
+interface InfiniteListQuery {
+  /** Cursor returned with the previous page; null for the first page */
+  cursor: string | null;
+  limit: number;
+  /** Sort field; omitted when the list is unsorted */
+  sort?: string;
+  order?: 'asc' | 'desc';
+  /** Current filters, with text filters debounced */
+  filters: FilterValues;
+}
+
+/** One batch of results and the cursor to continue from */
+interface InfiniteListPage<T> {
+  items: T[];
+  /** Null once there is nothing more to load */
+  nextCursor: string | null;
+  /** Number of matching items, when the backend reports it */
+  total?: number;
+}
+
+/** Everything needed to show a list again exactly as it was loaded */
+interface InfiniteListSnapshot<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number | null;
+  filters: FilterValues;
+  sortConfig: SortConfig;
+  /** The query the items were loaded for */
+  queryKey: string;
+}
+
+interface InfiniteListOptions<T> {
+  initialFilters?: FilterValues;
+  initialSort?: SortConfig;
+  /** Items requested per batch */
+  pageSize?: number;
+  /** Filters typed into text fields, sent once typing pauses */
+  textFilters?: string[];
+  /** Pause in milliseconds before a text filter change is sent */
+  debounceMs?: number;
+  /** Values outside the list's own filters that the fetch depends on; when they change the list reloads */
+  deps?: unknown[];
+  /** A list saved earlier with `getSnapshot`; shown without refetching if the query still matches */
+  initialSnapshot?: InfiniteListSnapshot<T>;
+}
+
+interface InfiniteListState<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number | null;
+  /** Loading the first batch for the current query */
+  loading: boolean;
+  /** Loading a further batch */
+  loadingMore: boolean;
+  error: ApiErrorResponse | null;
+}
+
+/**
+ * Custom hook for lists the backend serves in batches by cursor, appending each
+ * batch as the user asks for more. Filters and sort work as in useServerList: a
+ * change starts the list again and cancels requests made stale by it.
+ * @param fetchPage - Loads one batch; should pass `signal` on so the request can be aborted
+ * @param options - Initial filters, sort, batch size and an optional saved list to start from
+ * @returns The items loaded so far, loading and error state, loadMore, and the filtering handlers
+ */
+const useInfiniteList = <T extends { id: string }>(
+  fetchPage: (query: InfiniteListQuery, signal: AbortSignal) => Promise<InfiniteListPage<T>>,
+  options: InfiniteListOptions<T> = {}
+) => {
+  const {
+    initialFilters,
+    initialSort,
+    pageSize = 20,
+    textFilters,
+    debounceMs,
+    deps = [],
+    initialSnapshot
+  } = options;
+
+  const [state, setState] = useState<InfiniteListState<T>>(() => ({
+    items: initialSnapshot?.items ?? [],
+    nextCursor: initialSnapshot?.nextCursor ?? null,
+    total: initialSnapshot?.total ?? null,
+    loading: !initialSnapshot,
+    loadingMore: false,
+    error: null
+  }));
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const { filtering, queryKey, sort, order, runQuery } = useListQuery(fetchPage, {
+    initialFilters: initialSnapshot?.filters ?? initialFilters,
+    initialSort: initialSnapshot?.sortConfig ?? initialSort,
+    textFilters,
+    debounceMs,
+    deps
+  });
+  const { debouncedFilters, sortConfig } = filtering;
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const queryKeyRef = useRef(queryKey);
+  queryKeyRef.current = queryKey;
+
+  // Set while the items on screen came from the snapshot and no query has been sent since
+  const restoredKeyRef = useRef(initialSnapshot?.queryKey ?? null);
+  const loadMoreControllerRef = useRef<AbortController | null>(null);
+
+  const buildQuery = useCallback((cursor: string | null): InfiniteListQuery => ({
+    cursor,
+    limit: pageSize,
+    sort,
+    order,
+    filters: debouncedFilters
+  }), [pageSize, sort, order, debouncedFilters]);
+  // Changes along with the query key, which alone decides when the list starts again
+  const buildQueryRef = useRef(buildQuery);
+  buildQueryRef.current = buildQuery;
+
+  // Load the first batch whenever the query changes
+  useEffect(() => {
+    if (restoredKeyRef.current === queryKey && reloadCount === 0) return;
+    restoredKeyRef.current = null;
+
+    const controller = new AbortController();
+    loadMoreControllerRef.current?.abort();
+    setState({ items: [], nextCursor: null, total: null, loading: true, loadingMore: false, error: null });
+
+    runQuery(
+      buildQueryRef.current(null),
+      controller.signal,
+      result => setState({
+        items: result.items,
+        nextCursor: result.nextCursor,
+        total: result.total ?? null,
+        loading: false,
+        loadingMore: false,
+        error: null
+      }),
+      error => setState(prev => ({ ...prev, loading: false, error }))
+    );
+
+    return () => controller.abort();
+  }, [queryKey, reloadCount, runQuery]);
+
+  // Abort a batch still loading when the list goes away
+  useEffect(() => () => loadMoreControllerRef.current?.abort(), []);
+
+  // Append the next batch; does nothing while a batch is loading or once everything is loaded
+  const loadMore = useCallback(() => {
+    const { nextCursor, loading, loadingMore } = stateRef.current;
+    if (!nextCursor || loading || loadingMore) return;
+
+    const controller = new AbortController();
+    loadMoreControllerRef.current = controller;
+    setState(prev => ({ ...prev, loadingMore: true, error: null }));
+
+    runQuery(
+      buildQuery(nextCursor),
+      controller.signal,
+      // Items that moved in the sort order since the last batch may come again; keep the copy already shown
+      result => setState(prev => {
+        const loadedIds = new Set(prev.items.map(item => item.id));
+        return {
+          ...prev,
+          items: prev.items.concat(result.items.filter(item => !loadedIds.has(item.id))),
+          nextCursor: result.nextCursor,
+          total: result.total ?? prev.total,
+          loadingMore: false
+        };
+      }),
+      error => setState(prev => ({ ...prev, loadingMore: false, error }))
+    );
+  }, [buildQuery, runQuery]);
+
+  // The list as it stands, to pass back as `initialSnapshot` when it is shown again
+  const filtersRef = useRef({ filters: filtering.filters, sortConfig });
+  filtersRef.current = { filters: filtering.filters, sortConfig };
+  const getSnapshot = useCallback((): InfiniteListSnapshot<T> => ({
+    items: stateRef.current.items,
+    nextCursor: stateRef.current.nextCursor,
+    total: stateRef.current.total,
+    filters: filtersRef.current.filters,
+    sortConfig: filtersRef.current.sortConfig,
+    queryKey: queryKeyRef.current
+  }), []);
+
+  return {
+    ...filtering,
+
+    // Items loaded so far
+    items: state.items,
+    total: state.total,
+    hasMore: !!state.nextCursor,
+    loading: state.loading,
+    loadingMore: state.loadingMore,
+    error: state.error,
+
+    // True while the items shown are those from `initialSnapshot`
+    restored: restoredKeyRef.current === queryKey && reloadCount === 0,
+
+    loadMore,
+    getSnapshot,
+    // Start again from the first batch
+    refresh: useCallback(() => setReloadCount(count => count + 1), [])
+  };
+};
+
+export default useInfiniteList;
+export type { InfiniteListQuery, InfiniteListPage, InfiniteListSnapshot };
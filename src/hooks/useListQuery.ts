@@ -0,0 +1,68 @@
+import { useCallback, useRef } from 'react';
+import { ApiErrorResponse, extractErrorMessage } from '../utils/apiErrorHandler';
+import useFiltering, { FilterValues, SortConfig } from './useFiltering';
+
+interface ListQueryOptions {
+  initialFilters?: FilterValues;
+  initialSort?: SortConfig;
+  /** Filters typed into text fields, sent once typing pauses */
+  textFilters?: string[];
+  /** Pause in milliseconds before a text filter change is sent */
+  debounceMs?: number;
+  /** Values outside the list's own filters that the fetch depends on */
+  deps?: unknown[];
+}
+
+/**
+ * Plumbing shared by useServerList and useInfiniteList: server-side filtering, a key
+ * that changes whenever the query does, and requests whose results are dropped once
+ * they are aborted. Internal to the hooks directory.
+ * @param fetchPage - Loads one page or batch; should pass `signal` on so the request can be aborted
+ * @param options - Initial filters and sort, text filters and extra dependencies
+ * @returns The filtering handlers, the query key, the sort to send and a function that runs a request
+ */
+const useListQuery = <Q, R>(
+  fetchPage: (query: Q, signal: AbortSignal) => Promise<R>,
+  options: ListQueryOptions = {}
+) => {
+  const { initialFilters, initialSort, textFilters, debounceMs, deps = [] } = options;
+
+  const filtering = useFiltering<any>({
+    initialFilters,
+    initialSort,
+    serverSide: true,
+    textFilters,
+    debounceMs
+  });
+  const { debouncedFilters, sortConfig } = filtering;
+
+  // Callers usually pass an inline function; always use the latest without refetching on every render
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const queryKey = JSON.stringify([debouncedFilters, sortConfig, deps]);
+
+  // Sort field and order to send; both omitted when the list is unsorted
+  const sort = sortConfig.field && sortConfig.direction ? sortConfig.field : undefined;
+  const order = sortConfig.field && sortConfig.direction ? sortConfig.direction : undefined;
+
+  // Send a request; once `signal` is aborted the result is ignored, so a slow response can't overwrite a newer one
+  const runQuery = useCallback((
+    query: Q,
+    signal: AbortSignal,
+    onResult: (result: R) => void,
+    onError: (error: ApiErrorResponse) => void
+  ) => {
+    fetchPageRef.current(query, signal)
+      .then(result => {
+        if (!signal.aborted) onResult(result);
+      })
+      .catch(error => {
+        if (!signal.aborted) onError(extractErrorMessage(error));
+      });
+  }, []);
+
+  return { filtering, queryKey, sort, order, runQuery };
+};
+
+export default useListQuery;
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import outboxService, { OutboxEntry, OutboxFlushResult } from '../services/outboxService';
+
+/**
+ * Custom hook exposing the offline outbox of issue reports for one user
+ * @param userId - User whose pending reports to track; nothing is tracked while undefined
+ * @returns Pending entries, whether a sync is running, and actions to sync, retry or discard
+ */
+const useOutbox = (userId?: string) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [syncing, setSyncing] = useState<boolean>(outboxService.isFlushing());
+
+  const refresh = useCallback(async () => {
+    setSyncing(outboxService.isFlushing());
+    if (!userId) {
+      setEntries([]);
+      return;
+    }
+    try {
+      setEntries(await outboxService.getEntries(userId));
+    } catch (error) {
+      console.error('Failed to read offline outbox:', error);
+    }
+  }, [userId]);
+
+  // Reload whenever the outbox changes, including replays started elsewhere
+  useEffect(() => {
+    refresh();
+    return outboxService.subscribe(refresh);
+  }, [refresh]);
+
+  const sync = useCallback(async (): Promise<OutboxFlushResult | null> => {
+    if (!userId) return null;
+    return outboxService.flush(userId);
+  }, [userId]);
+
+  // Send a report the server rejected again; automatic replays skip those
+  const retry = useCallback(async (id: number): Promise<OutboxFlushResult | null> => {
+    if (!userId) return null;
+    return outboxService.retry(userId, id);
+  }, [userId]);
+
+  const discard = useCallback((id: number) => outboxService.remove(id), []);
+
+  return {
+    entries,
+    pendingCount: entries.length,
+    syncing,
+    sync,
+    retry,
+    discard
+  };
+};
+
+export default useOutbox;
@@ -1,4 +1,5 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { Pagination } from '../types';
 
 interface PaginationOptions {
   /** Initial page index (0-based) */
@@ -13,6 +14,8 @@ interface PaginationOptions {
   onPageChange?: (page: number) => void;
   /** Callback when page size changes */
   onPageSizeChange?: (pageSize: number) => void;
+  /** Metadata from the backend for the page last loaded; when given, totals come from it instead of `totalItems` */
+  serverPagination?: Pagination | null;
 }
 
 /**
@@ -24,11 +27,12 @@ const usePagination = (options: PaginationOptions = {}) => {
   const {
     initialPage = 0,
     initialPageSize = 10,
-    totalItems = 0,
     pageSizeOptions = [5, 10, 25, 50],
     onPageChange,
-    onPageSizeChange
+    onPageSizeChange,
+    serverPagination
   } = options;
+  const totalItems = serverPagination ? serverPagination.total : options.totalItems ?? 0;
 
   // State for current page and page size
   const [page, setPage] = useState(initialPage);
@@ -36,8 +40,16 @@ const usePagination = (options: PaginationOptions = {}) => {
 
   // Calculate total pages
   const totalPages = useMemo(() => {
+    if (serverPagination) return serverPagination.total > 0 ? serverPagination.totalPages : 0;
     return totalItems > 0 ? Math.ceil(totalItems / pageSize) : 0;
-  }, [totalItems, pageSize]);
+  }, [serverPagination, totalItems, pageSize]);
+
+  // The backend clamps out-of-range pages (e.g. after the last item on the last page is deleted); follow it
+  useEffect(() => {
+    if (serverPagination && serverPagination.total > 0) {
+      setPage(serverPagination.page - 1);
+    }
+  }, [serverPagination]);
 
   // Handle page change
   const handlePageChange = useCallback(
@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { can as canUser, getUserRole, PermissionAction, PermissionResource } from '../utils/permissions';
+
+/**
+ * Custom hook for checking the current user against the permission policy
+ * @returns The user's role (null when signed out) and a `can` check bound to the user
+ */
+const usePermission = () => {
+  const { user } = useAuth();
+
+  const can = useCallback(
+    (action: PermissionAction, resource?: PermissionResource) => canUser(user, action, resource),
+    [user]
+  );
+
+  return { role: getUserRole(user), can };
+};
+
+export default usePermission;
@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Pagination } from '../types';
+import { ApiErrorResponse } from '../utils/apiErrorHandler';
+import { FilterValues, SortConfig } from './useFiltering';
+import useListQuery from './useListQuery';
+import usePagination from './usePagination';
+
+/** What a server-driven list asks the backend for */
+interface ServerListQuery {
+  /** 1-based, as the backend counts pages */
+  page: number;
+  limit: number;
+  /** Sort field; omitted when the list is unsorted */
+  sort?: string;
+  order?: 'asc' | 'desc';
+  /** Current filters, with text filters debounced */
+  filters: FilterValues;
+}
+
+/** One page of results together with the backend's pagination metadata */
+interface ServerListPage<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+interface ServerListOptions {
+  initialFilters?: FilterValues;
+  initialSort?: SortConfig;
+  initialPageSize?: number;
+  pageSizeOptions?: number[];
+  /** Filters typed into text fields, sent once typing pauses */
+  textFilters?: string[];
+  /** Pause in milliseconds before a text filter change is sent */
+  debounceMs?: number;
+  /** Values outside the list's own filters that the fetch depends on; when they change the list reloads from the first page */
+  deps?: unknown[];
+}
+
+interface ServerListState<T> {
+  items: T[];
+  pagination: Pagination | null;
+  loading: boolean;
+  error: ApiErrorResponse | null;
+}
+
+/**
+ * Custom hook for lists paged, filtered and sorted by the backend. Combines
+ * useFiltering and usePagination in server mode, fetches the current page whenever
+ * the query changes and cancels requests that a newer one has made stale.
+ * @param fetchPage - Loads one page; should pass `signal` on so the request can be aborted
+ * @param options - Initial filters, sort and page size
+ * @returns The current page, its loading and error state, and the filtering and pagination handlers
+ */
+const useServerList = <T>(
+  fetchPage: (query: ServerListQuery, signal: AbortSignal) => Promise<ServerListPage<T>>,
+  options: ServerListOptions = {}
+) => {
+  const {
+    initialFilters,
+    initialSort,
+    initialPageSize = 10,
+    pageSizeOptions,
+    textFilters,
+    debounceMs,
+    deps = []
+  } = options;
+
+  const [state, setState] = useState<ServerListState<T>>({
+    items: [],
+    pagination: null,
+    loading: true,
+    error: null
+  });
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const { filtering, queryKey, sort, order, runQuery } = useListQuery(fetchPage, {
+    initialFilters,
+    initialSort,
+    textFilters,
+    debounceMs,
+    deps
+  });
+  const { debouncedFilters } = filtering;
+
+  const pagination = usePagination({
+    initialPage: 0,
+    initialPageSize,
+    pageSizeOptions,
+    serverPagination: state.pagination
+  });
+  const { page, pageSize, setPage } = pagination;
+
+  const lastQueryKeyRef = useRef(queryKey);
+  // Sort and filters change along with the query key, and setPage with the page count; neither should refetch
+  const latestRef = useRef({ sort, order, filters: debouncedFilters, setPage });
+  latestRef.current = { sort, order, filters: debouncedFilters, setPage };
+
+  useEffect(() => {
+    // A different query starts again from the first page; the page change runs this effect again
+    if (queryKey !== lastQueryKeyRef.current) {
+      lastQueryKeyRef.current = queryKey;
+      if (page !== 0) {
+        latestRef.current.setPage(0);
+        return;
+      }
+    }
+
+    const controller = new AbortController();
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    const { sort: querySort, order: queryOrder, filters } = latestRef.current;
+    runQuery(
+      { page: page + 1, limit: pageSize, sort: querySort, order: queryOrder, filters },
+      controller.signal,
+      result => setState({ items: result.items, pagination: result.pagination, loading: false, error: null }),
+      error => setState(prev => ({ ...prev, loading: false, error }))
+    );
+
+    // Superseded or unmounted: abort so a slow response can't overwrite a newer one
+    return () => controller.abort();
+  }, [queryKey, page, pageSize, reloadCount, runQuery]);
+
+  return {
+    ...filtering,
+    ...pagination,
+
+    // Current page from the backend
+    items: state.items,
+    serverPagination: state.pagination,
+    loading: state.loading,
+    error: state.error,
+
+    // Reload the current page, e.g. after an item on it changed
+    refresh: useCallback(() => setReloadCount(count => count + 1), [])
+  };
+};
+
+export default useServerList;
+export type { ServerListQuery, ServerListPage };
@@ -0,0 +1,191 @@
+import { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
+
+interface VirtualRowsOptions {
+  /** Number of rows in the list */
+  count: number;
+  /** Height in pixels assumed for rows that haven't been rendered yet */
+  estimateRowHeight: number;
+  /** Rows kept mounted beyond each edge of the viewport */
+  overscan?: number;
+}
+
+/** A scroll position relative to a row, which survives the list being rendered again */
+interface ScrollAnchor {
+  /** Row at the top of the viewport */
+  index: number;
+  /** Pixels the viewport top is below that row's top; negative while the list starts lower down the page */
+  offset: number;
+}
+
+interface VirtualRange {
+  /** First row to render */
+  start: number;
+  /** One past the last row to render */
+  end: number;
+}
+
+/**
+ * Custom hook for windowed rendering of a long list that scrolls with the page.
+ * Only rows in or near the viewport are mounted; spacers stand in for the rest.
+ * Rows are measured as they render, so they may differ in height.
+ * @param options - Row count, estimated row height and overscan
+ * @returns A ref for the list container, the rows to render, spacer heights and
+ *   a ref callback each rendered row must attach along with `data-index`
+ */
+const useVirtualRows = (options: VirtualRowsOptions) => {
+  const { count, estimateRowHeight, overscan = 2 } = options;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Measured heights by row index; rows not yet rendered use the estimate
+  const heightsRef = useRef<number[]>([]);
+  const anchorRef = useRef<ScrollAnchor>({ index: 0, offset: 0 });
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef(new Set<HTMLElement>());
+  const frameRef = useRef<number | null>(null);
+  const [range, setRange] = useState<VirtualRange>({ start: 0, end: Math.min(count, overscan + 1) });
+
+  const rowHeight = useCallback(
+    (index: number) => heightsRef.current[index] ?? estimateRowHeight,
+    [estimateRowHeight]
+  );
+
+  const offsetOf = useCallback((index: number) => {
+    let offset = 0;
+    for (let i = 0; i < index; i++) {
+      offset += rowHeight(i);
+    }
+    return offset;
+  }, [rowHeight]);
+
+  // Work out which rows intersect the viewport, and where the viewport sits relative to them
+  const update = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const scrolled = -container.getBoundingClientRect().top;
+    const viewportBottom = scrolled + window.innerHeight;
+
+    let first = count;
+    let last = count;
+    let offset = 0;
+    for (let i = 0; i < count; i++) {
+      const height = rowHeight(i);
+      if (first === count && offset + height > scrolled) {
+        first = i;
+        anchorRef.current = { index: i, offset: scrolled - offset };
+      }
+      if (offset >= viewportBottom) {
+        last = i;
+        break;
+      }
+      offset += height;
+    }
+    if (first === count) {
+      // Scrolled past the end of the list
+      first = Math.max(0, count - 1);
+      anchorRef.current = { index: first, offset: scrolled - offsetOf(first) };
+    }
+
+    const start = Math.max(0, first - overscan);
+    const end = Math.min(count, last + overscan);
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [count, overscan, rowHeight, offsetOf]);
+
+  const scheduleUpdate = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = window.requestAnimationFrame(() => {
+      frameRef.current = null;
+      update();
+    });
+  }, [update]);
+
+  // Record a row's rendered height; a change moves the rows after it
+  const recordHeight = useCallback((element: HTMLElement) => {
+    const index = Number(element.dataset.index);
+    if (Number.isNaN(index)) return;
+    const height = element.offsetHeight;
+    if (height > 0 && heightsRef.current[index] !== height) {
+      heightsRef.current[index] = height;
+      scheduleUpdate();
+    }
+  }, [scheduleUpdate]);
+
+  // Rows change height after mounting, e.g. once a photo loads
+  useEffect(() => {
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(entries => {
+      entries.forEach(entry => recordHeight(entry.target as HTMLElement));
+    });
+    observerRef.current = observer;
+    observedRef.current.forEach(element => observer.observe(element));
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [recordHeight]);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    recordHeight(element);
+    if (!observedRef.current.has(element)) {
+      observedRef.current.add(element);
+      observerRef.current?.observe(element);
+    }
+  }, [recordHeight]);
+
+  // Stop observing rows that have scrolled out and been unmounted
+  useLayoutEffect(() => {
+    observedRef.current.forEach(element => {
+      if (!element.isConnected) {
+        observedRef.current.delete(element);
+        observerRef.current?.unobserve(element);
+      }
+    });
+  });
+
+  useLayoutEffect(() => {
+    // Rows past the end belong to an earlier, longer list
+    heightsRef.current.length = Math.min(heightsRef.current.length, count);
+    update();
+  }, [count, update]);
+
+  useEffect(() => {
+    window.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    return () => {
+      window.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+      if (frameRef.current !== null) {
+        window.cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [scheduleUpdate]);
+
+  // Where the viewport is now, to pass to `scrollToAnchor` when the list is shown again
+  const getAnchor = useCallback((): ScrollAnchor => anchorRef.current, []);
+
+  // Scroll the page so the viewport sits where it did when the anchor was taken
+  const scrollToAnchor = useCallback((anchor: ScrollAnchor) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const containerTop = container.getBoundingClientRect().top + window.scrollY;
+    const index = Math.min(anchor.index, Math.max(0, count - 1));
+    window.scrollTo(0, Math.max(0, containerTop + offsetOf(index) + anchor.offset));
+    update();
+  }, [count, offsetOf, update]);
+
+  return {
+    containerRef,
+    range,
+    // Space held for the rows above and below those rendered
+    paddingTop: offsetOf(range.start),
+    paddingBottom: Math.max(0, offsetOf(count) - offsetOf(range.end)),
+    measureElement,
+    getAnchor,
+    scrollToAnchor
+  };
+};
+
+export default useVirtualRows;
+export type { ScrollAnchor };
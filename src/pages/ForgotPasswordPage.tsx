@@ -0,0 +1,16 @@
+import React from 'react';
+import { Container } from '@mui/material';
+import ForgotPasswordForm from '../components/auth/ForgotPasswordForm';
+import Layout from '../components/layout/Layout';
+
+const ForgotPasswordPage: React.FC = () => {
+  return (
+    <Layout>
+      <Container maxWidth="sm" sx={{ py: 8 }}>
+        <ForgotPasswordForm />
+      </Container>
+    </Layout>
+  );
+};
+
+export default ForgotPasswordPage;
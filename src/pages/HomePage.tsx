@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Container, 
   Grid, 
@@ -20,11 +20,12 @@ import {
 import { Add as AddIcon, Map as MapIcon, List as ListIcon, Refresh as RefreshIcon } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import IssueList from '../components/issues/IssueList';
-import IssueMap from '../components/map/IssueMap';
+import IssueMap, { MAP_ISSUE_LIMIT } from '../components/map/IssueMap';
 import Layout from '../components/layout/Layout';
 import { Issue, IssueCategory } from '../types';
-import issueService from '../services/issueService';
-import { useAuth, useTheme, useApi } from '../hooks';
+import issueService, { IssueFilterParams } from '../services/issueService';
+import { useAuth, useTheme, useFiltering } from '../hooks';
+import { ApiErrorResponse, extractErrorMessage } from '../utils/apiErrorHandler';
 
 const HomePage: React.FC = () => {
   const { theme } = useTheme();
@@ -37,35 +38,60 @@ const HomePage: React.FC = () => {
   // Get user's current location
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
 
-  // State for search functionality
-  const [searchTerm, setSearchTerm] = useState<string>('');
-  const [searchCategory, setSearchCategory] = useState<string>('all');
-  
-  // Use our custom hook for API calls
-  const { 
-    data: issues = [], 
-    loading, 
-    error,
-    execute: fetchIssues
-  } = useApi(issueService.getAllIssues, { immediate: true });
-  
-  // Filtered issues based on search term and category
-  const filteredIssues = React.useMemo(() => {
-    if (!searchTerm && searchCategory === 'all') return issues;
-    
-    return issues?.filter(issue => {
-      const matchesTerm = searchTerm ? 
-        issue.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
-        issue.description.toLowerCase().includes(searchTerm.toLowerCase()) : 
-        true;
-        
-      const matchesCategory = searchCategory !== 'all' ? 
-        issue.category === searchCategory : 
-        true;
-        
-      return matchesTerm && matchesCategory;
-    });
-  }, [issues, searchTerm, searchCategory]);
+  // Search and category, filtered by the backend; the search is sent once typing pauses
+  const { filters, debouncedFilters, setFilter } = useFiltering({
+    serverSide: true,
+    initialFilters: { searchTerm: '', category: 'all' },
+    textFilters: ['searchTerm']
+  });
+  const searchTerm = String(filters.searchTerm || '');
+  const searchCategory = String(filters.category || 'all');
+
+  // Filters shared by the list and the map
+  const issueFilters = useMemo<IssueFilterParams>(() => ({
+    search: debouncedFilters.searchTerm ? String(debouncedFilters.searchTerm) : undefined,
+    category: debouncedFilters.category !== 'all' ? debouncedFilters.category as IssueCategory : undefined
+  }), [debouncedFilters]);
+
+  // Issues shown on the map, with how many matched in all; the list loads its own pages
+  const [filteredIssues, setFilteredIssues] = useState<Issue[]>([]);
+  const [mapTotal, setMapTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiErrorResponse | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  // On small screens the map is a tab of its own
+  const mapVisible = !isMobile || viewMode === 'map';
+
+  useEffect(() => {
+    if (!mapVisible) return;
+
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    // Newest first, so a capped map keeps the most recent issues
+    issueService.getAllMatchingIssues(
+      { ...issueFilters, sort: 'reportedAt', order: 'desc' },
+      { signal: controller.signal, maxIssues: MAP_ISSUE_LIMIT }
+    )
+      .then(result => {
+        if (!controller.signal.aborted) {
+          setFilteredIssues(result.issues);
+          setMapTotal(result.total);
+          setLoading(false);
+        }
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(extractErrorMessage(err));
+          setLoading(false);
+        }
+      });
+
+    // A newer search supersedes this one
+    return () => controller.abort();
+  }, [issueFilters, refreshCount, mapVisible]);
 
   useEffect(() => {
     // Get user's current location
@@ -93,18 +119,18 @@ const HomePage: React.FC = () => {
   
   // Handle search input change
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(event.target.value);
+    setFilter('searchTerm', event.target.value);
   };
   
   // Handle category filter change
   const handleCategoryChange = (event: React.ChangeEvent<{ value: unknown }>) => {
-    setSearchCategory(event.target.value as string);
+    setFilter('category', event.target.value as string);
   };
   
   // Refresh issues
   const handleRefresh = () => {
     console.log('Refreshing issues...');
-    fetchIssues();
+    setRefreshCount(count => count + 1);
   };
 
   const handleReportIssue = () => {
@@ -211,58 +237,67 @@ const HomePage: React.FC = () => {
           </Paper>
         )}
         
-        {loading ? (
-          <Box sx={{ display: 'flex', justifyContent: 'center', my: 8 }}>
-            <CircularProgress size={60} />
-          </Box>
-        ) : error ? (
+        {error && (
           <Alert severity="error" sx={{ mb: 3 }}>
-          {error?.message || 'An error occurred'}
-        </Alert>
-        ) : (
-          <Grid container spacing={4}>
-            {(!isMobile || viewMode === 'list') && (
-              <Grid item xs={12} md={6} lg={5} xl={4}>
-                <IssueList 
-                  issues={filteredIssues || []} 
-                  loading={false} 
-                  error={null} 
-                />
-              </Grid>
-            )}
-            
-            {(!isMobile || viewMode === 'map') && (
-              <Grid item xs={12} md={6} lg={7} xl={8}>
-                <Paper 
-                  elevation={3} 
-                  sx={{ 
-                    borderRadius: 2, 
-                    overflow: 'hidden',
-                    height: { xs: 'calc(100vh - 300px)', md: 'calc(100vh - 200px)' },
-                    minHeight: '500px'
-                  }}
-                >
+            {error?.message || 'An error occurred'}
+          </Alert>
+        )}
+
+        <Grid container spacing={4}>
+          {(!isMobile || viewMode === 'list') && (
+            <Grid item xs={12} md={6} lg={5} xl={4}>
+              <IssueList 
+                serverSide
+                infiniteScroll
+                restoreKey="home"
+                baseFilters={issueFilters}
+                refreshKey={refreshCount}
+              />
+            </Grid>
+          )}
+          
+          {mapVisible && (
+            <Grid item xs={12} md={6} lg={7} xl={8}>
+              {mapTotal > filteredIssues.length && (
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                  The map shows the newest {filteredIssues.length} of {mapTotal} matching issues. Narrow the search to see the rest.
+                </Typography>
+              )}
+              <Paper 
+                elevation={3} 
+                sx={{ 
+                  borderRadius: 2, 
+                  overflow: 'hidden',
+                  height: { xs: 'calc(100vh - 300px)', md: 'calc(100vh - 200px)' },
+                  minHeight: '500px'
+                }}
+              >
+                {loading && filteredIssues.length === 0 ? (
+                  <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+                    <CircularProgress size={60} />
+                  </Box>
+                ) : (
                   <IssueMap 
-                    issues={Array.isArray(filteredIssues) ? filteredIssues : []} 
+                    issues={filteredIssues} 
                     center={userLocation || [40.7128, -74.0060]} 
                     zoom={12} 
                     height="100%"
                   />
-                </Paper>
-              </Grid>
-            )}
-            
-            {filteredIssues?.length === 0 && !loading && (
-              <Grid item xs={12}>
-                <Paper sx={{ p: 3, textAlign: 'center', borderRadius: 2 }}>
-                  <Typography variant="body1" color="text.secondary">
-                    No issues found matching your search criteria.
-                  </Typography>
-                </Paper>
-              </Grid>
-            )}
-          </Grid>
-        )}
+                )}
+              </Paper>
+            </Grid>
+          )}
+          
+          {mapVisible && filteredIssues.length === 0 && !loading && !error && (
+            <Grid item xs={12}>
+              <Paper sx={{ p: 3, textAlign: 'center', borderRadius: 2 }}>
+                <Typography variant="body1" color="text.secondary">
+                  No issues found matching your search criteria.
+                </Typography>
+              </Paper>
+            </Grid>
+          )}
+        </Grid>
         
         {!isAuthenticated && (
           <Paper 
@@ -300,7 +335,7 @@ const HomePage: React.FC = () => {
           </Paper>
         )}
         
-        {isAuthenticated && filteredIssues?.length === 0 && !loading && !error && (
+        {isAuthenticated && mapVisible && filteredIssues.length === 0 && !loading && !error && (
           <Paper 
             elevation={3} 
             sx={{ 
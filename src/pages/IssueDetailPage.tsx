@@ -1,22 +1,29 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { Container, Box, Alert, Snackbar } from '@mui/material';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { Container, Box, Alert, Button, Snackbar } from '@mui/material';
 import IssueDetail from '../components/issues/IssueDetail';
 import { Issue, IssueStatus } from '../types';
 import issueService from '../services/issueService';
 import statusRequestService from '../services/statusRequestService';
 import Layout from '../components/layout/Layout';
 import { useAuth } from '../hooks/useAuth';
+import { can } from '../utils/permissions';
+
+// Router state set when a merged issue redirects to its canonical issue
+interface MergeRedirectState {
+  mergedFrom?: { id: string; title: string };
+}
 
 const IssueDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
+  const mergedFrom = (location.state as MergeRedirectState | null)?.mergedFrom;
   const { user } = useAuth();
   
   const [issue, setIssue] = useState<Issue | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [isAdmin, setIsAdmin] = useState<boolean>(false);
   const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({ 
     open: false, 
     message: '', 
@@ -33,10 +40,16 @@ const IssueDetailPage: React.FC = () => {
 
       try {
         const data = await issueService.getIssueById(id);
+        // Merged issues live on in their canonical issue; only those who merge issues stay to inspect the original
+        if (data.mergedInto && !can(user, 'issue:merge')) {
+          navigate(`/issues/${data.mergedInto}`, {
+            replace: true,
+            state: { mergedFrom: { id: data.id, title: data.title } }
+          });
+          return;
+        }
+
         setIssue(data);
-        
-        // Determine admin from auth context
-        setIsAdmin(user?.role === 'admin' || user?.isAdmin === true);
       } catch (err) {
         console.error('Error fetching issue:', err);
         setError('Failed to load issue details. Please try again later.');
@@ -46,7 +59,7 @@ const IssueDetailPage: React.FC = () => {
     };
 
     fetchIssue();
-  }, [id, user]);
+  }, [id, user, navigate]);
 
   const handleStatusUpdate = async (issueId: string, status: IssueStatus, comment: string) => {
     try {
@@ -99,6 +112,27 @@ const IssueDetailPage: React.FC = () => {
   return (
     <Layout>
       <Container maxWidth="lg" sx={{ py: 4 }}>
+        {issue && mergedFrom && mergedFrom.id !== issue.id && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            "{mergedFrom.title}" was reported more than once and has been merged into this issue.
+          </Alert>
+        )}
+
+        {issue?.mergedInto && (
+          <Alert
+            severity="warning"
+            sx={{ mb: 3 }}
+            action={
+              <Button color="inherit" size="small" onClick={() => navigate(`/issues/${issue.mergedInto}`)}>
+                View canonical issue
+              </Button>
+            }
+          >
+            This issue was merged into another issue
+            {issue.mergedAt ? ` on ${new Date(issue.mergedAt).toLocaleDateString()}` : ''} and is closed.
+          </Alert>
+        )}
+
         {issue ? (
           <IssueDetail 
             issue={issue}
@@ -107,7 +141,6 @@ const IssueDetailPage: React.FC = () => {
             onStatusUpdate={handleStatusUpdate}
             onFlagIssue={handleFlagIssue}
             onRequestStatusChange={handleRequestStatusChange}
-            isAdmin={isAdmin}
           />
         ) : (
           <Box sx={{ py: 4 }}>
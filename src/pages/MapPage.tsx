@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Box, Paper, Typography, Chip, CircularProgress, Alert, Button, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Place as PlaceIcon,
+  Whatshot as HeatmapIcon,
+  GridOn as HotspotsIcon
+} from '@mui/icons-material';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import IssueMap, { MapLayer, MAP_LAYERS, MAP_ISSUE_LIMIT } from '../components/map/IssueMap';
+import HotspotPanel from '../components/map/HotspotPanel';
+import Layout from '../components/layout/Layout';
+import { Issue, IssueCategory, IssueStatus } from '../types';
+import issueService, { IssueFilterParams } from '../services/issueService';
+import { ApiErrorResponse, extractErrorMessage } from '../utils/apiErrorHandler';
+import { getHotspotCellId, HOTSPOT_THRESHOLD } from '../utils/mapHotspots';
+
+const DEFAULT_CENTER: [number, number] = [40.7128, -74.0060]; // New York City, same default as the home page
+const DEFAULT_ZOOM = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Time windows for the `since` filter, by how many days back they reach
+const TIME_WINDOWS: { value: string; label: string; days: number }[] = [
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+  { value: '1y', label: 'Last year', days: 365 }
+];
+
+// Read a comma-separated list from the query string, keeping only known enum values
+const parseList = <T extends string>(value: string | null, allowed: T[]): T[] => {
+  if (!value) return [];
+  return value.split(',').filter((item): item is T => allowed.includes(item as T));
+};
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Local calendar date as the backend's YYYY-MM-DD
+const toDateParam = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const MapPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedCellId, setSelectedCellId] = useState<string | null>(null);
+
+  const [issues, setIssues] = useState<Issue[] | null>(null);
+  const [totalIssues, setTotalIssues] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiErrorResponse | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Map view and filters live in the URL so a shared link reopens the same view
+  const lat = parseNumber(searchParams.get('lat'));
+  const lng = parseNumber(searchParams.get('lng'));
+  const zoom = parseNumber(searchParams.get('zoom'));
+  const center: [number, number] = lat !== null && lng !== null ? [lat, lng] : DEFAULT_CENTER;
+  const statusParam = searchParams.get('status');
+  const categoryParam = searchParams.get('category');
+  const selectedStatuses = parseList(statusParam, Object.values(IssueStatus));
+  const selectedCategories = parseList(categoryParam, Object.values(IssueCategory));
+  const layer = parseList(searchParams.get('layer'), MAP_LAYERS)[0] || 'markers';
+  const timeWindow = TIME_WINDOWS.find(option => option.value === searchParams.get('since')) || null;
+
+  const updateParams = useCallback((changes: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null || value === '') {
+          next.delete(key);
+        } else {
+          next.set(key, value);
+        }
+      });
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const handleViewChange = useCallback((newCenter: [number, number], newZoom: number) => {
+    const nextLat = newCenter[0].toFixed(5);
+    const nextLng = newCenter[1].toFixed(5);
+    const nextZoom = String(newZoom);
+
+    if (searchParams.get('lat') === nextLat && searchParams.get('lng') === nextLng && searchParams.get('zoom') === nextZoom) {
+      return;
+    }
+    updateParams({ lat: nextLat, lng: nextLng, zoom: nextZoom });
+  }, [searchParams, updateParams]);
+
+  const toggleFilter = <T extends string>(key: 'status' | 'category', selected: T[], value: T) => {
+    const next = selected.includes(value)
+      ? selected.filter(item => item !== value)
+      : [...selected, value];
+    updateParams({ [key]: next.join(',') });
+  };
+
+  const handleClearFilters = () => {
+    updateParams({ status: null, category: null, since: null });
+  };
+
+  const handleLayerChange = (_event: React.MouseEvent<HTMLElement>, value: MapLayer | null) => {
+    if (!value) return;
+    setSelectedCellId(null);
+    updateParams({ layer: value === 'markers' ? null : value });
+  };
+
+  // Filters go to the backend so density and hotspot counts cover every match, not just the first page.
+  // Keyed on the raw params, as the parsed lists are new arrays on every render
+  const issueFilters = useMemo<IssueFilterParams>(() => ({
+    statuses: parseList(statusParam, Object.values(IssueStatus)),
+    categories: parseList(categoryParam, Object.values(IssueCategory)),
+    reportedFrom: timeWindow ? toDateParam(new Date(Date.now() - timeWindow.days * DAY_MS)) : undefined,
+    // Newest first, so a capped result keeps the most recent issues
+    sort: 'reportedAt',
+    order: 'desc'
+  }), [statusParam, categoryParam, timeWindow]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    issueService.getAllMatchingIssues(issueFilters, { signal: controller.signal, maxIssues: MAP_ISSUE_LIMIT })
+      .then(result => {
+        if (!controller.signal.aborted) {
+          setIssues(result.issues);
+          setTotalIssues(result.total);
+          setLoading(false);
+        }
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(extractErrorMessage(err));
+          setLoading(false);
+        }
+      });
+
+    // A filter change supersedes this load
+    return () => controller.abort();
+  }, [issueFilters, reloadCount]);
+
+  const mapIssues = useMemo(() => issues || [], [issues]);
+  const capped = !!issues && totalIssues > issues.length;
+
+  // Re-derived from the loaded issues so the panel follows filter changes
+  const selectedCellIssues = useMemo(() => {
+    if (!selectedCellId) return [];
+    return mapIssues.filter(issue => getHotspotCellId(issue.location) === selectedCellId);
+  }, [mapIssues, selectedCellId]);
+
+  const showHotspotPanel = layer === 'hotspots' && selectedCellId !== null;
+
+  return (
+    <Layout fullBleed>
+      <Box sx={{ position: 'relative', flexGrow: 1, height: 'calc(100vh - 64px)', minHeight: 400 }}>
+        {loading && !issues ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+            <CircularProgress size={60} />
+          </Box>
+        ) : (
+          <IssueMap
+            issues={mapIssues}
+            center={center}
+            zoom={zoom ?? DEFAULT_ZOOM}
+            height="100%"
+            cluster
+            onViewChange={handleViewChange}
+            layer={layer}
+            selectedHotspotId={showHotspotPanel ? selectedCellId : null}
+            onHotspotClick={(cell) => setSelectedCellId(cell.id)}
+          />
+        )}
+
+        {showHotspotPanel && (
+          <Box
+            sx={{
+              position: 'absolute',
+              top: { xs: 'auto', md: 16 },
+              bottom: 16,
+              right: 16,
+              zIndex: 1000,
+              width: { xs: 'calc(100% - 32px)', md: 340 },
+              maxHeight: { xs: '45%', md: 'calc(100% - 32px)' },
+              display: 'flex',
+              flexDirection: 'column',
+              justifyContent: { xs: 'flex-end', md: 'flex-start' }
+            }}
+          >
+            <HotspotPanel
+              issues={selectedCellIssues}
+              onClose={() => setSelectedCellId(null)}
+              onIssueClick={(issue) => navigate(`/issues/${issue.id}`)}
+            />
+          </Box>
+        )}
+
+        <Paper
+          elevation={3}
+          sx={{
+            position: 'absolute',
+            top: 16,
+            left: { xs: 16, sm: 64 },
+            right: { xs: 16, md: showHotspotPanel ? 372 : 16 },
+            zIndex: 1000,
+            p: 2,
+            maxWidth: 720,
+            backgroundColor: 'rgba(30, 30, 30, 0.92)'
+          }}
+        >
+          {error && (
+            <Alert
+              severity="error"
+              sx={{ mb: 2 }}
+              action={
+                <Button color="inherit" size="small" startIcon={<RefreshIcon />} onClick={() => setReloadCount(count => count + 1)}>
+                  Retry
+                </Button>
+              }
+            >
+              {error.message || 'Failed to load issues'}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+            <Typography variant="subtitle2">
+              {loading && issues ? 'Loading issues...' : capped
+                ? `Showing the newest ${mapIssues.length} of ${totalIssues} issues`
+                : `Showing ${mapIssues.length} issues`}
+            </Typography>
+            {(selectedStatuses.length > 0 || selectedCategories.length > 0 || timeWindow) && (
+              <Button size="small" onClick={handleClearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </Box>
+
+          {capped && !loading && (
+            <Typography variant="caption" color="warning.main" sx={{ display: 'block', mb: 1 }}>
+              The map shows at most {MAP_ISSUE_LIMIT} issues, so the heatmap and hotspots leave the rest out. Narrow the filters to include them.
+            </Typography>
+          )}
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+            {Object.values(IssueStatus).map((status) => (
+              <Chip
+                key={status}
+                label={status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
+                size="small"
+                color={selectedStatuses.includes(status) ? 'primary' : 'default'}
+                variant={selectedStatuses.includes(status) ? 'filled' : 'outlined'}
+                onClick={() => toggleFilter('status', selectedStatuses, status)}
+              />
+            ))}
+          </Box>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+            {Object.values(IssueCategory).map((category) => (
+              <Chip
+                key={category}
+                label={category.charAt(0).toUpperCase() + category.slice(1)}
+                size="small"
+                color={selectedCategories.includes(category) ? 'secondary' : 'default'}
+                variant={selectedCategories.includes(category) ? 'filled' : 'outlined'}
+                onClick={() => toggleFilter('category', selectedCategories, category)}
+              />
+            ))}
+          </Box>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1.5 }}>
+            {TIME_WINDOWS.map((option) => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                size="small"
+                color={timeWindow?.value === option.value ? 'info' : 'default'}
+                variant={timeWindow?.value === option.value ? 'filled' : 'outlined'}
+                onClick={() => updateParams({ since: timeWindow?.value === option.value ? null : option.value })}
+              />
+            ))}
+          </Box>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+            <ToggleButtonGroup
+              value={layer}
+              exclusive
+              size="small"
+              onChange={handleLayerChange}
+              aria-label="map layer"
+            >
+              <ToggleButton value="markers" aria-label="pins">
+                <PlaceIcon fontSize="small" sx={{ mr: 0.5 }} /> Pins
+              </ToggleButton>
+              <ToggleButton value="heatmap" aria-label="heatmap">
+                <HeatmapIcon fontSize="small" sx={{ mr: 0.5 }} /> Heatmap
+              </ToggleButton>
+              <ToggleButton value="hotspots" aria-label="hotspots">
+                <HotspotsIcon fontSize="small" sx={{ mr: 0.5 }} /> Hotspots
+              </ToggleButton>
+            </ToggleButtonGroup>
+            {layer === 'hotspots' && (
+              <Typography variant="caption" color="text.secondary">
+                Areas with {HOTSPOT_THRESHOLD}+ issues are highlighted. Click an area to list its issues.
+              </Typography>
+            )}
+          </Box>
+        </Paper>
+      </Box>
+    </Layout>
+  );
+};
+
+export default MapPage;
@@ -21,7 +21,11 @@ import {
   DialogActions,
   TextField,
   IconButton,
-  Snackbar
+  Snackbar,
+  Chip,
+  List,
+  ListItem,
+  ListItemText
 } from '@mui/material';
 import {
   Person as PersonIcon,
@@ -30,7 +34,10 @@ import {
   History as HistoryIcon,
   Bookmark as BookmarkIcon,
   Close as CloseIcon,
-  Save as SaveIcon
+  Save as SaveIcon,
+  CloudUpload as CloudUploadIcon,
+  Sync as SyncIcon,
+  Delete as DeleteIcon
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import IssueList from '../components/issues/IssueList';
@@ -39,6 +46,8 @@ import { Issue, User } from '../types';
 import authService from '../services/authService';
 import issueService from '../services/issueService';
 import api from '../services/api';
+import { useOutbox } from '../hooks';
+import { isOnline } from '../utils/networkUtils';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -95,6 +104,7 @@ const ProfilePage: React.FC = () => {
     message: '', 
     severity: 'success' 
   });
+  const { entries: pendingEntries, pendingCount, syncing, sync, retry, discard } = useOutbox(user?.id);
 
   useEffect(() => {
     const fetchUserData = async () => {
@@ -191,6 +201,59 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleSyncNow = async () => {
+    try {
+      const result = await sync();
+      if (!result) return;
+
+      if (result.synced.length > 0) {
+        // Refresh the issue list so the newly sent reports show up
+        setUserIssues(await issueService.getIssuesByUser());
+      }
+      setSnackbar({
+        open: true,
+        message: result.remaining > 0
+          ? 'Syncing stopped. Remaining reports will be sent when you are back online and signed in.'
+          : `Synced ${result.synced.length} report(s)${result.failed.length > 0 ? `, ${result.failed.length} failed` : ''}`,
+        severity: result.failed.length > 0 || result.remaining > 0 ? 'error' : 'success'
+      });
+    } catch (error: any) {
+      console.error('Error syncing offline reports:', error);
+      setSnackbar({ open: true, message: 'Failed to sync offline reports. Please try again.', severity: 'error' });
+    }
+  };
+
+  const handleRetryPending = async (id: number) => {
+    try {
+      const result = await retry(id);
+      if (!result) return;
+
+      if (result.synced.length > 0) {
+        setUserIssues(await issueService.getIssuesByUser());
+      }
+      setSnackbar({
+        open: true,
+        message: result.synced.length > 0
+          ? 'Report sent'
+          : result.remaining > 0
+            ? 'Not sent. Try again when you are back online and signed in.'
+            : 'The report was rejected again',
+        severity: result.synced.length > 0 ? 'success' : 'error'
+      });
+    } catch (error: any) {
+      console.error('Error retrying offline report:', error);
+      setSnackbar({ open: true, message: 'Failed to send the report. Please try again.', severity: 'error' });
+    }
+  };
+
+  const handleDiscardPending = async (id: number) => {
+    try {
+      await discard(id);
+    } catch (error) {
+      console.error('Error discarding offline report:', error);
+    }
+  };
+
   const handleCloseSnackbar = () => {
     setSnackbar({ ...snackbar, open: false });
   };
@@ -274,6 +337,21 @@ const ProfilePage: React.FC = () => {
                   {userIssues.length}
                 </Typography>
               </Box>
+
+              {pendingCount > 0 && (
+                <Box sx={{ mb: 3 }}>
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    Pending Sync
+                  </Typography>
+                  <Chip
+                    icon={<CloudUploadIcon />}
+                    label={`${pendingCount} report${pendingCount === 1 ? '' : 's'} waiting`}
+                    color="warning"
+                    size="small"
+                    onClick={() => setTabValue(2)}
+                  />
+                </Box>
+              )}
               
               <Button
                 variant="outlined"
@@ -325,6 +403,12 @@ const ProfilePage: React.FC = () => {
                     label="Saved Issues" 
                     {...a11yProps(1)} 
                   />
+                  <Tab 
+                    icon={<CloudUploadIcon />} 
+                    iconPosition="start" 
+                    label={pendingCount > 0 ? `Pending Sync (${pendingCount})` : 'Pending Sync'} 
+                    {...a11yProps(2)} 
+                  />
                 </Tabs>
               </Box>
               
@@ -383,6 +467,81 @@ const ProfilePage: React.FC = () => {
                   </Button>
                 </Box>
               </TabPanel>
+
+              <TabPanel value={tabValue} index={2}>
+                {pendingEntries.length > 0 ? (
+                  <Box sx={{ px: 3 }}>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        These reports were saved on this device while you were offline and will be sent in order when your connection returns.
+                      </Typography>
+                      <Button
+                        variant="outlined"
+                        startIcon={syncing ? <CircularProgress size={20} /> : <SyncIcon />}
+                        onClick={handleSyncNow}
+                        disabled={syncing || !isOnline()}
+                        sx={{ ml: 2, flexShrink: 0 }}
+                      >
+                        {syncing ? 'Syncing...' : 'Sync Now'}
+                      </Button>
+                    </Box>
+                    <List>
+                      {pendingEntries.map((entry) => (
+                        <ListItem
+                          key={entry.id}
+                          divider
+                          secondaryAction={
+                            <>
+                              {entry.lastError && (
+                                <Button
+                                  size="small"
+                                  onClick={() => handleRetryPending(entry.id)}
+                                  disabled={syncing || !isOnline()}
+                                  sx={{ mr: 1 }}
+                                >
+                                  Retry
+                                </Button>
+                              )}
+                              <IconButton
+                                edge="end"
+                                aria-label="discard report"
+                                onClick={() => handleDiscardPending(entry.id)}
+                                disabled={syncing}
+                              >
+                                <DeleteIcon />
+                              </IconButton>
+                            </>
+                          }
+                        >
+                          <ListItemText
+                            primary={entry.data.title}
+                            secondary={
+                              <>
+                                {entry.data.category} · saved {new Date(entry.createdAt).toLocaleString()}
+                                {entry.data.photos && entry.data.photos.length > 0 && ` · ${entry.data.photos.length} photo(s)`}
+                                {entry.lastError && (
+                                  <Typography component="span" variant="body2" color="error" sx={{ display: 'block' }}>
+                                    Not sent: {entry.lastError} (retry or discard it; it won't be sent automatically)
+                                  </Typography>
+                                )}
+                              </>
+                            }
+                          />
+                        </ListItem>
+                      ))}
+                    </List>
+                  </Box>
+                ) : (
+                  <Box sx={{ textAlign: 'center', py: 4 }}>
+                    <Typography variant="h6" gutterBottom>
+                      Everything Is Synced
+                    </Typography>
+                    <Typography variant="body1" color="text.secondary">
+                      Reports you submit while offline will wait here until they can be sent.
+                    </Typography>
+                  </Box>
+                )}
+              </TabPanel>
             </Paper>
           </Grid>
         </Grid>
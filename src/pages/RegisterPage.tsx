@@ -1,13 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Container, Box, Paper, Typography, useMediaQuery, useTheme } from '@mui/material';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import RegisterForm from '../components/auth/RegisterForm';
 import Layout from '../components/layout/Layout';
 import authService from '../services/authService';
+import { getReturnTarget } from '../utils/authRedirect';
 
 const RegisterPage: React.FC = () => {
   const theme = useTheme();
   const navigate = useNavigate();
+  const location = useLocation();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
 
@@ -18,9 +20,10 @@ const RegisterPage: React.FC = () => {
         const auth = await authService.isAuthenticated();
         setIsAuthenticated(auth);
         
-        // Redirect to home if already authenticated
+        // Go straight to where the user was headed if already authenticated
         if (auth) {
-          navigate('/');
+          const target = getReturnTarget(location);
+          navigate(target.path, { replace: true, state: target.state });
         }
       } catch (error) {
         console.error('Error checking authentication:', error);
@@ -29,7 +32,7 @@ const RegisterPage: React.FC = () => {
     };
 
     checkAuth();
-  }, [navigate]);
+  }, [navigate, location]);
 
   // If already authenticated, don't render the registration form
   if (isAuthenticated) {
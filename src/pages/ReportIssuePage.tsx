@@ -1,12 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { Container, Box, Typography, Alert, Button } from '@mui/material';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import IssueForm from '../components/issues/IssueForm';
 import Layout from '../components/layout/Layout';
 import authService from '../services/authService';
+import { needsEmailVerification } from '../utils/permissions';
+import { useAuth } from '../hooks/useAuth';
 
 const ReportIssuePage: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(true);
 
@@ -46,14 +50,14 @@ const ReportIssuePage: React.FC = () => {
           </Alert>
           <Button 
             variant="contained" 
-            onClick={() => navigate('/login')}
+            onClick={() => navigate('/login', { state: { from: location } })}
             sx={{ mr: 2 }}
           >
             Login
           </Button>
           <Button 
             variant="outlined" 
-            onClick={() => navigate('/register')}
+            onClick={() => navigate('/register', { state: { from: location } })}
           >
             Register
           </Button>
@@ -74,7 +78,14 @@ const ReportIssuePage: React.FC = () => {
           </Typography>
         </Box>
         
-        <IssueForm />
+        {needsEmailVerification(user) ? (
+          <Alert severity="info">
+            Please verify your email address before reporting issues. Use the link in the verification
+            email we sent to {user?.email}, or resend it from the banner above.
+          </Alert>
+        ) : (
+          <IssueForm />
+        )}
       </Container>
     </Layout>
   );
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Container } from '@mui/material';
+import { useSearchParams } from 'react-router-dom';
+import ResetPasswordForm from '../components/auth/ResetPasswordForm';
+import Layout from '../components/layout/Layout';
+
+const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+
+  return (
+    <Layout>
+      <Container maxWidth="sm" sx={{ py: 8 }}>
+        <ResetPasswordForm token={searchParams.get('token')} />
+      </Container>
+    </Layout>
+  );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Chip,
+  OutlinedInput,
+  FormControlLabel,
+  Switch,
+  Pagination,
+  CircularProgress,
+  Alert,
+  InputAdornment,
+  SelectChangeEvent
+} from '@mui/material';
+import { Search as SearchIcon, Clear as ClearIcon } from '@mui/icons-material';
+import { useSearchParams } from 'react-router-dom';
+import IssueCard from '../components/issues/IssueCard';
+import Layout from '../components/layout/Layout';
+import { IssueCategory, IssueStatus } from '../types';
+import issueService, { IssueFilterParams } from '../services/issueService';
+import { useApi } from '../hooks';
+
+const PAGE_SIZE = 9;
+
+interface SearchFormState {
+  search: string;
+  statuses: IssueStatus[];
+  categories: IssueCategory[];
+  reportedFrom: string;
+  reportedTo: string;
+  reportedBy: string;
+  hasPhotos: boolean;
+  isFlagged: boolean;
+}
+
+// Read a comma-separated list from the query string, keeping only known enum values
+const parseList = <T extends string>(value: string | null, allowed: T[]): T[] => {
+  if (!value) return [];
+  return value.split(',').filter((item): item is T => allowed.includes(item as T));
+};
+
+// The URL is the source of truth for the search; the form is a draft of it
+const formFromParams = (params: URLSearchParams): SearchFormState => ({
+  search: params.get('q') || '',
+  statuses: parseList(params.get('status'), Object.values(IssueStatus)),
+  categories: parseList(params.get('category'), Object.values(IssueCategory)),
+  reportedFrom: params.get('from') || '',
+  reportedTo: params.get('to') || '',
+  reportedBy: params.get('reporter') || '',
+  hasPhotos: params.get('photos') === '1',
+  isFlagged: params.get('flagged') === '1'
+});
+
+const paramsFromForm = (form: SearchFormState, page: number): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (form.search.trim()) params.set('q', form.search.trim());
+  if (form.statuses.length > 0) params.set('status', form.statuses.join(','));
+  if (form.categories.length > 0) params.set('category', form.categories.join(','));
+  if (form.reportedFrom) params.set('from', form.reportedFrom);
+  if (form.reportedTo) params.set('to', form.reportedTo);
+  if (form.reportedBy.trim()) params.set('reporter', form.reportedBy.trim());
+  if (form.hasPhotos) params.set('photos', '1');
+  if (form.isFlagged) params.set('flagged', '1');
+  if (page > 1) params.set('page', String(page));
+  return params;
+};
+
+const filtersFromForm = (form: SearchFormState, page: number): IssueFilterParams => ({
+  search: form.search.trim() || undefined,
+  statuses: form.statuses,
+  categories: form.categories,
+  reportedFrom: form.reportedFrom || undefined,
+  reportedTo: form.reportedTo || undefined,
+  reportedBy: form.reportedBy.trim() || undefined,
+  hasPhotos: form.hasPhotos || undefined,
+  isFlagged: form.isFlagged || undefined,
+  page,
+  limit: PAGE_SIZE
+});
+
+const formatLabel = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1).replace('_', ' ');
+
+const SearchPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [form, setForm] = useState<SearchFormState>(() => formFromParams(searchParams));
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const {
+    data: results,
+    loading,
+    error,
+    execute: runSearch
+  } = useApi(issueService.searchIssues, { resetOnFetch: false });
+
+  // Re-run the search whenever the URL changes (submit, paging, back/forward navigation).
+  // searchParams keeps its identity until the query string itself changes
+  useEffect(() => {
+    const current = formFromParams(searchParams);
+    setForm(current);
+    runSearch(filtersFromForm(current, page));
+  }, [searchParams, page, runSearch]);
+
+  const handleFieldChange = (field: keyof SearchFormState) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.type === 'checkbox' ? event.target.checked : event.target.value;
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleMultiSelectChange = (field: 'statuses' | 'categories') => (event: SelectChangeEvent<string[]>) => {
+    const { value } = event.target;
+    setForm(prev => ({ ...prev, [field]: typeof value === 'string' ? value.split(',') : value }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setSearchParams(paramsFromForm(form, 1));
+  };
+
+  const handleReset = () => {
+    setSearchParams(new URLSearchParams());
+  };
+
+  const handlePageChange = (event: React.ChangeEvent<unknown>, value: number) => {
+    setSearchParams(paramsFromForm(formFromParams(searchParams), value));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const pagination = results?.pagination;
+
+  return (
+    <Layout>
+      <Container maxWidth="lg" sx={{ py: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Search Issues
+        </Typography>
+
+        <Paper component="form" onSubmit={handleSubmit} sx={{ p: 3, mb: 4, borderRadius: 2 }}>
+          <Grid container spacing={2}>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                label="Keywords"
+                placeholder="Search titles, descriptions and addresses..."
+                value={form.search}
+                onChange={handleFieldChange('search')}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <SearchIcon sx={{ color: '#aaa' }} />
+                    </InputAdornment>
+                  ),
+                }}
+              />
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <FormControl fullWidth>
+                <InputLabel id="search-status-label">Statuses</InputLabel>
+                <Select
+                  labelId="search-status-label"
+                  multiple
+                  value={form.statuses}
+                  onChange={handleMultiSelectChange('statuses')}
+                  input={<OutlinedInput label="Statuses" />}
+                  renderValue={(selected) => (
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                      {selected.map((value) => <Chip key={value} label={formatLabel(value)} size="small" />)}
+                    </Box>
+                  )}
+                >
+                  {Object.values(IssueStatus).map((status) => (
+                    <MenuItem key={status} value={status}>
+                      {formatLabel(status)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <FormControl fullWidth>
+                <InputLabel id="search-category-label">Categories</InputLabel>
+                <Select
+                  labelId="search-category-label"
+                  multiple
+                  value={form.categories}
+                  onChange={handleMultiSelectChange('categories')}
+                  input={<OutlinedInput label="Categories" />}
+                  renderValue={(selected) => (
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                      {selected.map((value) => <Chip key={value} label={formatLabel(value)} size="small" />)}
+                    </Box>
+                  )}
+                >
+                  {Object.values(IssueCategory).map((category) => (
+                    <MenuItem key={category} value={category}>
+                      {formatLabel(category)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+
+            <Grid item xs={12} sm={6} md={3}>
+              <TextField
+                fullWidth
+                type="date"
+                label="Reported from"
+                value={form.reportedFrom}
+                onChange={handleFieldChange('reportedFrom')}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ max: form.reportedTo || undefined }}
+              />
+            </Grid>
+
+            <Grid item xs={12} sm={6} md={3}>
+              <TextField
+                fullWidth
+                type="date"
+                label="Reported to"
+                value={form.reportedTo}
+                onChange={handleFieldChange('reportedTo')}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: form.reportedFrom || undefined }}
+              />
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <TextField
+                fullWidth
+                label="Reporter"
+                placeholder="Username or user ID"
+                value={form.reportedBy}
+                onChange={handleFieldChange('reportedBy')}
+              />
+            </Grid>
+
+            <Grid item xs={12} md={6} sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <FormControlLabel
+                control={<Switch checked={form.hasPhotos} onChange={handleFieldChange('hasPhotos')} />}
+                label="Has photos"
+              />
+              <FormControlLabel
+                control={<Switch checked={form.isFlagged} onChange={handleFieldChange('isFlagged')} />}
+                label="Is flagged"
+              />
+            </Grid>
+
+            <Grid item xs={12} md={6} sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 2 }}>
+              <Button variant="outlined" startIcon={<ClearIcon />} onClick={handleReset}>
+                Reset
+              </Button>
+              <Button
+                type="submit"
+                variant="contained"
+                startIcon={<SearchIcon />}
+                sx={{
+                  backgroundColor: '#4CAF50',
+                  '&:hover': {
+                    backgroundColor: '#388E3C',
+                  },
+                }}
+              >
+                Search
+              </Button>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {error ? (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error.message || 'Search failed. Please try again.'}
+          </Alert>
+        ) : loading && !results ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', my: 8 }}>
+            <CircularProgress size={60} />
+          </Box>
+        ) : results && results.issues.length === 0 ? (
+          <Box sx={{ textAlign: 'center', my: 4 }}>
+            <Typography variant="h6" color="text.secondary">
+              No issues found
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Try broadening your search or removing some filters
+            </Typography>
+          </Box>
+        ) : results ? (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, gap: 2 }}>
+              <Typography variant="subtitle1" color="text.secondary">
+                {pagination
+                  ? `Showing ${(pagination.page - 1) * pagination.limit + 1}–${Math.min(pagination.page * pagination.limit, pagination.total)} of ${pagination.total} issues`
+                  : `${results.issues.length} issues`}
+              </Typography>
+              {loading && <CircularProgress size={20} />}
+            </Box>
+
+            <Grid container spacing={3}>
+              {results.issues.map((issue) => (
+                <Grid item xs={12} sm={6} md={4} key={issue.id}>
+                  <IssueCard issue={issue} />
+                </Grid>
+              ))}
+            </Grid>
+
+            {pagination && pagination.totalPages > 1 && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+                <Pagination
+                  count={pagination.totalPages}
+                  page={pagination.page}
+                  onChange={handlePageChange}
+                  color="primary"
+                  shape="rounded"
+                />
+              </Box>
+            )}
+          </>
+        ) : null}
+      </Container>
+    </Layout>
+  );
+};
+
+export default SearchPage;
@@ -0,0 +1,90 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Container, Paper, Typography, Alert, Button, CircularProgress, Box } from '@mui/material';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import Layout from '../components/layout/Layout';
+import authService from '../services/authService';
+import { useAuth } from '../hooks/useAuth';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmailPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, refreshUser } = useAuth();
+  const token = searchParams.get('token');
+
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(token ? null : 'This verification link is incomplete.');
+  // Tokens are single-use, so make sure a re-render never submits one twice
+  const submittedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    const verify = async () => {
+      try {
+        await authService.verifyEmail(token);
+        setState('verified');
+        await refreshUser();
+      } catch (err: any) {
+        console.error('Email verification failed:', err);
+        setError(err.message || 'This verification link is invalid or has expired.');
+        setState('failed');
+      }
+    };
+
+    verify();
+  }, [token, refreshUser]);
+
+  return (
+    <Layout>
+      <Container maxWidth="sm" sx={{ py: 8 }}>
+        <Paper elevation={3} sx={{ p: 4, backgroundColor: '#000', color: '#fff', borderRadius: 2, textAlign: 'center' }}>
+          <Typography variant="h5" component="h1" gutterBottom>
+            Email Verification
+          </Typography>
+
+          {state === 'verifying' && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 2, py: 2 }}>
+              <CircularProgress size={24} />
+              <Typography>Verifying your email address...</Typography>
+            </Box>
+          )}
+
+          {state === 'verified' && (
+            <Alert severity="success" sx={{ my: 2, textAlign: 'left' }}>
+              Thanks! Your email address has been verified.
+            </Alert>
+          )}
+
+          {state === 'failed' && (
+            <Alert severity="error" sx={{ my: 2, textAlign: 'left' }}>
+              {error} {isAuthenticated
+                ? 'You can request a new link from the banner at the top of the page.'
+                : 'Sign in to request a new link.'}
+            </Alert>
+          )}
+
+          {state !== 'verifying' && (
+            <Button
+              variant="contained"
+              onClick={() => navigate(isAuthenticated ? '/' : '/login')}
+              sx={{
+                mt: 1,
+                backgroundColor: '#4CAF50',
+                '&:hover': {
+                  backgroundColor: '#388E3C',
+                },
+              }}
+            >
+              {isAuthenticated ? 'Continue' : 'Sign In'}
+            </Button>
+          )}
+        </Paper>
+      </Container>
+    </Layout>
+  );
+};
+
+export default VerifyEmailPage;
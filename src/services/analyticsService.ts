@@ -0,0 +1,12 @@
+import api from './api';
+import { IssueAnalytics, IssueAnalyticsFilters } from '../types';
+
+const analyticsService = {
+  // Staff: issue trends and breakdowns for a date range, optionally for one category
+  getIssueAnalytics: async (filters?: IssueAnalyticsFilters): Promise<IssueAnalytics> => {
+    const response = await api.get<IssueAnalytics>(`/analytics/issues`, { params: filters });
+    return response.data;
+  },
+};
+
+export default analyticsService;
@@ -1,16 +1,20 @@
 // Import necessary modules and types
-import { AxiosInstance, AxiosError, AxiosResponse } from 'axios';
-import mockService from './mockService';
+import axios, { AxiosInstance, AxiosError, AxiosResponse } from 'axios';
+import mockApi from './mockApi';
+import tokenService from './tokenService';
 import { extractErrorMessage } from '../utils/apiErrorHandler';
 import { createRetryableAxiosInstance } from '../utils/apiRetry';
+import { getLoginPath } from '../utils/authRedirect';
 
 // Check if we should use mock service
-export const USE_MOCK_SERVICE: boolean = false; // Set to false to use real backend
+export const USE_MOCK_SERVICE: boolean = process.env.REACT_APP_USE_MOCK_SERVICE === 'true'; // Set REACT_APP_USE_MOCK_SERVICE=true to run without the backend
 console.log('Using mock service:', USE_MOCK_SERVICE);
 
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
 // Create a retryable axios instance with default config
 const axiosInstance: AxiosInstance = createRetryableAxiosInstance({
-  baseURL: process.env.REACT_APP_API_URL || 'http://localhost:5000/api',
+  baseURL: API_URL,
   headers: {
     'Content-Type': 'application/json'
   },
@@ -28,10 +32,26 @@ const axiosInstance: AxiosInstance = createRetryableAxiosInstance({
 });
 
 // Add console log to check if API URL is correctly set
-console.log('API URL:', process.env.REACT_APP_API_URL || 'http://localhost:5000/api');
+console.log('API URL:', API_URL);
+
+// Bare client for token refreshes, so they skip the auth interceptors below
+const refreshClient: AxiosInstance = axios.create({
+  baseURL: API_URL,
+  headers: {
+    'Content-Type': 'application/json'
+  },
+  withCredentials: true,
+  timeout: 10000
+});
+
+// Auth endpoints that must never trigger a refresh themselves
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+// The refresh in flight, shared by every request that needs a fresh token meanwhile
+let refreshPromise: Promise<string> | null = null;
 
 // Helper to normalize API responses (unwrap backend { success, message, data })
-const unwrap = <T>(response: AxiosResponse<any, any>): T => {
+const unwrap = <T>(response: Pick<AxiosResponse<any, any>, 'data'>): T => {
   const resData = response?.data;
   // If backend wraps payload as { success, message, data }, return inner data
   if (resData && typeof resData === 'object' && 'data' in resData) {
@@ -41,44 +61,6 @@ const unwrap = <T>(response: AxiosResponse<any, any>): T => {
   return (resData as T);
 };
 
-// Create a mock API adapter with proper type handling
-const mockApi = {
-  get: async <T>(url: string, config?: any): Promise<{ data: T }> => {
-    console.log(`Mock GET request to ${url}`);
-    if (url === '/auth/me') {
-      const user = await mockService.getCurrentUser();
-      return { data: user as T };
-    }
-    throw new Error(`Unhandled mock GET request to ${url}`);
-  },
-  post: async <T>(url: string, data?: any, config?: any): Promise<{ data: T }> => {
-    console.log(`Mock POST request to ${url}`);
-    if (url === '/auth/login') {
-      const response = await mockService.login(data.email, data.password);
-      // mockService returns { token, user }
-      return { data: (response as any) as T };
-    }
-    if (url.startsWith('/issues/') && url.endsWith('/flag')) {
-      const id = url.split('/')[2];
-      const response = await mockService.flagIssue(id, data.reason);
-      return { data: response as T };
-    }
-    throw new Error(`Unhandled mock POST request to ${url}`);
-  },
-  put: async <T>(url: string, data?: any, config?: any): Promise<{ data: T }> => {
-    console.log(`Mock PUT request to ${url}`);
-    throw new Error(`Unhandled mock PUT request to ${url}`);
-  },
-  patch: async <T>(url: string, data?: any, config?: any): Promise<{ data: T }> => {
-    console.log(`Mock PATCH request to ${url}`);
-    throw new Error(`Unhandled mock PATCH request to ${url}`);
-  },
-  delete: async <T>(url: string, config?: any): Promise<{ data: T }> => {
-    console.log(`Mock DELETE request to ${url}`);
-    throw new Error(`Unhandled mock DELETE request to ${url}`);
-  }
-};
-
 // Define the API interface
 interface ApiInterface {
   get: <T>(url: string, config?: any) => Promise<{ data: T }>;
@@ -88,26 +70,72 @@ interface ApiInterface {
   delete: <T>(url: string, config?: any) => Promise<{ data: T }>;
 }
 
+/**
+ * Exchange the refresh token for a new access token. Concurrent callers share a
+ * single refresh request instead of each starting their own.
+ * @returns The new access token
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = tokenService.getRefreshToken();
+      if (!refreshToken) {
+        throw new Error('No refresh token available');
+      }
+
+      const response = await refreshClient.post('/auth/refresh', { refreshToken });
+      const tokens = unwrap<{ token: string; refreshToken?: string }>(response);
+      if (!tokens?.token) {
+        throw new Error('No token received in refresh response');
+      }
+
+      // Same session, so listeners don't need to reload the user
+      tokenService.setTokens(tokens, false);
+      return tokens.token;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// End the local session and send the user to log in, returning to the current page afterwards
+const redirectToLogin = () => {
+  console.log('API: Session could not be refreshed, clearing tokens and redirecting to login');
+  tokenService.clearTokens();
+
+  if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
+    const returnTo = `${window.location.pathname}${window.location.search}`;
+    // Redirect after a short delay to allow the storage event to be processed
+    setTimeout(() => {
+      window.location.href = getLoginPath(returnTo);
+    }, 100);
+  }
+};
+
+// Requests go to the in-memory mock backend or the real one; both answer with the same envelope
+const transport = USE_MOCK_SERVICE ? mockApi : axiosInstance;
+
 // Create the API instance
-const api: ApiInterface = USE_MOCK_SERVICE ? mockApi : {
+const api: ApiInterface = {
   get: async <T>(url: string, config?: any) => {
-    const response = await axiosInstance.get<T>(url, config);
+    const response = await transport.get(url, config);
     return { data: unwrap<T>(response) };
   },
   post: async <T>(url: string, data?: any, config?: any) => {
-    const response = await axiosInstance.post<T>(url, data, config);
+    const response = await transport.post(url, data, config);
     return { data: unwrap<T>(response) };
   },
   put: async <T>(url: string, data?: any, config?: any) => {
-    const response = await axiosInstance.put<T>(url, data, config);
+    const response = await transport.put(url, data, config);
     return { data: unwrap<T>(response) };
   },
   patch: async <T>(url: string, data?: any, config?: any) => {
-    const response = await axiosInstance.patch<T>(url, data, config);
+    const response = await transport.patch(url, data, config);
     return { data: unwrap<T>(response) };
   },
   delete: async <T>(url: string, config?: any) => {
-    const response = await axiosInstance.delete<T>(url, config);
+    const response = await transport.delete(url, config);
     return { data: unwrap<T>(response) };
   }
 };
@@ -116,9 +144,22 @@ const api: ApiInterface = USE_MOCK_SERVICE ? mockApi : {
 if (!USE_MOCK_SERVICE) {
   // Request interceptor for adding auth token
   axiosInstance.interceptors.request.use(
-    (config: any): any => {
+    async (config: any): Promise<any> => {
+      const canRefresh = !NO_REFRESH_URLS.some(url => config.url?.includes(url));
+
+      // Refresh shortly before the access token expires rather than waiting for a 401
+      const currentToken = tokenService.getAccessToken();
+      if (canRefresh && currentToken && tokenService.getRefreshToken() && tokenService.isExpiringSoon(currentToken)) {
+        try {
+          await refreshAccessToken();
+        } catch (refreshError) {
+          // Send the request anyway; a 401 is handled by the response interceptor
+          console.warn('API: Proactive token refresh failed', refreshError);
+        }
+      }
+
       // Add authentication token to headers
-      const token = localStorage.getItem('token');
+      const token = tokenService.getAccessToken();
       if (token) {
         console.log('API: Adding auth token to request');
         if (!config.headers) {
@@ -151,7 +192,7 @@ if (!USE_MOCK_SERVICE) {
       }
       return response;
     },
-    (error: any): Promise<never> => {
+    async (error: any): Promise<any> => {
       // Use our error handler utility to extract a standardized error message
       const errorResponse = extractErrorMessage(error);
       
@@ -162,39 +203,27 @@ if (!USE_MOCK_SERVICE) {
         errorResponse.errorCode === 'TIMEOUT_ERROR';
       
       // Handle authentication errors (401) specially
-      if (errorResponse.statusCode === 401) {
-        // Check if this is a request to /auth/me endpoint
-        const isAuthMeRequest = error.config?.url?.includes('/auth/me');
-        
-        // For login endpoint, don't treat 401 as a network error
-        const isLoginRequest = error.config?.url?.includes('/auth/login');
-        
-        // For register endpoint, don't treat 401 as a network error
-        const isRegisterRequest = error.config?.url?.includes('/auth/register');
-        
-        // Clear token and redirect to login only if it's not the /auth/me endpoint
-        // or if explicitly specified in the error response
-        // Also don't logout if it's a network error or login/register request
-        if (!isAuthMeRequest && !isNetworkError && !isLoginRequest && !isRegisterRequest) {
-          console.log('API: Authentication error, clearing token and redirecting to login');
-          localStorage.removeItem('token');
-          
-          // Dispatch a storage event to notify other components about the token change
-          if (typeof window !== 'undefined') {
-            // Create and dispatch a storage event to notify other components
-            window.dispatchEvent(new StorageEvent('storage', {
-              key: 'token',
-              newValue: null,
-              oldValue: 'removed-token',
-              storageArea: localStorage
-            }));
-            
-            // Redirect to login page after a short delay to allow the event to be processed
-            setTimeout(() => {
-              window.location.href = '/login';
-            }, 100);
+      const requestConfig = error.config;
+      const canRefresh = !!requestConfig && !NO_REFRESH_URLS.some(url => requestConfig.url?.includes(url));
+      if (errorResponse.statusCode === 401 && canRefresh && !isNetworkError) {
+        // Refresh once and replay the request; requests failing meanwhile wait for the same refresh
+        if (!requestConfig._authRetried && tokenService.getRefreshToken()) {
+          try {
+            await refreshAccessToken();
+            // The request interceptor attaches the new token to the replay
+            requestConfig._authRetried = true;
+            return axiosInstance(requestConfig);
+          } catch (refreshError) {
+            console.error('API: Token refresh failed', refreshError);
           }
         }
+
+        // /auth/me failures are handled by useAuth, which clears the session without navigating
+        if (!requestConfig.url?.includes('/auth/me')) {
+          redirectToLogin();
+        } else {
+          tokenService.clearTokens(false);
+        }
       }
       
       // Log all errors in development environment
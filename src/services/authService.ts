@@ -1,6 +1,7 @@
 import api, { USE_MOCK_SERVICE } from './api';
 import { User } from '../types';
 import mockService from './mockService';
+import tokenService from './tokenService';
 
 export interface LoginCredentials {
   email: string;
@@ -16,7 +17,10 @@ export interface RegisterData {
 
 export interface AuthResponse {
   user: User;
+  /** Short-lived access token */
   token: string;
+  /** Long-lived token used to obtain new access tokens */
+  refreshToken?: string;
 }
 
 const authService = {
@@ -35,19 +39,10 @@ const authService = {
           throw new Error('Authentication failed');
         }
         
-        localStorage.setItem('token', token);
+        // Mock tokens are opaque and never expire, so there is nothing to refresh
+        tokenService.setTokens({ token, refreshToken: null });
         console.log('Mock token stored in localStorage');
         
-        // Dispatch a storage event to notify other components about the token change
-        if (typeof window !== 'undefined') {
-          window.dispatchEvent(new StorageEvent('storage', {
-            key: 'token',
-            newValue: token,
-            oldValue: null,
-            storageArea: localStorage
-          }));
-        }
-        
         return { user, token };
       }
       
@@ -57,20 +52,10 @@ const authService = {
       // Log successful login response
       console.log('Login successful, response:', response.data);
       
-      // Store token in localStorage
+      // Store tokens in localStorage
       if (response.data && response.data.token) {
-        localStorage.setItem('token', response.data.token);
-        console.log('Token stored in localStorage');
-        
-        // Dispatch a storage event to notify other components about the token change
-        if (typeof window !== 'undefined') {
-          window.dispatchEvent(new StorageEvent('storage', {
-            key: 'token',
-            newValue: response.data.token,
-            oldValue: null,
-            storageArea: localStorage
-          }));
-        }
+        tokenService.setTokens({ token: response.data.token, refreshToken: response.data.refreshToken || null });
+        console.log('Tokens stored in localStorage');
       } else {
         console.warn('No token received in login response');
       }
@@ -105,8 +90,8 @@ const authService = {
   register: async (userData: RegisterData): Promise<AuthResponse> => {
     try {
       const response = await api.post<AuthResponse>('/auth/register', userData);
-      // Store token in localStorage
-      localStorage.setItem('token', response.data.token);
+      // Store tokens in localStorage
+      tokenService.setTokens({ token: response.data.token, refreshToken: response.data.refreshToken || null });
       return response.data;
     } catch (error: any) {
       // Enhanced error logging with specific handling for timeout errors
@@ -128,37 +113,30 @@ const authService = {
     }
   },
 
-  logout: (): void => {
-    // Remove token from localStorage
-    console.log('Logging out user, removing token');
-    localStorage.removeItem('token');
-    console.log('Token removed from localStorage');
-    
-    // Dispatch a storage event to notify other components about the token change
-    if (typeof window !== 'undefined') {
-      // Create and dispatch a storage event to notify other components
-      window.dispatchEvent(new StorageEvent('storage', {
-        key: 'token',
-        newValue: null,
-        oldValue: 'removed-token',
-        storageArea: localStorage
-      }));
+  // Revoke the session on the server, then forget it locally
+  logout: async (): Promise<void> => {
+    console.log('Logging out user');
+    try {
+      if (tokenService.getAccessToken()) {
+        await api.post('/auth/logout', { refreshToken: tokenService.getRefreshToken() });
+      }
+    } catch (error) {
+      // The local session is cleared regardless; the server token expires on its own
+      console.error('Logout API error:', error);
+    } finally {
+      authService.clearSession();
+      console.log('Tokens removed from localStorage');
     }
-    
-    // Clear any other auth-related data from localStorage if needed
-    // localStorage.removeItem('user');
-    
-    // Optionally, you could make a logout API call here if the backend needs to invalidate the token
-    // try {
-    //   await api.post('/auth/logout');
-    // } catch (error) {
-    //   console.error('Logout API error:', error);
-    // }
+  },
+
+  // Forget a session that is already invalid, without telling the server
+  clearSession: (): void => {
+    tokenService.clearTokens();
   },
 
   getCurrentUser: async (): Promise<User | null> => {
     try {
-      const token = localStorage.getItem('token');
+      const token = tokenService.getAccessToken();
       if (!token) {
         console.log('No token found, user is not authenticated');
         return null;
@@ -194,7 +172,7 @@ const authService = {
       } else if (error.response?.status === 401 || error.response?.status === 403) {
         // For 401/403 errors, clear the token
         console.error('Get current user API unauthorized error');
-        localStorage.removeItem('token');
+        tokenService.clearTokens(false);
         return null;
       } else {
         console.error('Get current user API error:', error.response?.data || error.message);
@@ -203,9 +181,29 @@ const authService = {
     }
   },
 
+  // Email a password reset link; succeeds whether or not the address has an account
+  requestPasswordReset: async (email: string): Promise<void> => {
+    await api.post('/auth/forgot-password', { email });
+  },
+
+  // Set a new password using the token from a reset email
+  resetPassword: async (token: string, password: string): Promise<void> => {
+    await api.post('/auth/reset-password', { token, password });
+  },
+
+  // Confirm an email address using the token from a verification email
+  verifyEmail: async (token: string): Promise<User> => {
+    const response = await api.post<User>('/auth/verify-email', { token });
+    return response.data;
+  },
+
+  // Send the current user a new verification email
+  resendVerificationEmail: async (): Promise<void> => {
+    await api.post('/auth/resend-verification');
+  },
+
   isAuthenticated: (): boolean => {
-    const token = localStorage.getItem('token');
-    const isAuth = token !== null;
+    const isAuth = tokenService.getAccessToken() !== null;
     console.log('Authentication check:', isAuth ? 'User is authenticated' : 'User is not authenticated');
     return isAuth;
   }
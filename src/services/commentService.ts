@@ -0,0 +1,44 @@
+import api from './api';
+import { Comment, Pagination } from '../types';
+
+export interface CommentListParams {
+  page?: number;
+  limit?: number;
+}
+
+export interface CommentPage {
+  /** Top-level comments for the page together with all of their replies */
+  comments: Comment[];
+  /** Pagination over top-level comments */
+  pagination: Pagination;
+}
+
+const commentService = {
+  // Get a page of an issue's discussion
+  getComments: async (issueId: string, params?: CommentListParams): Promise<CommentPage> => {
+    const response = await api.get<CommentPage>(`/issues/${issueId}/comments`, { params });
+    return response.data;
+  },
+
+  // Add a comment, or a reply when parentId is given
+  createComment: async (issueId: string, body: string, parentId?: string | null): Promise<Comment> => {
+    const response = await api.post<Comment>(`/issues/${issueId}/comments`, {
+      body,
+      parentId: parentId || null
+    });
+    return response.data;
+  },
+
+  // Edit the text of one of the current user's comments
+  updateComment: async (id: string, body: string): Promise<Comment> => {
+    const response = await api.put<Comment>(`/comments/${id}`, { body });
+    return response.data;
+  },
+
+  // Delete a comment (authors and admins)
+  deleteComment: async (id: string): Promise<void> => {
+    await api.delete(`/comments/${id}`);
+  }
+};
+
+export default commentService;
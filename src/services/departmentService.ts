@@ -0,0 +1,12 @@
+import api from './api';
+import { Department } from '../types';
+
+const departmentService = {
+  // Departments with the categories they handle and their staff
+  getDepartments: async (): Promise<Department[]> => {
+    const response = await api.get<Department[]>(`/departments`);
+    return response.data;
+  },
+};
+
+export default departmentService;
@@ -0,0 +1,17 @@
+import { GeocodingResult } from './geocodingService';
+
+// Known places for offline geocoding; includes the addresses used by the mock issues
+const geocodingFixtures: GeocodingResult[] = [
+  { latitude: 40.7128, longitude: -74.0060, address: '123 Main St, New York, NY' },
+  { latitude: 40.7580, longitude: -73.9855, address: 'Times Square, Manhattan, New York, NY' },
+  { latitude: 40.7829, longitude: -73.9654, address: 'Central Park, Manhattan, New York, NY' },
+  { latitude: 40.6782, longitude: -73.9442, address: 'Brooklyn, New York, NY' },
+  { latitude: 34.0522, longitude: -118.2437, address: '456 Oak Ave, Los Angeles, CA' },
+  { latitude: 41.8781, longitude: -87.6298, address: '789 Pine Rd, Chicago, IL' },
+  { latitude: 29.7604, longitude: -95.3698, address: '101 Maple Dr, Houston, TX' },
+  { latitude: 39.9526, longitude: -75.1652, address: '202 Cedar Ln, Philadelphia, PA' },
+  { latitude: 51.5055, longitude: -0.0900, address: 'London Bridge, London, UK' },
+  { latitude: 51.5014, longitude: -0.1419, address: 'Buckingham Palace, London, UK' },
+];
+
+export default geocodingFixtures;
@@ -0,0 +1,107 @@
+import axios from 'axios';
+import { USE_MOCK_SERVICE } from './api';
+import geocodingFixtures from './geocodingFixtures';
+import { distanceInKm } from '../utils/geo';
+
+export interface GeocodingResult {
+  latitude: number;
+  longitude: number;
+  /** Human-readable address, e.g. Nominatim's display_name */
+  address: string;
+}
+
+/**
+ * Forward and reverse geocoding backend used by LocationPicker
+ */
+export interface GeocodingProvider {
+  /** Find places matching a free-text query, best match first */
+  search: (query: string, options?: { limit?: number; signal?: AbortSignal }) => Promise<GeocodingResult[]>;
+  /** Resolve coordinates to the nearest address, or null if nothing is known there */
+  reverse: (latitude: number, longitude: number, options?: { signal?: AbortSignal }) => Promise<GeocodingResult | null>;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+/**
+ * Geocoding against a Nominatim-compatible HTTP API
+ * @param baseUrl - Root of the Nominatim instance (without /search or /reverse)
+ */
+export const createNominatimProvider = (baseUrl: string): GeocodingProvider => {
+  const http = axios.create({
+    baseURL: baseUrl.replace(/\/+$/, ''),
+    timeout: 10000,
+    headers: { Accept: 'application/json' }
+  });
+
+  const toResult = (place: NominatimPlace): GeocodingResult => ({
+    latitude: parseFloat(place.lat),
+    longitude: parseFloat(place.lon),
+    address: place.display_name
+  });
+
+  return {
+    search: async (query, options = {}) => {
+      const response = await http.get<NominatimPlace[]>('/search', {
+        params: { q: query, format: 'jsonv2', limit: options.limit ?? 5 },
+        signal: options.signal
+      });
+      return (response.data || []).map(toResult);
+    },
+
+    reverse: async (latitude, longitude, options = {}) => {
+      const response = await http.get<NominatimPlace & { error?: string }>('/reverse', {
+        params: { lat: latitude, lon: longitude, format: 'jsonv2' },
+        signal: options.signal
+      });
+      // Nominatim answers 200 with { error } when there is nothing at the point (e.g. open sea)
+      if (!response.data || response.data.error) {
+        return null;
+      }
+      return toResult(response.data);
+    }
+  };
+};
+
+/**
+ * Offline geocoding over a fixed list of places, for mock mode and tests
+ * @param places - Known places; search matches on address text, reverse returns the closest one
+ * @param maxDistanceKm - Reverse lookups further than this from every place resolve to null
+ */
+export const createFixtureProvider = (places: GeocodingResult[], maxDistanceKm: number = 5): GeocodingProvider => ({
+  search: async (query, options = {}) => {
+    const terms = query.toLowerCase().split(/[\s,]+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    return places
+      .filter(place => terms.every(term => place.address.toLowerCase().includes(term)))
+      .slice(0, options.limit ?? 5);
+  },
+
+  reverse: async (latitude, longitude) => {
+    let closest: GeocodingResult | null = null;
+    let closestDistance = Infinity;
+
+    places.forEach(place => {
+      const distance = distanceInKm(latitude, longitude, place.latitude, place.longitude);
+      if (distance < closestDistance) {
+        closest = place;
+        closestDistance = distance;
+      }
+    });
+
+    return closestDistance <= maxDistanceKm ? closest : null;
+  }
+});
+
+// Set REACT_APP_GEOCODING_URL to point at a self-hosted Nominatim instance
+const GEOCODING_URL = process.env.REACT_APP_GEOCODING_URL || 'https://nominatim.openstreetmap.org';
+
+const geocodingService: GeocodingProvider = USE_MOCK_SERVICE
+  ? createFixtureProvider(geocodingFixtures)
+  : createNominatimProvider(GEOCODING_URL);
+
+export default geocodingService;
@@ -1,5 +1,6 @@
 import api from './api';
-import { Issue, Location, IssueStatus, IssueCategory } from '../types';
+import { Issue, Location, IssueStatus, IssueCategory, Pagination } from '../types';
+import { isIssueStatus } from '../utils/statusTransitions';
 
 export interface IssueFormData {
   title: string;
@@ -15,18 +16,115 @@ export interface IssueFilterParams {
   distance?: number;
   latitude?: number;
   longitude?: number;
+  /** Free text matched against title, description and address */
+  search?: string;
+  /** Match any of several statuses (sent comma-separated) */
+  statuses?: IssueStatus[];
+  /** Match any of several categories (sent comma-separated) */
+  categories?: IssueCategory[];
+  /** Inclusive lower bound on reportedAt (ISO date, YYYY-MM-DD) */
+  reportedFrom?: string;
+  /** Inclusive upper bound on reportedAt (ISO date, YYYY-MM-DD) */
+  reportedTo?: string;
+  /** Reporter id or username */
+  reportedBy?: string;
+  hasPhotos?: boolean;
+  isFlagged?: boolean;
+  /** Past their SLA target */
+  overdue?: boolean;
+  /** Field to sort by, e.g. reportedAt or voteCount */
+  sort?: string;
+  order?: 'asc' | 'desc';
+  /** 1-based page number */
+  page?: number;
+  limit?: number;
+  /** `nextCursor` from the previous page; results continue after it, in place of `page` */
+  cursor?: string;
 }
 
+export interface IssueSearchResult {
+  issues: Issue[];
+  pagination: Pagination;
+  /** Pass as `cursor` to load the issues after this page; null on the last page */
+  nextCursor?: string | null;
+}
+
+/** Every issue matching a query, or as many as were asked for */
+export interface IssueSetResult {
+  issues: Issue[];
+  /** Number of matching issues; more than `issues.length` when the result was capped */
+  total: number;
+}
+
+// Issues requested per call when loading every page of a result set
+const ALL_ISSUES_PAGE_SIZE = 100;
+
+// Serialize filters for the query string: arrays become comma lists and empty values are dropped
+const toQueryParams = (filters?: IssueFilterParams): Record<string, string | number | boolean> | undefined => {
+  if (!filters) return undefined;
+
+  return Object.entries(filters).reduce((params, [key, value]) => {
+    if (value === undefined || value === null || value === '') return params;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params[key] = value.join(',');
+    } else {
+      params[key] = value;
+    }
+    return params;
+  }, {} as Record<string, string | number | boolean>);
+};
+
 const issueService = {
-  getAllIssues: async (filters?: IssueFilterParams): Promise<Issue[]> => {
+  getAllIssues: async (filters?: IssueFilterParams, options?: { signal?: AbortSignal }): Promise<Issue[]> => {
     try {
-      const response = await api.get<{ issues: Issue[]; pagination: any }>('\/issues', { params: filters });
+      const response = await api.get<{ issues: Issue[]; pagination: Pagination }>('\/issues', {
+        params: toQueryParams(filters),
+        signal: options?.signal
+      });
       return response.data.issues;
     } catch (error) {
       throw error;
     }
   },
 
+  // Server-side search returning a page of results together with paging info
+  searchIssues: async (filters: IssueFilterParams, options?: { signal?: AbortSignal }): Promise<IssueSearchResult> => {
+    try {
+      const response = await api.get<IssueSearchResult>('/issues', {
+        params: toQueryParams(filters),
+        signal: options?.signal
+      });
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  /**
+   * Every issue matching the filters, loaded a page at a time in the given sort order.
+   * Stops once `maxIssues` have been loaded; `total` still counts every match.
+   */
+  getAllMatchingIssues: async (
+    filters: Omit<IssueFilterParams, 'page' | 'limit' | 'cursor'>,
+    options: { signal?: AbortSignal; maxIssues?: number } = {}
+  ): Promise<IssueSetResult> => {
+    const { signal, maxIssues = Infinity } = options;
+    let issues: Issue[] = [];
+    let total = 0;
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await issueService.searchIssues({ ...filters, page, limit: ALL_ISSUES_PAGE_SIZE }, { signal });
+      issues = issues.concat(result.issues);
+      total = result.pagination.total;
+      totalPages = result.pagination.totalPages;
+      page += 1;
+    } while (page <= totalPages && issues.length < maxIssues);
+
+    return { issues: issues.slice(0, maxIssues), total };
+  },
+
   getIssueById: async (id: string): Promise<Issue> => {
     try {
       const response = await api.get<Issue>(`\/issues\/${id}`);
@@ -36,7 +134,8 @@ const issueService = {
     }
   },
 
-  createIssue: async (issueData: IssueFormData): Promise<Issue> => {
+  // With an idempotency key, the server returns the issue it already created for that key instead of filing another
+  createIssue: async (issueData: IssueFormData, options?: { idempotencyKey?: string }): Promise<Issue> => {
     try {
       // Create FormData for file uploads
       const formData = new FormData();
@@ -62,7 +161,8 @@ const issueService = {
 
       const response = await api.post<Issue>('\/issues', formData, {
         headers: {
-          'Content-Type': 'multipart\/form-data'
+          'Content-Type': 'multipart\/form-data',
+          ...(options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {})
         }
       });
       return response.data;
@@ -77,6 +177,10 @@ const issueService = {
         status, 
         statusComment: comment 
       });
+      // The backend enforces the same transition table; anything else means the two have drifted apart
+      if (!isIssueStatus(response.data.status) || response.data.status !== status) {
+        throw new Error(`Unexpected status "${response.data.status}" returned for issue ${id}`);
+      }
       return response.data;
     } catch (error) {
       throw error;
@@ -92,9 +196,124 @@ const issueService = {
     }
   },
 
+  // Moderator: dismiss every flag on an issue after reviewing it
+  clearFlags: async (id: string): Promise<Issue> => {
+    try {
+      const response = await api.delete<Issue>(`/issues/${id}/flags`);
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Add the current user's "me too" vote
+  voteIssue: async (id: string): Promise<Issue> => {
+    try {
+      const response = await api.post<Issue>(`/issues/${id}/vote`);
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Withdraw the current user's vote
+  unvoteIssue: async (id: string): Promise<Issue> => {
+    try {
+      const response = await api.delete<Issue>(`/issues/${id}/vote`);
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Admin: merge duplicate issues into a canonical one, which takes over their photos, flags, history and reporters
+  mergeIssues: async (canonicalId: string, issueIds: string[]): Promise<Issue> => {
+    try {
+      const response = await api.post<Issue>(`/issues/${canonicalId}/merge`, { issueIds });
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Route an issue to a department, optionally to one of its staff members
+  assignIssue: async (id: string, departmentId: string, staffId?: string | null): Promise<Issue> => {
+    try {
+      const response = await api.put<Issue>(`/issues/${id}/assignment`, { departmentId, staffId: staffId || null });
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Department staff: open issues assigned to the current user's department
+  getMyQueue: async (): Promise<Issue[]> => {
+    try {
+      const response = await api.get<{ issues: Issue[] }>(`/issues/queue`);
+      return response.data.issues;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Attach extra photos to an existing issue, e.g. when a duplicate report is folded into it
+  addPhotos: async (id: string, photos: File[]): Promise<Issue> => {
+    try {
+      const formData = new FormData();
+      photos.forEach((photo) => {
+        formData.append('photos', photo);
+      });
+
+      const response = await api.post<Issue>(`/issues/${id}/photos`, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data'
+        }
+      });
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Admin: soft-delete an issue; it moves to the trash until the retention window passes
+  deleteIssue: async (id: string): Promise<Issue> => {
+    try {
+      const response = await api.delete<Issue>(`/issues/${id}`);
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Admin: a page of the issues in the trash that can still be restored, most recently deleted first
+  getDeletedIssues: async (
+    params?: { page?: number; limit?: number },
+    options?: { signal?: AbortSignal }
+  ): Promise<{ issues: Issue[]; pagination: Pagination }> => {
+    try {
+      const response = await api.get<{ issues: Issue[]; pagination: Pagination }>('/issues/trash', {
+        params,
+        signal: options?.signal
+      });
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Admin: bring a deleted issue back from the trash
+  restoreIssue: async (id: string): Promise<Issue> => {
+    try {
+      const response = await api.post<Issue>(`/issues/${id}/restore`);
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
   getIssuesByUser: async (): Promise<Issue[]> => {
     try {
-      const response = await api.get<{ issues: Issue[]; pagination: any }>('\/issues\/user\/me');
+      const response = await api.get<{ issues: Issue[]; pagination: Pagination }>('\/issues\/user\/me');
       return response.data.issues;
     } catch (error) {
       throw error;
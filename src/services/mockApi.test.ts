@@ -0,0 +1,114 @@
+import { paginateByCursor } from './mockApi';
+
+interface Item {
+  id: string;
+  votes: number;
+}
+
+// Most votes first, as the vote sort orders issues
+const byVotes = (items: Item[]): Item[] => [...items].sort((a, b) => b.votes - a.votes);
+const votes = (item: Item) => item.votes;
+
+const page = (items: Item[], cursor: string | null, limit = 2) =>
+  paginateByCursor(byVotes(items), { cursor, limit }, votes, true);
+
+// Load every page, letting `between` change the list before each further page
+const loadAll = (items: Item[], between: (loaded: number) => void = () => {}) => {
+  const batches: string[][] = [];
+  let result = page(items, null);
+  batches.push(result.items.map(item => item.id));
+  while (result.nextCursor) {
+    between(batches.length);
+    result = page(items, result.nextCursor);
+    batches.push(result.items.map(item => item.id));
+  }
+  return batches;
+};
+
+// What an infinite list shows: every batch appended, items already shown dropped
+const shown = (batches: string[][]): string[] =>
+  batches.flat().filter((id, index, ids) => ids.indexOf(id) === index);
+
+describe('paginateByCursor', () => {
+  test('pages through tied sort values without skipping or repeating', () => {
+    const items: Item[] = [
+      { id: 'a', votes: 5 },
+      { id: 'b', votes: 5 },
+      { id: 'c', votes: 5 },
+      { id: 'd', votes: 3 },
+      { id: 'e', votes: 3 },
+      { id: 'f', votes: 3 },
+      { id: 'g', votes: 1 }
+    ];
+
+    const batches = loadAll(items);
+
+    expect(batches).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f'], ['g']]);
+  });
+
+  test('continues after the last item loaded when an item is inserted between pages', () => {
+    const items: Item[] = [
+      { id: 'a', votes: 9 },
+      { id: 'b', votes: 8 },
+      { id: 'c', votes: 7 },
+      { id: 'd', votes: 6 }
+    ];
+
+    const batches = loadAll(items, loaded => {
+      if (loaded === 1) {
+        // One ahead of the items already loaded, one among those still to come
+        items.push({ id: 'new-top', votes: 10 }, { id: 'new-middle', votes: 7 });
+      }
+    });
+
+    expect(batches[0]).toEqual(['a', 'b']);
+    expect(shown(batches)).toEqual(['a', 'b', 'c', 'new-middle', 'd']);
+  });
+
+  test('resumes at the first item not sorted before a deleted last item', () => {
+    const items: Item[] = [
+      { id: 'a', votes: 5 },
+      { id: 'b', votes: 5 },
+      { id: 'c', votes: 5 },
+      { id: 'd', votes: 3 }
+    ];
+
+    const first = page(items, null);
+    expect(first.items.map(item => item.id)).toEqual(['a', 'b']);
+
+    const remaining = items.filter(item => item.id !== 'b');
+    const second = page(remaining, first.nextCursor);
+
+    // `a` ties with the deleted item so it comes again; the client drops it
+    expect(second.items.map(item => item.id)).toEqual(['a', 'c']);
+    expect(shown([['a', 'b'], second.items.map(item => item.id)])).toEqual(['a', 'b', 'c']);
+  });
+
+  test('repeats rather than skips items when the last item loaded changed its sort value', () => {
+    const items: Item[] = [
+      { id: 'a', votes: 9 },
+      { id: 'b', votes: 8 },
+      { id: 'c', votes: 7 },
+      { id: 'd', votes: 6 }
+    ];
+
+    const first = page(items, null);
+    // `b` drops below `c` after it was loaded
+    items[1] = { id: 'b', votes: 6.5 };
+    const second = page(items, first.nextCursor);
+
+    expect(second.items.map(item => item.id)).toEqual(['c', 'b']);
+    expect(shown([['a', 'b'], second.items.map(item => item.id)])).toEqual(['a', 'b', 'c']);
+  });
+
+  test('returns no cursor on the last page', () => {
+    const result = page([{ id: 'a', votes: 1 }, { id: 'b', votes: 0 }], null);
+
+    expect(result.nextCursor).toBeNull();
+    expect(result.pagination).toEqual({ total: 2, page: 1, limit: 2, totalPages: 1 });
+  });
+
+  test('rejects a cursor it did not issue', () => {
+    expect(() => page([{ id: 'a', votes: 1 }], 'not-a-cursor')).toThrow('Invalid cursor');
+  });
+});
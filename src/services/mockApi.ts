@@ -0,0 +1,582 @@
+import { ApiEnvelope, Comment, Issue, IssueStatus, Pagination } from '../types';
+import { getIssueSortValue } from '../utils/issueSort';
+import mockService from './mockService';
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+interface MockRequest {
+  /** Named path segments, e.g. `id` for `/issues/:id` */
+  params: Record<string, string>;
+  /** Query string parameters passed through `config.params` */
+  query: Record<string, any>;
+  /** Request body; multipart FormData is converted to a plain object */
+  body: any;
+  /** Request headers passed through `config.headers` */
+  headers: Record<string, any>;
+}
+
+interface MockRoute {
+  method: HttpMethod;
+  path: string;
+  /** Message returned in the response envelope */
+  message?: string;
+  handler: (request: MockRequest) => Promise<any> | any;
+}
+
+/**
+ * Error thrown for requests the mock backend rejects, mirroring the
+ * status codes the real backend would respond with
+ */
+const createMockError = (statusCode: number, message: string): Error => {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+};
+
+// Reject like axios does for a request whose AbortSignal has fired
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    const error = new Error('canceled');
+    (error as any).code = 'ERR_CANCELED';
+    throw error;
+  }
+};
+
+// Slice an array the same way the backend paginates list endpoints (1-based pages)
+const paginate = <T>(items: T[], query: Record<string, any>): { items: T[]; pagination: Pagination } => {
+  const limit = Math.max(1, Number(query.limit) || 10);
+  const totalPages = Math.max(1, Math.ceil(items.length / limit));
+  const page = Math.min(Math.max(1, Number(query.page) || 1), totalPages);
+  const start = (page - 1) * limit;
+
+  return {
+    items: items.slice(start, start + limit),
+    pagination: { total: items.length, page, limit, totalPages }
+  };
+};
+
+// Where a cursor page continues from: the sort value, id and position of the last item already loaded
+interface CursorKey {
+  value: number | string | null;
+  id: string;
+  index: number;
+}
+
+const encodeCursor = (key: CursorKey): string => btoa(JSON.stringify(key));
+
+const decodeCursor = (cursor: string): CursorKey => {
+  try {
+    const key = JSON.parse(atob(cursor));
+    if (typeof key?.id === 'string' && typeof key?.index === 'number') {
+      return key;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw createMockError(400, 'Invalid cursor');
+};
+
+/**
+ * Cursor paging for infinite lists. The cursor is a keyset: it carries the sort value of
+ * the last item loaded, so when that item has since moved, been deleted or stopped matching,
+ * paging resumes at the first item not sorted before it. Items that moved may then be sent
+ * twice; clients drop those by id.
+ * @param items - Items in sort order
+ * @param query - Request query with `cursor` and `limit`
+ * @param sortValue - Value items are ordered by, or null when the list is unsorted
+ * @param descending - Whether larger values come first
+ */
+const paginateByCursor = <T extends { id: string }>(
+  items: T[],
+  query: Record<string, any>,
+  sortValue: (item: T) => number | string | null,
+  descending: boolean
+): { items: T[]; pagination: Pagination; nextCursor: string | null } => {
+  const limit = Math.max(1, Number(query.limit) || 10);
+
+  let start = 0;
+  if (query.cursor) {
+    const key = decodeCursor(String(query.cursor));
+    const last = items.findIndex(item => item.id === key.id);
+    if (last !== -1 && sortValue(items[last]) === key.value) {
+      start = last + 1;
+    } else if (key.value === null) {
+      // Unsorted, so position is all there is to go on
+      start = Math.min(key.index + 1, items.length);
+    } else {
+      const isBefore = (value: number | string | null) => {
+        if (value === null) return false;
+        const order = typeof value === 'number' && typeof key.value === 'number'
+          ? value - key.value
+          : String(value).localeCompare(String(key.value));
+        return descending ? order > 0 : order < 0;
+      };
+      start = items.findIndex(item => !isBefore(sortValue(item)));
+      if (start === -1) start = items.length;
+    }
+  }
+
+  const page = items.slice(start, start + limit);
+  return {
+    items: page,
+    pagination: {
+      total: items.length,
+      page: Math.floor(start / limit) + 1,
+      limit,
+      totalPages: Math.max(1, Math.ceil(items.length / limit))
+    },
+    nextCursor: start + limit < items.length
+      ? encodeCursor({ value: sortValue(page[page.length - 1]), id: page[page.length - 1].id, index: start + page.length - 1 })
+      : null
+  };
+};
+
+// Convert multipart bodies to plain objects, collecting repeated keys (e.g. photos) into arrays
+const normalizeBody = (body: any): any => {
+  if (typeof FormData === 'undefined' || !(body instanceof FormData)) {
+    return body;
+  }
+
+  const result: Record<string, any> = {};
+  body.forEach((value, key) => {
+    if (key === 'photos') {
+      result.photos = [...(result.photos || []), value];
+    } else {
+      result[key] = value;
+    }
+  });
+  return result;
+};
+
+// Route table; more specific paths must come before parameterised ones
+const routes: MockRoute[] = [
+  // Auth
+  {
+    method: 'post',
+    path: '/auth/login',
+    message: 'Login successful',
+    handler: async ({ body }) => {
+      try {
+        return await mockService.login(body.email, body.password);
+      } catch (error: any) {
+        throw createMockError(401, error.message);
+      }
+    }
+  },
+  {
+    method: 'post',
+    path: '/auth/register',
+    message: 'Registration successful',
+    handler: async ({ body }) => {
+      try {
+        return await mockService.register(body.username, body.email, body.password);
+      } catch (error: any) {
+        throw createMockError(409, error.message);
+      }
+    }
+  },
+  {
+    method: 'post',
+    path: '/auth/logout',
+    message: 'Logged out',
+    handler: () => mockService.logout()
+  },
+  {
+    method: 'post',
+    path: '/auth/forgot-password',
+    message: 'If an account exists for that email, a reset link has been sent',
+    handler: ({ body }) => mockService.requestPasswordReset(body.email)
+  },
+  {
+    method: 'post',
+    path: '/auth/reset-password',
+    message: 'Password has been reset',
+    handler: ({ body }) => mockService.resetPassword(body.token, body.password)
+  },
+  {
+    method: 'post',
+    path: '/auth/verify-email',
+    message: 'Email verified',
+    handler: ({ body }) => mockService.verifyEmail(body.token)
+  },
+  {
+    method: 'post',
+    path: '/auth/resend-verification',
+    message: 'Verification email sent',
+    handler: () => mockService.resendVerificationEmail()
+  },
+  {
+    method: 'get',
+    path: '/auth/me',
+    handler: async () => {
+      const user = await mockService.getCurrentUser();
+      if (!user) {
+        throw createMockError(401, 'Authentication required. Please log in again.');
+      }
+      return user;
+    }
+  },
+  {
+    method: 'put',
+    path: '/auth/profile',
+    message: 'Profile updated',
+    handler: ({ body }) => mockService.updateProfile(body)
+  },
+
+  // Issues
+  {
+    method: 'get',
+    path: '/issues/nearby',
+    handler: ({ query }) => mockService.getNearbyIssues(
+      Number(query.latitude),
+      Number(query.longitude),
+      query.radius !== undefined ? Number(query.radius) : undefined
+    )
+  },
+  {
+    method: 'get',
+    path: '/issues/user/me',
+    handler: async ({ query }) => {
+      const { items, pagination } = paginate(await mockService.getIssuesByUser(), { limit: 100, ...query });
+      return { issues: items, pagination };
+    }
+  },
+  {
+    method: 'get',
+    path: '/issues',
+    handler: async ({ query }) => {
+      const issues = await mockService.getAllIssues(query);
+      const sortValue = (issue: Issue) => query.sort ? getIssueSortValue(issue, String(query.sort)) : null;
+      const descending = query.order !== 'asc';
+      if (query.cursor) {
+        const { items, pagination, nextCursor } = paginateByCursor(issues, { limit: 100, ...query }, sortValue, descending);
+        return { issues: items, pagination, nextCursor };
+      }
+
+      // Page-based responses also carry a cursor, so a list can start by page and continue by cursor
+      const { items, pagination } = paginate(issues, { limit: 100, ...query });
+      const last = items[items.length - 1];
+      const nextCursor = pagination.page < pagination.totalPages
+        ? encodeCursor({ value: sortValue(last), id: last.id, index: (pagination.page - 1) * pagination.limit + items.length - 1 })
+        : null;
+      return { issues: items, pagination, nextCursor };
+    }
+  },
+  {
+    method: 'post',
+    path: '/issues',
+    message: 'Issue created',
+    handler: ({ body, headers }) => mockService.createIssue({
+      title: body.title,
+      description: body.description,
+      category: body.category,
+      location: body.location || {
+        latitude: Number(body.latitude),
+        longitude: Number(body.longitude),
+        address: body.address
+      },
+      photos: body.photos
+    }, headers['Idempotency-Key'])
+  },
+  {
+    method: 'get',
+    path: '/issues/queue',
+    handler: async () => ({ issues: await mockService.getMyQueue() })
+  },
+  {
+    method: 'get',
+    path: '/issues/trash',
+    handler: async ({ query }) => {
+      const { items, pagination } = paginate(await mockService.getDeletedIssues(), { limit: 100, ...query });
+      return { issues: items, pagination };
+    }
+  },
+  {
+    method: 'get',
+    path: '/issues/:id',
+    handler: ({ params }) => mockService.getIssueById(params.id)
+  },
+  {
+    method: 'put',
+    path: '/issues/:id',
+    message: 'Issue updated',
+    handler: ({ params, body }) => mockService.updateIssueStatus(
+      params.id,
+      body.status as IssueStatus,
+      body.statusComment
+    )
+  },
+  {
+    method: 'delete',
+    path: '/issues/:id',
+    message: 'Issue moved to trash',
+    handler: ({ params }) => mockService.deleteIssue(params.id)
+  },
+  {
+    method: 'post',
+    path: '/issues/:id/restore',
+    message: 'Issue restored',
+    handler: ({ params }) => mockService.restoreIssue(params.id)
+  },
+  {
+    method: 'post',
+    path: '/issues/:id/vote',
+    message: 'Vote added',
+    handler: ({ params }) => mockService.voteIssue(params.id, true)
+  },
+  {
+    method: 'delete',
+    path: '/issues/:id/vote',
+    message: 'Vote removed',
+    handler: ({ params }) => mockService.voteIssue(params.id, false)
+  },
+  {
+    method: 'post',
+    path: '/issues/:id/merge',
+    message: 'Issues merged',
+    handler: ({ params, body }) => mockService.mergeIssues(params.id, body.issueIds || [])
+  },
+  {
+    method: 'put',
+    path: '/issues/:id/assignment',
+    message: 'Issue assigned',
+    handler: ({ params, body }) => mockService.assignIssue(params.id, body.departmentId, body.staffId)
+  },
+  {
+    method: 'post',
+    path: '/issues/:id/photos',
+    message: 'Photos added',
+    handler: ({ params, body }) => mockService.addIssuePhotos(params.id, body.photos)
+  },
+  {
+    method: 'post',
+    path: '/issues/:id/flag',
+    message: 'Issue flagged',
+    handler: ({ params, body }) => mockService.flagIssue(params.id, body.reason)
+  },
+  {
+    method: 'delete',
+    path: '/issues/:id/flags',
+    message: 'Flags cleared',
+    handler: ({ params }) => mockService.clearFlags(params.id)
+  },
+
+  // Analytics
+  {
+    method: 'get',
+    path: '/analytics/issues',
+    handler: ({ query }) => mockService.getIssueAnalytics(query)
+  },
+
+  // Departments
+  {
+    method: 'get',
+    path: '/departments',
+    handler: () => mockService.getDepartments()
+  },
+
+  // Comments
+  {
+    method: 'get',
+    path: '/issues/:id/comments',
+    handler: async ({ params, query }) => {
+      const comments = await mockService.getComments(params.id);
+      const byId: Record<string, Comment> = {};
+      comments.forEach(comment => {
+        byId[comment.id] = comment;
+      });
+
+      // Pages are counted in top-level comments; replies travel with their thread
+      const rootOf = (comment: Comment): string => {
+        let current = comment;
+        while (current.parentId && byId[current.parentId]) {
+          current = byId[current.parentId];
+        }
+        return current.id;
+      };
+      const { items, pagination } = paginate(comments.filter(c => !c.parentId), query);
+      const rootIds = items.map(c => c.id);
+
+      return {
+        comments: comments.filter(c => rootIds.includes(rootOf(c))),
+        pagination
+      };
+    }
+  },
+  {
+    method: 'post',
+    path: '/issues/:id/comments',
+    message: 'Comment added',
+    handler: ({ params, body }) => mockService.createComment(params.id, body.body, body.parentId)
+  },
+  {
+    method: 'put',
+    path: '/comments/:id',
+    message: 'Comment updated',
+    handler: ({ params, body }) => mockService.updateComment(params.id, body.body)
+  },
+  {
+    method: 'delete',
+    path: '/comments/:id',
+    message: 'Comment deleted',
+    handler: ({ params }) => mockService.deleteComment(params.id)
+  },
+
+  // Users (admin)
+  {
+    method: 'get',
+    path: '/users',
+    handler: async ({ query }) => {
+      const { items, pagination } = paginate(await mockService.getUsers(query.search, query.role), query);
+      return { users: items, pagination };
+    }
+  },
+  {
+    method: 'get',
+    path: '/users/:id',
+    handler: ({ params }) => mockService.getUserById(params.id)
+  },
+  {
+    method: 'put',
+    path: '/users/:id/role',
+    message: 'User role updated',
+    handler: ({ params, body }) => mockService.updateUserRole(params.id, body.role, body.departmentId)
+  },
+  {
+    method: 'put',
+    path: '/users/:id/suspend',
+    message: 'User suspended',
+    handler: ({ params, body }) => mockService.setUserStatus(params.id, true, body?.reason)
+  },
+  {
+    method: 'put',
+    path: '/users/:id/reactivate',
+    message: 'User reactivated',
+    handler: ({ params }) => mockService.setUserStatus(params.id, false)
+  },
+  {
+    method: 'get',
+    path: '/users/:id/issues',
+    handler: async ({ params, query }) => {
+      const { items, pagination } = paginate(await mockService.getIssuesByUserId(params.id), query);
+      return { issues: items, pagination };
+    }
+  },
+  {
+    method: 'get',
+    path: '/users/:id/flags',
+    handler: ({ params }) => mockService.getFlagsByUserId(params.id)
+  },
+
+  // Status requests
+  {
+    method: 'get',
+    path: '/status-requests/user/me',
+    handler: () => mockService.getMyStatusRequests()
+  },
+  {
+    method: 'get',
+    path: '/status-requests/issue/:issueId',
+    handler: ({ params }) => mockService.getIssueStatusRequests(params.issueId)
+  },
+  {
+    method: 'post',
+    path: '/status-requests/issue/:issueId',
+    message: 'Status change request submitted',
+    handler: ({ params, body }) => mockService.createStatusRequest(
+      params.issueId,
+      body.requestedStatus as IssueStatus,
+      body.reason
+    )
+  },
+  {
+    method: 'get',
+    path: '/status-requests',
+    handler: async ({ query }) => {
+      const { items, pagination } = paginate(await mockService.getAllStatusRequests(query.status, query.search), query);
+      return { statusRequests: items, pagination };
+    }
+  },
+  {
+    method: 'put',
+    path: '/status-requests/:id/review',
+    message: 'Status request reviewed',
+    handler: ({ params, body }) => mockService.reviewStatusRequest(params.id, body.action, body.reviewComment)
+  }
+];
+
+// Match a concrete URL against a route path, returning the named params on success
+const matchPath = (path: string, url: string): Record<string, string> | null => {
+  const pathSegments = path.split('/').filter(Boolean);
+  const urlSegments = url.split('?')[0].split('/').filter(Boolean);
+
+  if (pathSegments.length !== urlSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pathSegments.length; i++) {
+    if (pathSegments[i].startsWith(':')) {
+      params[pathSegments[i].slice(1)] = decodeURIComponent(urlSegments[i]);
+    } else if (pathSegments[i] !== urlSegments[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+// Dispatch a request to the matching route and wrap the result like the backend does
+const handleRequest = async (method: HttpMethod, url: string, body?: any, config?: any): Promise<{ data: ApiEnvelope<any> }> => {
+  console.log(`Mock ${method.toUpperCase()} request to ${url}`);
+  throwIfAborted(config?.signal);
+
+  for (const route of routes) {
+    if (route.method !== method) continue;
+
+    const params = matchPath(route.path, url);
+    if (!params) continue;
+
+    try {
+      const data = await route.handler({
+        params,
+        query: config?.params || {},
+        body: normalizeBody(body),
+        headers: config?.headers || {}
+      });
+      // Handlers can't be interrupted, so drop the response instead, as axios would
+      throwIfAborted(config?.signal);
+      return { data: { success: true, message: route.message || 'OK', data } };
+    } catch (error: any) {
+      if (error.code === 'ERR_CANCELED') {
+        throw error;
+      }
+      // Not-found errors from mockService map onto a 404 like the backend
+      if (error.statusCode === undefined && /not found/i.test(error.message)) {
+        throw createMockError(404, error.message);
+      }
+      if (error.statusCode === undefined) {
+        throw createMockError(400, error.message);
+      }
+      throw error;
+    }
+  }
+
+  throw createMockError(404, `Unhandled mock ${method.toUpperCase()} request to ${url}`);
+};
+
+/**
+ * In-memory backend with the same shape as the axios instance, so `api`
+ * can unwrap its responses exactly like real ones
+ */
+const mockApi = {
+  get: (url: string, config?: any) => handleRequest('get', url, undefined, config),
+  post: (url: string, data?: any, config?: any) => handleRequest('post', url, data, config),
+  put: (url: string, data?: any, config?: any) => handleRequest('put', url, data, config),
+  patch: (url: string, data?: any, config?: any) => handleRequest('patch', url, data, config),
+  delete: (url: string, config?: any) => handleRequest('delete', url, undefined, config)
+};
+
+export default mockApi;
+
+// Exported for unit tests
+export { paginateByCursor };
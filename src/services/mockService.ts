@@ -1,4 +1,9 @@
-import { User, Issue, IssueStatus, IssueCategory, Flag, StatusLog, Location } from '../types';
+import { User, UserRole, Issue, IssueStatus, IssueCategory, IssueAssignment, IssueAnalytics, IssueAnalyticsFilters, Department, Flag, StatusLog, Location, Comment, StatusRequest, StatusRequestAction, StatusRequestState, UserFlag, ISSUE_RETENTION_DAYS } from '../types';
+import { distanceInKm } from '../utils/geo';
+import { compareIssues } from '../utils/issueSort';
+import { isOverdue } from '../utils/sla';
+import { can, needsEmailVerification } from '../utils/permissions';
+import { isStatusChange, validateTransition } from '../utils/statusTransitions';
 import { v4 as uuidv4 } from 'uuid';
 
 // Mock user data
@@ -8,7 +13,8 @@ const mockUsers: User[] = [
     username: 'johndoe',
     name: 'John Doe',
     email: 'john@example.com',
-    role: 'user',
+    role: 'citizen',
+    status: 'active',
     createdAt: new Date('2023-01-15')
   },
   {
@@ -16,7 +22,9 @@ const mockUsers: User[] = [
     username: 'janesmith',
     name: 'Jane Smith',
     email: 'jane@example.com',
-    role: 'user',
+    role: 'citizen',
+    status: 'active',
+    emailVerified: false,
     createdAt: new Date('2023-02-20')
   },
   {
@@ -26,10 +34,51 @@ const mockUsers: User[] = [
     email: 'admin@example.com',
     role: 'admin',
     isAdmin: true,
+    status: 'active',
     createdAt: new Date('2022-12-01')
   },
+  {
+    id: '4',
+    username: 'modmaria',
+    name: 'Maria Moderator',
+    email: 'moderator@example.com',
+    role: 'moderator',
+    status: 'active',
+    createdAt: new Date('2023-01-05')
+  },
+  {
+    id: '5',
+    username: 'publicworks',
+    name: 'Pat Public Works',
+    email: 'staff@example.com',
+    role: 'department_staff',
+    departmentId: 'public-works',
+    status: 'active',
+    createdAt: new Date('2023-01-10')
+  },
 ];
 
+// Mock departments and the categories routed to them
+const mockDepartments: Department[] = [
+  { id: 'public-works', name: 'Public Works', categories: [IssueCategory.ROAD, IssueCategory.WASTE] },
+  { id: 'utilities', name: 'Utilities', categories: [IssueCategory.WATER, IssueCategory.ELECTRICITY] },
+  { id: 'public-safety', name: 'Public Safety', categories: [IssueCategory.SAFETY] },
+  { id: 'city-services', name: 'City Services', categories: [IssueCategory.OTHER] },
+];
+
+// Department that handles a category; anything unmapped goes to general city services
+const findDepartmentForCategory = (category: string): Department =>
+  mockDepartments.find(d => d.categories.some(c => c === category)) ||
+  mockDepartments[mockDepartments.length - 1];
+
+const createAssignment = (department: Department, staff?: User | null): IssueAssignment => ({
+  departmentId: department.id,
+  departmentName: department.name,
+  staffId: staff ? staff.id : null,
+  staffName: staff ? staff.name : null,
+  assignedAt: new Date()
+});
+
 // Mock location data
 const mockLocations: Location[] = [
   { latitude: 40.7128, longitude: -74.0060, address: '123 Main St, New York, NY' },
@@ -139,9 +188,235 @@ const mockIssues: Issue[] = [
   },
 ];
 
+// Seed issues start out routed by category, with the pothole already picked up
+mockIssues.forEach(issue => {
+  issue.assignedTo = createAssignment(findDepartmentForCategory(issue.category));
+});
+mockIssues[0].assignedTo = createAssignment(findDepartmentForCategory(mockIssues[0].category), mockUsers[4]);
+
+// Mock status change requests
+const mockStatusRequests: StatusRequest[] = [
+  {
+    id: '1',
+    issueId: '1',
+    requestedBy: mockUsers[1].id,
+    currentStatus: IssueStatus.REPORTED,
+    requestedStatus: IssueStatus.RESOLVED,
+    reason: 'The pothole was filled in yesterday',
+    status: 'pending',
+    reviewedBy: null,
+    reviewedAt: null,
+    reviewComment: null,
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 1), // 1 day ago
+    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 1)
+  },
+];
+
+// Mock discussion threads
+const mockComments: Comment[] = [
+  {
+    id: '1',
+    issueId: '1',
+    parentId: null,
+    body: 'This pothole damaged my tyre last week. Please fix it soon!',
+    authorId: mockUsers[1].id,
+    authorName: mockUsers[1].name,
+    authorIsAdmin: false,
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 6), // 6 days ago
+    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 6)
+  },
+  {
+    id: '2',
+    issueId: '1',
+    parentId: '1',
+    body: 'Thanks for the report. A road crew has been scheduled for next week.',
+    authorId: mockUsers[2].id,
+    authorName: mockUsers[2].name,
+    authorIsAdmin: true,
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 5), // 5 days ago
+    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 5)
+  },
+  {
+    id: '3',
+    issueId: '3',
+    parentId: null,
+    body: 'The water is now flowing onto the sidewalk as well.',
+    authorId: mockUsers[0].id,
+    authorName: mockUsers[0].name,
+    authorIsAdmin: false,
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 2), // 2 days ago
+    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 2)
+  },
+];
+
+// Keep the denormalised comment count on an issue in step with its thread
+const syncCommentCount = (issueId: string) => {
+  const issue = mockIssues.find(i => i.id === issueId);
+  if (issue) {
+    issue.commentCount = mockComments.filter(c => c.issueId === issueId && !c.deleted).length;
+  }
+};
+
+mockIssues.forEach(issue => syncCommentCount(issue.id));
+
+// Ids of the users who voted "me too" on each issue
+const mockVotes: Record<string, string[]> = {
+  '1': [mockUsers[1].id, mockUsers[2].id],
+  '2': [mockUsers[0].id],
+  '3': [mockUsers[1].id]
+};
+
+mockIssues.forEach(issue => {
+  issue.voteCount = (mockVotes[issue.id] || []).length;
+});
+
 // Mock authentication token
 const mockToken = 'mock-jwt-token';
 
+// Passwords changed through the reset flow; everyone else logs in with "password"
+const mockPasswords: Record<string, string> = {};
+
+// Single-use tokens that would be emailed to the user, keyed by token
+const mockPasswordResetTokens: Record<string, { userId: string; expiresAt: number }> = {};
+const mockVerificationTokens: Record<string, string> = {};
+
+// Issue ids by the idempotency key they were created with
+const mockIdempotencyKeys: Record<string, string> = {};
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Keep the stored session user in step with changes to the mock user record
+const syncStoredUser = (user: User) => {
+  const storedUser = localStorage.getItem('mock_current_user');
+  if (storedUser && (JSON.parse(storedUser) as User).id === user.id) {
+    localStorage.setItem('mock_current_user', JSON.stringify(user));
+  }
+};
+
+// Stand-in for sending a verification email
+const issueVerificationToken = (user: User): string => {
+  const token = uuidv4();
+  mockVerificationTokens[token] = user.id;
+  console.log(`mockService: verification link for ${user.email}: /verify-email?token=${token}`);
+  return token;
+};
+
+// Returns the user logged in through the mock service, falling back to the first mock user.
+// Suspending an account ends its sessions, so requests made as a suspended user fail with a 401.
+const getActiveUser = (): User => {
+  const storedUser = localStorage.getItem('mock_current_user');
+  if (storedUser) {
+    const parsed = JSON.parse(storedUser) as User;
+    const user = mockUsers.find(u => u.id === parsed.id) || parsed;
+    if (user.status === 'suspended') {
+      const error = new Error('This account has been suspended');
+      (error as any).statusCode = 401;
+      throw error;
+    }
+    return user;
+  }
+  return mockUsers[0];
+};
+
+// Attach the per-viewer vote flag the backend computes for the requesting user
+const withVoteState = (issue: Issue): Issue => ({
+  ...issue,
+  voteCount: (mockVotes[issue.id] || []).length,
+  hasVoted: (mockVotes[issue.id] || []).includes(getActiveUser().id)
+});
+
+// Filters accepted by the mock issue list, as they arrive from query params
+interface MockIssueFilters {
+  search?: string;
+  status?: string;
+  statuses?: string | string[];
+  category?: string;
+  categories?: string | string[];
+  reportedFrom?: string;
+  reportedTo?: string;
+  reportedBy?: string;
+  hasPhotos?: boolean | string;
+  isFlagged?: boolean | string;
+  overdue?: boolean | string;
+  sort?: string;
+  order?: 'asc' | 'desc';
+}
+
+// Query params carry lists as comma-separated strings
+const toList = (value?: string | string[]): string[] => {
+  if (!value) return [];
+  return Array.isArray(value) ? value : value.split(',').filter(Boolean);
+};
+
+const isTruthy = (value?: boolean | string): boolean => value === true || value === 'true';
+
+// Issues that haven't been moved to the trash
+const activeIssues = (): Issue[] => mockIssues.filter(issue => !issue.deletedAt);
+
+// Find an issue that hasn't been deleted
+const findActiveIssue = (id: string): Issue | undefined => activeIssues().find(i => i.id === id);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Workflow order used for the analytics status funnel
+const STATUS_ORDER: IssueStatus[] = [
+  IssueStatus.REPORTED,
+  IssueStatus.UNDER_REVIEW,
+  IssueStatus.IN_PROGRESS,
+  IssueStatus.RESOLVED,
+  IssueStatus.CLOSED
+];
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Midnight on the Monday of the week a date falls in
+const startOfWeek = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// When an issue was first resolved; older issues without that history fall back to their last update
+const getResolvedAt = (issue: Issue): Date | null => {
+  const log = (issue.statusLogs || []).find(l => l.status === IssueStatus.RESOLVED && isStatusChange(l));
+  if (log) return new Date(log.changedAt);
+  return issue.status === IssueStatus.RESOLVED ? new Date(issue.updatedAt) : null;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Group reports by town rather than street: "123 Main St, New York, NY" becomes "New York, NY"
+const getLocationArea = (issue: Issue): string => {
+  const parts = (issue.location.address || '').split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length > 1) return parts.slice(1).join(', ');
+  if (parts.length === 1) return parts[0];
+  return `${issue.location.latitude.toFixed(2)}, ${issue.location.longitude.toFixed(2)}`;
+};
+
+// Permanently drop trashed issues whose retention window has passed
+const purgeExpiredIssues = () => {
+  const cutoff = Date.now() - ISSUE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  for (let i = mockIssues.length - 1; i >= 0; i--) {
+    const { deletedAt } = mockIssues[i];
+    if (deletedAt && new Date(deletedAt).getTime() < cutoff) {
+      mockIssues.splice(i, 1);
+    }
+  }
+};
+
+// Attach the issue and user records that the backend expands on status requests
+const expandStatusRequest = (request: StatusRequest): StatusRequest => ({
+  ...request,
+  issue: mockIssues.find(i => i.id === request.issueId),
+  requester: mockUsers.find(u => u.id === request.requestedBy),
+  reviewer: request.reviewedBy ? mockUsers.find(u => u.id === request.reviewedBy) : undefined
+});
+
 // Mock service implementation
 const mockService = {
   // Auth methods
@@ -153,8 +428,13 @@ const mockService = {
     const user = mockUsers.find(u => u.email === email);
     console.log('mockService: found user:', user ? 'yes' : 'no');
     
-    // In a real app, we would verify the password here
-    if (user && password === 'password') {
+    if (user && user.status === 'suspended') {
+      console.log('mockService: login failed - account suspended');
+      throw new Error('This account has been suspended');
+    }
+    
+    // In a real app, we would verify the password hash here
+    if (user && password === (mockPasswords[user.id] || 'password')) {
       console.log('mockService: login successful');
       const token = 'mock-jwt-token-' + Date.now();
       localStorage.setItem('mock_current_user', JSON.stringify(user));
@@ -179,11 +459,16 @@ const mockService = {
       username,
       name: username, // Default name to username
       email,
-      role: 'user',
+      role: 'citizen',
+      status: 'active',
+      emailVerified: false,
       createdAt: new Date()
     };
     
     mockUsers.push(newUser);
+    mockPasswords[newUser.id] = password;
+    localStorage.setItem('mock_current_user', JSON.stringify(newUser));
+    issueVerificationToken(newUser);
     return { user: newUser, token: mockToken };
   },
   
@@ -195,15 +480,22 @@ const mockService = {
     // Check if we have a stored user from login
     const storedUser = localStorage.getItem('mock_current_user');
     if (storedUser) {
+      const parsed = JSON.parse(storedUser) as User;
+      const user = mockUsers.find(u => u.id === parsed.id) || parsed;
+      // A suspended account is signed out on its next request
+      if (user.status === 'suspended') {
+        console.log('mockService: stored user is suspended');
+        return null;
+      }
       console.log('mockService: returning stored user');
-      return JSON.parse(storedUser);
+      return user;
     }
     
     // If no stored user but we have a token, return a default admin user
     const token = localStorage.getItem('token');
     if (token && token.startsWith('mock-jwt-token')) {
       console.log('mockService: returning default admin user');
-      return mockUsers.find(user => user.role === 'admin');
+      return mockUsers.find(user => user.role === 'admin') ?? null;
     }
     
     console.log('mockService: no authenticated user found');
@@ -217,29 +509,133 @@ const mockService = {
     return { success: true };
   },
   
+  requestPasswordReset: async (email: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    // Respond the same way for unknown addresses so accounts can't be discovered
+    const user = mockUsers.find(u => u.email.toLowerCase() === String(email).toLowerCase());
+    if (user) {
+      const token = uuidv4();
+      mockPasswordResetTokens[token] = { userId: user.id, expiresAt: Date.now() + RESET_TOKEN_TTL_MS };
+      console.log(`mockService: password reset link for ${user.email}: /reset-password?token=${token}`);
+    }
+    return { success: true };
+  },
+  
+  resetPassword: async (token: string, password: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const entry = mockPasswordResetTokens[token];
+    delete mockPasswordResetTokens[token];
+    if (!entry || entry.expiresAt < Date.now()) {
+      throw new Error('This password reset link is invalid or has expired');
+    }
+    
+    mockPasswords[entry.userId] = password;
+    return { success: true };
+  },
+  
+  verifyEmail: async (token: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const userId = mockVerificationTokens[token];
+    const user = userId ? mockUsers.find(u => u.id === userId) : undefined;
+    if (!user) {
+      throw new Error('This verification link is invalid or has already been used');
+    }
+    
+    delete mockVerificationTokens[token];
+    user.emailVerified = true;
+    syncStoredUser(user);
+    return user;
+  },
+  
+  resendVerificationEmail: async () => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const user = mockUsers.find(u => u.id === getActiveUser().id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.emailVerified !== false) {
+      throw new Error('Your email address is already verified');
+    }
+    
+    issueVerificationToken(user);
+    return { success: true };
+  },
+  
   // Issue methods
-  getAllIssues: async () => {
+  getAllIssues: async (filters: MockIssueFilters = {}) => {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    return mockIssues;
+    const statuses = toList(filters.statuses || filters.status);
+    const categories = toList(filters.categories || filters.category);
+    const term = filters.search ? String(filters.search).toLowerCase() : '';
+    const reporter = filters.reportedBy ? String(filters.reportedBy).toLowerCase() : '';
+    const from = filters.reportedFrom ? new Date(`${filters.reportedFrom}T00:00:00`).getTime() : null;
+    const to = filters.reportedTo ? new Date(`${filters.reportedTo}T23:59:59.999`).getTime() : null;
+    
+    const matches = activeIssues().filter(issue => {
+      const reportedAt = new Date(issue.reportedAt).getTime();
+      const reporterUser = mockUsers.find(u => u.id === issue.reportedBy);
+      
+      return (statuses.length === 0 || statuses.includes(issue.status)) &&
+        (categories.length === 0 || categories.includes(issue.category)) &&
+        (!term ||
+          issue.title.toLowerCase().includes(term) ||
+          issue.description.toLowerCase().includes(term) ||
+          (issue.location.address || '').toLowerCase().includes(term)) &&
+        (!reporter ||
+          issue.reportedBy.toLowerCase() === reporter ||
+          (!!reporterUser && (
+            reporterUser.username.toLowerCase().includes(reporter) ||
+            reporterUser.name.toLowerCase().includes(reporter)
+          ))) &&
+        (from === null || reportedAt >= from) &&
+        (to === null || reportedAt <= to) &&
+        (!isTruthy(filters.hasPhotos) || issue.photos.length > 0) &&
+        (!isTruthy(filters.isFlagged) || (issue.flags?.length ?? 0) > 0) &&
+        (!isTruthy(filters.overdue) || isOverdue(issue));
+    }).map(withVoteState);
+
+    if (filters.sort) {
+      const sortConfig = { field: filters.sort, direction: filters.order === 'asc' ? 'asc' as const : 'desc' as const };
+      matches.sort((a, b) => compareIssues(a, b, sortConfig));
+    }
+    return matches;
   },
   
   getIssueById: async (id: string) => {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    const issue = mockIssues.find(i => i.id === id);
+    const issue = findActiveIssue(id);
     if (!issue) {
       throw new Error('Issue not found');
     }
-    return issue;
+    return withVoteState(issue);
   },
   
-  createIssue: async (issueData: any) => {
+  createIssue: async (issueData: any, idempotencyKey?: string) => {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
+    if (needsEmailVerification(getActiveUser())) {
+      throw new Error('Verify your email address before reporting issues');
+    }
+    // A repeated submission returns the issue created the first time
+    const existing = idempotencyKey && mockIssues.find(i => i.id === mockIdempotencyKeys[idempotencyKey]);
+    if (existing) {
+      return withVoteState(existing);
+    }
+    
+    const department = findDepartmentForCategory(issueData.category);
     const newIssue: Issue = {
       id: uuidv4(),
       title: issueData.title,
@@ -247,31 +643,50 @@ const mockService = {
       category: issueData.category,
       status: IssueStatus.REPORTED,
       location: issueData.location,
-      photos: issueData.photos ? ['https://example.com/mock-photo.jpg'] : [],
-      reportedBy: mockUsers[0].id,
+      photos: issueData.photos && issueData.photos.length > 0 ? ['https://example.com/mock-photo.jpg'] : [],
+      reportedBy: getActiveUser().id,
       reportedAt: new Date(),
       updatedAt: new Date(),
+      assignedTo: createAssignment(department),
       statusLogs: [{
         id: uuidv4(),
         status: IssueStatus.REPORTED,
-        changedBy: mockUsers[0].id,
+        changedBy: getActiveUser().id,
         changedAt: new Date(),
         comment: 'Issue reported'
+      }, {
+        id: uuidv4(),
+        status: IssueStatus.REPORTED,
+        changedBy: 'system',
+        changedAt: new Date(),
+        comment: `Automatically assigned to ${department.name}`,
+        kind: 'assignment',
+        assignedTo: createAssignment(department)
       }]
     };
     
     mockIssues.push(newIssue);
-    return newIssue;
+    if (idempotencyKey) {
+      mockIdempotencyKeys[idempotencyKey] = newIssue.id;
+    }
+    return withVoteState(newIssue);
   },
   
   updateIssueStatus: async (id: string, status: IssueStatus, comment?: string) => {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    const issue = mockIssues.find(i => i.id === id);
+    const issue = findActiveIssue(id);
     if (!issue) {
       throw new Error('Issue not found');
     }
+    if (!can(getActiveUser(), 'issue:updateStatus', issue)) {
+      throw new Error('You are not allowed to change the status of this issue');
+    }
+    const transitionError = validateTransition(issue.status, status, comment);
+    if (transitionError) {
+      throw new Error(transitionError);
+    }
     
     issue.status = status;
     issue.updatedAt = new Date();
@@ -279,7 +694,7 @@ const mockService = {
     const statusLog: StatusLog = {
       id: uuidv4(),
       status,
-      changedBy: mockUsers[0].id,
+      changedBy: getActiveUser().id,
       changedAt: new Date(),
       comment: comment || `Status changed to ${status}`
     };
@@ -289,24 +704,25 @@ const mockService = {
     }
     
     issue.statusLogs.push(statusLog);
-    return issue;
+    return withVoteState(issue);
   },
   
   flagIssue: async (id: string, reason: string) => {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    const issue = mockIssues.find(i => i.id === id);
+    const issue = findActiveIssue(id);
     if (!issue) {
       throw new Error('Issue not found');
     }
     
+    const activeUser = getActiveUser();
     const flag: Flag = {
       id: uuidv4(),
       reason,
-      reportedBy: mockUsers[0].id,
+      reportedBy: activeUser.id,
       reportedAt: new Date(),
-      flaggedBy: mockUsers[0].username,
+      flaggedBy: activeUser.username,
       flaggedAt: new Date()
     };
     
@@ -315,6 +731,352 @@ const mockService = {
     }
     
     issue.flags.push(flag);
+    return withVoteState(issue);
+  },
+  
+  clearFlags: async (id: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const issue = findActiveIssue(id);
+    if (!issue) {
+      throw new Error('Issue not found');
+    }
+    if (!can(getActiveUser(), 'flag:review', issue)) {
+      throw new Error('You are not allowed to review flags');
+    }
+    
+    issue.flags = [];
+    return withVoteState(issue);
+  },
+  
+  voteIssue: async (id: string, voted: boolean) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const issue = findActiveIssue(id);
+    if (!issue) {
+      throw new Error('Issue not found');
+    }
+    
+    const userId = getActiveUser().id;
+    const voters = (mockVotes[id] || []).filter(voterId => voterId !== userId);
+    mockVotes[id] = voted ? [...voters, userId] : voters;
+    issue.voteCount = mockVotes[id].length;
+    return withVoteState(issue);
+  },
+  
+  mergeIssues: async (canonicalId: string, issueIds: string[]) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const canonical = findActiveIssue(canonicalId);
+    if (!canonical) {
+      throw new Error('Issue not found');
+    }
+    if (!can(getActiveUser(), 'issue:merge', canonical)) {
+      throw new Error('You are not allowed to merge issues');
+    }
+    if (canonical.mergedInto) {
+      throw new Error('Cannot merge into an issue that has itself been merged');
+    }
+    
+    const ids = issueIds.filter((id, index) => id !== canonicalId && issueIds.indexOf(id) === index);
+    if (ids.length === 0) {
+      throw new Error('Select at least one other issue to merge');
+    }
+    const sources = ids.map(id => {
+      const issue = findActiveIssue(id);
+      if (!issue) {
+        throw new Error(`Issue ${id} not found`);
+      }
+      if (issue.mergedInto) {
+        throw new Error(`"${issue.title}" has already been merged`);
+      }
+      return issue;
+    });
+    
+    const activeUser = getActiveUser();
+    const now = new Date();
+    const reporters = canonical.reporters || [canonical.reportedBy];
+    const voters = mockVotes[canonicalId] || [];
+    
+    sources.forEach(source => {
+      canonical.photos = [...canonical.photos, ...source.photos.filter(photo => canonical.photos.indexOf(photo) === -1)];
+      canonical.flags = [...(canonical.flags || []), ...(source.flags || [])];
+      // Keep the duplicate's history for reference, marked as not the canonical issue's own
+      canonical.statusLogs = [
+        ...(canonical.statusLogs || []),
+        ...(source.statusLogs || []).map(log => ({
+          ...log,
+          mergedFrom: log.mergedFrom || { issueId: source.id, title: source.title }
+        }))
+      ];
+      (source.reporters || [source.reportedBy]).forEach(reporter => {
+        if (reporters.indexOf(reporter) === -1) reporters.push(reporter);
+      });
+      (mockVotes[source.id] || []).forEach(voter => {
+        if (voters.indexOf(voter) === -1) voters.push(voter);
+      });
+      
+      source.status = IssueStatus.CLOSED;
+      source.mergedInto = canonical.id;
+      source.mergedAt = now;
+      source.updatedAt = now;
+      source.statusLogs = [...(source.statusLogs || []), {
+        id: uuidv4(),
+        status: IssueStatus.CLOSED,
+        changedBy: activeUser.id,
+        changedAt: now,
+        comment: `Merged into "${canonical.title}"`
+      }];
+    });
+    
+    canonical.statusLogs = [
+      ...(canonical.statusLogs || []).sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime()),
+      {
+        id: uuidv4(),
+        status: canonical.status,
+        changedBy: activeUser.id,
+        changedAt: now,
+        kind: 'merge',
+        comment: `Merged ${sources.length} duplicate issue${sources.length === 1 ? '' : 's'}: ${sources.map(s => `"${s.title}"`).join(', ')}`
+      }
+    ];
+    canonical.reporters = reporters;
+    canonical.mergedIssueIds = [...(canonical.mergedIssueIds || []), ...ids];
+    canonical.updatedAt = now;
+    mockVotes[canonicalId] = voters;
+    canonical.voteCount = voters.length;
+    return withVoteState(canonical);
+  },
+  
+  addIssuePhotos: async (id: string, photos: any[] = []) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const issue = findActiveIssue(id);
+    if (!issue) {
+      throw new Error('Issue not found');
+    }
+    if (needsEmailVerification(getActiveUser())) {
+      throw new Error('Verify your email address before adding photos');
+    }
+    if (photos.length === 0) {
+      throw new Error('At least one photo is required');
+    }
+    
+    issue.photos = [
+      ...issue.photos,
+      ...photos.map((_, index) => `https://example.com/mock-photo-${issue.photos.length + index + 1}.jpg`)
+    ];
+    issue.updatedAt = new Date();
+    return withVoteState(issue);
+  },
+  
+  assignIssue: async (id: string, departmentId: string, staffId?: string | null) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const issue = findActiveIssue(id);
+    if (!issue) {
+      throw new Error('Issue not found');
+    }
+    const department = mockDepartments.find(d => d.id === departmentId);
+    if (!department) {
+      throw new Error('Department not found');
+    }
+    const staff = staffId ? mockUsers.find(u => u.id === staffId) : null;
+    if (staffId && (!staff || staff.departmentId !== department.id)) {
+      throw new Error(`Staff member is not part of ${department.name}`);
+    }
+    const activeUser = getActiveUser();
+    const assignedTo = createAssignment(department, staff);
+    // Staff may only move issues within their own department, on both ends
+    if (!can(activeUser, 'issue:assign', issue) || !can(activeUser, 'issue:assign', { ...issue, assignedTo })) {
+      throw new Error('You are not allowed to reassign this issue');
+    }
+    
+    const previous = issue.assignedTo;
+    issue.assignedTo = assignedTo;
+    issue.updatedAt = new Date();
+    issue.statusLogs = [...(issue.statusLogs || []), {
+      id: uuidv4(),
+      status: issue.status,
+      changedBy: activeUser.id,
+      changedAt: new Date(),
+      comment: previous
+        ? `Reassigned from ${previous.staffName || previous.departmentName} to ${staff ? staff.name : department.name}`
+        : `Assigned to ${staff ? staff.name : department.name}`,
+      kind: 'assignment',
+      assignedTo
+    }];
+    return withVoteState(issue);
+  },
+  
+  getMyQueue: async () => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const activeUser = getActiveUser();
+    if (!can(activeUser, 'queue:view') || !activeUser.departmentId) {
+      throw new Error('Only department staff have a work queue');
+    }
+    return activeIssues()
+      .filter(issue =>
+        issue.assignedTo?.departmentId === activeUser.departmentId &&
+        !issue.mergedInto &&
+        issue.status !== IssueStatus.RESOLVED &&
+        issue.status !== IssueStatus.CLOSED)
+      .map(withVoteState);
+  },
+  
+  getIssueAnalytics: async (filters: IssueAnalyticsFilters = {}): Promise<IssueAnalytics> => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 400));
+    
+    if (!can(getActiveUser(), 'analytics:view')) {
+      throw new Error('You are not allowed to view analytics');
+    }
+    const to = filters.to ? new Date(`${filters.to}T23:59:59.999`) : new Date();
+    const from = filters.from ? new Date(`${filters.from}T00:00:00`) : new Date(to.getTime() - 12 * 7 * DAY_MS);
+    const inRange = (date: Date | null) => !!date && date >= from && date <= to;
+    
+    // Merged duplicates would count the same problem twice
+    const issues = activeIssues().filter(issue =>
+      !issue.mergedInto && (!filters.category || issue.category === filters.category));
+    const reported = issues.filter(issue => inRange(new Date(issue.reportedAt)));
+    
+    const weekStarts: Date[] = [];
+    for (let week = startOfWeek(from); week <= to; week = new Date(week.getFullYear(), week.getMonth(), week.getDate() + 7)) {
+      weekStarts.push(week);
+    }
+    const weekly = weekStarts.map(week => {
+      const weekEnd = new Date(week.getFullYear(), week.getMonth(), week.getDate() + 7);
+      const inWeek = (date: Date | null) => !!date && date >= week && date < weekEnd;
+      return {
+        weekStart: toDateKey(week),
+        reported: reported.filter(issue => inWeek(new Date(issue.reportedAt))).length,
+        resolved: issues.filter(issue => inRange(getResolvedAt(issue)) && inWeek(getResolvedAt(issue))).length
+      };
+    });
+    
+    const hoursByCategory: Record<string, number[]> = {};
+    issues.forEach(issue => {
+      const resolvedAt = getResolvedAt(issue);
+      if (!resolvedAt || !inRange(resolvedAt)) return;
+      const hours = (resolvedAt.getTime() - new Date(issue.reportedAt).getTime()) / (60 * 60 * 1000);
+      hoursByCategory[issue.category] = [...(hoursByCategory[issue.category] || []), Math.max(0, hours)];
+    });
+    
+    // Closing is an exit from any stage, so a closed issue only reached the stages it actually passed through
+    const statusFunnel = STATUS_ORDER.map((status, index) => ({
+      status,
+      count: reported.filter(issue => {
+        const entered = [issue.status, ...(issue.statusLogs || []).filter(isStatusChange).map(log => log.status)];
+        if (status === IssueStatus.CLOSED) {
+          return entered.includes(IssueStatus.CLOSED);
+        }
+        const reachedIndex = Math.max(
+          0,
+          ...entered.filter(entry => entry !== IssueStatus.CLOSED).map(entry => STATUS_ORDER.indexOf(entry))
+        );
+        return reachedIndex >= index;
+      }).length
+    }));
+    
+    const flaggedIssues = reported.filter(issue => (issue.flags?.length ?? 0) > 0).length;
+    
+    const areaCounts: Record<string, number> = {};
+    reported.forEach(issue => {
+      const area = getLocationArea(issue);
+      areaCounts[area] = (areaCounts[area] || 0) + 1;
+    });
+    
+    return {
+      weekly,
+      resolutionTimes: Object.keys(hoursByCategory)
+        .map(category => ({
+          category,
+          medianHours: Math.round(median(hoursByCategory[category]) * 10) / 10,
+          resolvedCount: hoursByCategory[category].length
+        }))
+        .sort((a, b) => b.medianHours - a.medianHours),
+      statusFunnel,
+      flagRate: {
+        flaggedIssues,
+        totalIssues: reported.length,
+        rate: reported.length > 0 ? flaggedIssues / reported.length : 0
+      },
+      topLocations: Object.keys(areaCounts)
+        .map(location => ({ location, count: areaCounts[location] }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5)
+    };
+  },
+  
+  getDepartments: async () => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 200));
+    
+    return mockDepartments.map(department => ({
+      ...department,
+      staff: mockUsers
+        .filter(user => user.departmentId === department.id && user.status !== 'suspended')
+        .map(user => ({ id: user.id, name: user.name }))
+    }));
+  },
+  
+  deleteIssue: async (id: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const issue = findActiveIssue(id);
+    if (!issue) {
+      throw new Error('Issue not found');
+    }
+    if (!can(getActiveUser(), 'issue:delete', issue)) {
+      throw new Error('You are not allowed to delete this issue');
+    }
+    
+    issue.deletedAt = new Date();
+    issue.deletedBy = getActiveUser().id;
+    return issue;
+  },
+  
+  getDeletedIssues: async () => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    if (!can(getActiveUser(), 'issue:restore')) {
+      throw new Error('You are not allowed to view deleted issues');
+    }
+    purgeExpiredIssues();
+    return mockIssues
+      .filter(issue => issue.deletedAt)
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime())
+      .map(issue => ({
+        ...issue,
+        deletedByName: mockUsers.find(u => u.id === issue.deletedBy)?.name ?? null
+      }));
+  },
+  
+  restoreIssue: async (id: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    purgeExpiredIssues();
+    const issue = mockIssues.find(i => i.id === id && i.deletedAt);
+    if (!issue) {
+      throw new Error('Deleted issue not found or retention period has expired');
+    }
+    if (!can(getActiveUser(), 'issue:restore', issue)) {
+      throw new Error('You are not allowed to restore issues');
+    }
+    
+    issue.deletedAt = null;
+    issue.deletedBy = null;
+    issue.updatedAt = new Date();
     return issue;
   },
   
@@ -322,17 +1084,344 @@ const mockService = {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    // Filter issues by current user (in this case, mockUsers[0])
-    return mockIssues.filter(issue => issue.reportedBy === mockUsers[0].id);
+    // Filter issues by the currently logged in mock user
+    const activeUser = getActiveUser();
+    return activeIssues().filter(issue => issue.reportedBy === activeUser.id).map(withVoteState);
   },
   
   getNearbyIssues: async (latitude: number, longitude: number, radius: number = 5) => {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    // In a real app, we would calculate distance and filter by radius
-    // For mock purposes, just return all issues
-    return mockIssues;
+    // Radius is expressed in kilometres, like the backend
+    return activeIssues().filter(issue =>
+      distanceInKm(latitude, longitude, issue.location.latitude, issue.location.longitude) <= radius
+    ).map(withVoteState);
+  },
+
+  // Profile methods
+  updateProfile: async (profileData: Partial<Pick<User, 'name' | 'email' | 'username'>>) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const activeUser = getActiveUser();
+    const user = mockUsers.find(u => u.id === activeUser.id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    
+    if (mockUsers.some(u => u.id !== user.id && (u.email === profileData.email || u.username === profileData.username))) {
+      throw new Error('Email or username is already taken');
+    }
+    
+    Object.assign(user, profileData);
+    localStorage.setItem('mock_current_user', JSON.stringify(user));
+    return user;
+  },
+
+  // Status request methods
+  createStatusRequest: async (issueId: string, requestedStatus: IssueStatus, reason?: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const issue = findActiveIssue(issueId);
+    if (!issue) {
+      throw new Error('Issue not found');
+    }
+    
+    const transitionError = validateTransition(issue.status, requestedStatus, reason);
+    if (transitionError) {
+      throw new Error(transitionError);
+    }
+    
+    const activeUser = getActiveUser();
+    if (mockStatusRequests.some(r => r.issueId === issueId && r.requestedBy === activeUser.id && r.status === 'pending')) {
+      throw new Error('You already have a pending request for this issue');
+    }
+    
+    const request: StatusRequest = {
+      id: uuidv4(),
+      issueId,
+      requestedBy: activeUser.id,
+      currentStatus: issue.status,
+      requestedStatus,
+      reason,
+      status: 'pending',
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewComment: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    
+    mockStatusRequests.push(request);
+    return expandStatusRequest(request);
+  },
+  
+  getIssueStatusRequests: async (issueId: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    return mockStatusRequests
+      .filter(r => r.issueId === issueId)
+      .map(expandStatusRequest);
+  },
+  
+  getMyStatusRequests: async () => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const activeUser = getActiveUser();
+    return mockStatusRequests
+      .filter(r => r.requestedBy === activeUser.id)
+      .map(expandStatusRequest);
+  },
+  
+  getAllStatusRequests: async (status?: StatusRequestState, search?: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    
+    const activeUser = getActiveUser();
+    if (!can(activeUser, 'statusRequest:review')) {
+      throw new Error('You are not allowed to review status requests');
+    }
+    const term = search ? search.toLowerCase() : '';
+    return mockStatusRequests
+      .filter(r => !status || r.status === status)
+      .map(expandStatusRequest)
+      // Staff only see requests they could approve
+      .filter(r => can(activeUser, 'statusRequest:review', r.issue))
+      .filter(r => !term ||
+        (r.issue?.title || '').toLowerCase().includes(term) ||
+        (r.requester?.name || '').toLowerCase().includes(term) ||
+        (r.reason || '').toLowerCase().includes(term));
+  },
+  
+  reviewStatusRequest: async (id: string, action: StatusRequestAction, reviewComment?: string) => {
+    const request = mockStatusRequests.find(r => r.id === id);
+    if (!request) {
+      throw new Error('Status request not found');
+    }
+    if (!can(getActiveUser(), 'statusRequest:review', mockIssues.find(i => i.id === request.issueId))) {
+      throw new Error('You are not allowed to review this status request');
+    }
+    if (request.status !== 'pending') {
+      throw new Error('Status request has already been reviewed');
+    }
+    
+    if (action === 'approve') {
+      await mockService.updateIssueStatus(
+        request.issueId,
+        request.requestedStatus as IssueStatus,
+        reviewComment || request.reason
+      );
+    }
+    
+    request.status = action === 'approve' ? 'approved' : 'rejected';
+    request.reviewedBy = getActiveUser().id;
+    request.reviewedAt = new Date();
+    request.reviewComment = reviewComment || null;
+    request.updatedAt = new Date();
+    return expandStatusRequest(request);
+  },
+
+  // Comment methods
+  getComments: async (issueId: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    if (!findActiveIssue(issueId)) {
+      throw new Error('Issue not found');
+    }
+    return mockComments
+      .filter(c => c.issueId === issueId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  },
+  
+  createComment: async (issueId: string, body: string, parentId?: string | null) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    if (!findActiveIssue(issueId)) {
+      throw new Error('Issue not found');
+    }
+    if (!body || !body.trim()) {
+      throw new Error('Comment cannot be empty');
+    }
+    if (parentId) {
+      const parent = mockComments.find(c => c.id === parentId && c.issueId === issueId);
+      if (!parent || parent.deleted) {
+        throw new Error('Parent comment not found');
+      }
+    }
+    
+    const activeUser = getActiveUser();
+    const comment: Comment = {
+      id: uuidv4(),
+      issueId,
+      parentId: parentId || null,
+      body: body.trim(),
+      authorId: activeUser.id,
+      authorName: activeUser.name,
+      authorIsAdmin: activeUser.role === 'admin',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      editedAt: null
+    };
+    
+    mockComments.push(comment);
+    syncCommentCount(issueId);
+    return comment;
+  },
+  
+  updateComment: async (id: string, body: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const comment = mockComments.find(c => c.id === id && !c.deleted);
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+    if (comment.authorId !== getActiveUser().id) {
+      throw new Error('You can only edit your own comments');
+    }
+    if (!body || !body.trim()) {
+      throw new Error('Comment cannot be empty');
+    }
+    
+    comment.body = body.trim();
+    comment.editedAt = new Date();
+    comment.updatedAt = new Date();
+    return comment;
+  },
+  
+  deleteComment: async (id: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const comment = mockComments.find(c => c.id === id && !c.deleted);
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+    const activeUser = getActiveUser();
+    if (!can(activeUser, 'comment:delete', comment)) {
+      throw new Error('You can only delete your own comments');
+    }
+    
+    // Keep a placeholder while replies hang off the comment, otherwise remove it outright
+    if (mockComments.some(c => c.parentId === id)) {
+      comment.deleted = true;
+      comment.body = '';
+      comment.updatedAt = new Date();
+    } else {
+      mockComments.splice(mockComments.indexOf(comment), 1);
+
+      // Drop placeholders that no longer have any replies under them
+      let parentId = comment.parentId;
+      while (parentId) {
+        const placeholderId: string = parentId;
+        const parent = mockComments.find(c => c.id === placeholderId);
+        if (!parent || !parent.deleted || mockComments.some(c => c.parentId === placeholderId)) {
+          break;
+        }
+        mockComments.splice(mockComments.indexOf(parent), 1);
+        parentId = parent.parentId;
+      }
+    }
+
+    syncCommentCount(comment.issueId);
+    return { id };
+  },
+
+  // User management methods
+  getUsers: async (search?: string, role?: UserRole) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const term = search ? search.toLowerCase() : '';
+    return mockUsers.filter(user =>
+      (!role || user.role === role) &&
+      (!term ||
+        user.name.toLowerCase().includes(term) ||
+        user.username.toLowerCase().includes(term) ||
+        user.email.toLowerCase().includes(term))
+    );
+  },
+  
+  getUserById: async (id: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const user = mockUsers.find(u => u.id === id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  },
+  
+  updateUserRole: async (id: string, role: UserRole, departmentId?: string | null) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const user = mockUsers.find(u => u.id === id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (!can(getActiveUser(), 'user:manage')) {
+      throw new Error('You are not allowed to manage users');
+    }
+    if (user.id === getActiveUser().id) {
+      throw new Error('You cannot change your own role');
+    }
+    // Staff without a department would be denied every issue and have no work queue
+    if (role === 'department_staff' && !mockDepartments.some(d => d.id === departmentId)) {
+      throw new Error('Choose the department this staff member works for');
+    }
+    
+    user.role = role;
+    user.isAdmin = role === 'admin';
+    user.departmentId = role === 'department_staff' ? departmentId : null;
+    return user;
+  },
+  
+  setUserStatus: async (id: string, suspended: boolean, reason?: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    const user = mockUsers.find(u => u.id === id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (!can(getActiveUser(), 'user:manage')) {
+      throw new Error('You are not allowed to manage users');
+    }
+    if (user.id === getActiveUser().id) {
+      throw new Error('You cannot suspend your own account');
+    }
+    
+    user.status = suspended ? 'suspended' : 'active';
+    user.suspendedAt = suspended ? new Date() : null;
+    user.suspensionReason = suspended ? reason || null : null;
+    return user;
+  },
+  
+  getIssuesByUserId: async (id: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    return activeIssues().filter(issue => issue.reportedBy === id).map(withVoteState);
+  },
+  
+  getFlagsByUserId: async (id: string) => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    return activeIssues().reduce<UserFlag[]>((flags, issue) => [
+      ...flags,
+      ...(issue.flags || [])
+        .filter(flag => flag.reportedBy === id)
+        .map(flag => ({ ...flag, issueId: issue.id, issueTitle: issue.title }))
+    ], []);
   }
 };
 
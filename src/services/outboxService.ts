@@ -0,0 +1,211 @@
+import { Issue } from '../types';
+import issueService, { IssueFormData } from './issueService';
+import { isOnline } from '../utils/networkUtils';
+import { v4 as uuidv4 } from 'uuid';
+
+const DB_NAME = 'civitrack-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'pendingIssues';
+
+/**
+ * An issue report saved on the device while it could not be sent
+ */
+export interface OutboxEntry {
+  /** Auto-incremented key; also the replay order */
+  id: number;
+  /** User who submitted the report; entries only replay for that user */
+  userId: string;
+  /** Form data as submitted, photos included as File blobs */
+  data: IssueFormData;
+  createdAt: Date;
+  /** Sent with every attempt, so the server creates the issue once however often the report is replayed */
+  idempotencyKey: string;
+  attempts: number;
+  /** Message from the last failed replay, if the server rejected the report */
+  lastError?: string;
+}
+
+export interface OutboxFlushResult {
+  synced: Issue[];
+  failed: OutboxEntry[];
+  /** Entries left untouched because the connection dropped or the session expired mid-replay */
+  remaining: number;
+}
+
+type OutboxListener = () => void;
+
+const listeners = new Set<OutboxListener>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushPromise: Promise<OutboxFlushResult> | null = null;
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+// Errors that mean "try again later" rather than "the server rejected this report"
+const isConnectivityError = (error: any): boolean =>
+  !isOnline() ||
+  error?.errorCode === 'NETWORK_ERROR' ||
+  error?.errorCode === 'TIMEOUT_ERROR' ||
+  (typeof error?.statusCode === 'number' && error.statusCode >= 500);
+
+// The session expired or the token couldn't be refreshed; the report itself may be fine
+const isAuthError = (error: any): boolean =>
+  error?.statusCode === 401 || error?.statusCode === 403;
+
+// Send entries one at a time; a call made while a replay is running shares that replay
+const runReplay = (loadEntries: () => Promise<OutboxEntry[]>): Promise<OutboxFlushResult> => {
+  if (flushPromise) return flushPromise;
+
+  const replay = (async () => {
+    notify();
+    const result: OutboxFlushResult = { synced: [], failed: [], remaining: 0 };
+    const entries = await loadEntries();
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      try {
+        const issue = await issueService.createIssue(entry.data, { idempotencyKey: entry.idempotencyKey });
+        await withStore('readwrite', store => store.delete(entry.id));
+        result.synced.push(issue);
+      } catch (error: any) {
+        // Keep the report pending and try again once connected and signed in
+        if (isConnectivityError(error) || isAuthError(error)) {
+          result.remaining = entries.length - i;
+          break;
+        }
+        const failed: OutboxEntry = {
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: error?.message || 'The server rejected this report'
+        };
+        await withStore('readwrite', store => store.put(failed));
+        result.failed.push(failed);
+      }
+      notify();
+    }
+
+    return result;
+  })();
+
+  flushPromise = replay.finally(() => {
+    flushPromise = null;
+    notify();
+  });
+  return flushPromise;
+};
+
+// Start a replay of its own once any replay already running has finished
+const queueReplay = async (loadEntries: () => Promise<OutboxEntry[]>): Promise<OutboxFlushResult> => {
+  while (flushPromise) {
+    await flushPromise.catch(() => undefined);
+  }
+  return runReplay(loadEntries);
+};
+
+const outboxService = {
+  /** Whether this browser can persist reports offline */
+  isSupported: (): boolean => typeof indexedDB !== 'undefined',
+
+  /**
+   * Decide whether a failed createIssue call should be queued instead of surfaced
+   */
+  shouldQueue: (error: any): boolean => isConnectivityError(error),
+
+  /**
+   * Save a report for later submission
+   * @param idempotencyKey - Key already sent with an attempt to submit the report, if any,
+   *   so a request that reached the server before failing isn't filed a second time
+   */
+  enqueue: async (userId: string, data: IssueFormData, idempotencyKey: string = uuidv4()): Promise<OutboxEntry> => {
+    const entry: Omit<OutboxEntry, 'id'> = {
+      userId,
+      data,
+      createdAt: new Date(),
+      idempotencyKey,
+      attempts: 0
+    };
+    const id = await withStore('readwrite', store => store.add(entry));
+    notify();
+    return { ...entry, id: id as number };
+  },
+
+  /**
+   * Pending reports in submission order, optionally limited to one user
+   */
+  getEntries: async (userId?: string): Promise<OutboxEntry[]> => {
+    if (!outboxService.isSupported()) return [];
+    const entries = await withStore<OutboxEntry[]>('readonly', store => store.getAll());
+    return entries
+      .filter(entry => !userId || entry.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  },
+
+  /**
+   * Drop a pending report without sending it
+   */
+  remove: async (id: number): Promise<void> => {
+    await withStore('readwrite', store => store.delete(id));
+    notify();
+  },
+
+  /**
+   * Replay a user's pending reports in the order they were made. Stops at the first
+   * connectivity or sign-in failure so later reports never overtake earlier ones; reports the
+   * server rejects are kept with their error so the user can review or discard them,
+   * and are skipped by later replays until the user retries them.
+   * Concurrent calls share the same replay.
+   */
+  flush: (userId: string): Promise<OutboxFlushResult> =>
+    runReplay(async () => (await outboxService.getEntries(userId)).filter(entry => !entry.lastError)),
+
+  /**
+   * Send one of a user's reports again, typically one the server rejected before.
+   * Waits for a replay already running, which skips rejected reports, to finish first.
+   */
+  retry: (userId: string, id: number): Promise<OutboxFlushResult> =>
+    queueReplay(async () => (await outboxService.getEntries(userId)).filter(entry => entry.id === id)),
+
+  /** Whether a replay is currently running */
+  isFlushing: (): boolean => flushPromise !== null,
+
+  /**
+   * Listen for changes to the outbox
+   * @returns Function that removes the listener
+   */
+  subscribe: (listener: OutboxListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
+
+export default outboxService;
@@ -1,5 +1,5 @@
 import api from './api';
-import { IssueStatus } from '../types';
+import { IssueStatus, Pagination } from '../types';
 
 export type StatusRequestAction = 'approve' | 'reject';
 export type StatusRequestState = 'pending' | 'approved' | 'rejected';
@@ -49,9 +49,12 @@ const statusRequestService = {
     return response.data as unknown as StatusRequest[];
   },
 
-  // Admin: list all status requests
-  adminGetStatusRequests: async (params?: { page?: number; limit?: number; status?: StatusRequestState }): Promise<{ statusRequests: StatusRequest[]; pagination: any; }> => {
-    const response = await api.get<{ statusRequests: StatusRequest[]; pagination: any }>(`/status-requests`, { params });
+  // Admin: list all status requests, optionally matching a search term
+  adminGetStatusRequests: async (
+    params?: { page?: number; limit?: number; status?: StatusRequestState; search?: string },
+    options?: { signal?: AbortSignal }
+  ): Promise<{ statusRequests: StatusRequest[]; pagination: Pagination; }> => {
+    const response = await api.get<{ statusRequests: StatusRequest[]; pagination: Pagination }>(`/status-requests`, { params, signal: options?.signal });
     return response.data;
   },
 
@@ -0,0 +1,88 @@
+// Storage keys; `token` is also the key other tabs and components listen to for login/logout
+const ACCESS_TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+/** Access tokens are refreshed when they are this close to expiring */
+export const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface TokenPair {
+  token: string;
+  /** Omitted when the backend keeps the current refresh token; null removes it */
+  refreshToken?: string | null;
+}
+
+// Let components listening for storage events (useAuth, Layout) know the session changed
+const notifyTokenChange = (newValue: string | null, oldValue: string | null) => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: ACCESS_TOKEN_KEY,
+      newValue,
+      oldValue,
+      storageArea: localStorage
+    }));
+  }
+};
+
+// Decode the payload of a JWT; opaque tokens (e.g. from the mock service) decode to null
+const decodePayload = (token: string): Record<string, any> | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    return JSON.parse(atob(padded));
+  } catch {
+    return null;
+  }
+};
+
+const tokenService = {
+  getAccessToken: (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY),
+
+  getRefreshToken: (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY),
+
+  // Store the tokens from a login, registration or refresh
+  setTokens: ({ token, refreshToken }: TokenPair, notify: boolean = true): void => {
+    const previous = localStorage.getItem(ACCESS_TOKEN_KEY);
+    localStorage.setItem(ACCESS_TOKEN_KEY, token);
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    } else if (refreshToken === null) {
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+
+    if (notify) {
+      notifyTokenChange(token, previous);
+    }
+  },
+
+  // Forget the session locally
+  clearTokens: (notify: boolean = true): void => {
+    const previous = localStorage.getItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+
+    if (notify && previous !== null) {
+      notifyTokenChange(null, previous);
+    }
+  },
+
+  /**
+   * Expiry time of a JWT access token
+   * @param token - Access token
+   * @returns Expiry as epoch milliseconds, or null when the token carries no `exp`
+   */
+  getExpiry: (token: string): number | null => {
+    const payload = decodePayload(token);
+    return payload && typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  },
+
+  // Whether the token expires within the margin; tokens without an expiry never do
+  isExpiringSoon: (token: string, marginMs: number = TOKEN_REFRESH_MARGIN_MS): boolean => {
+    const expiry = tokenService.getExpiry(token);
+    return expiry !== null && expiry - Date.now() <= marginMs;
+  }
+};
+
+export default tokenService;
@@ -0,0 +1,56 @@
+import api from './api';
+import { Issue, Pagination, User, UserFlag, UserRole } from '../types';
+
+export interface UserListParams {
+  page?: number;
+  limit?: number;
+  /** Matches name, username or email */
+  search?: string;
+  role?: UserRole;
+}
+
+const userService = {
+  // Admin: list users, paginated and searchable
+  getUsers: async (params?: UserListParams): Promise<{ users: User[]; pagination: Pagination }> => {
+    const response = await api.get<{ users: User[]; pagination: Pagination }>(`/users`, { params });
+    return response.data;
+  },
+
+  // Admin: get a single user
+  getUserById: async (id: string): Promise<User> => {
+    const response = await api.get<User>(`/users/${id}`);
+    return response.data;
+  },
+
+  // Admin: change a user's role; department staff also need the department they work for
+  updateUserRole: async (id: string, role: UserRole, departmentId?: string | null): Promise<User> => {
+    const response = await api.put<User>(`/users/${id}/role`, { role, departmentId });
+    return response.data;
+  },
+
+  // Admin: suspend an account so the user can no longer sign in
+  suspendUser: async (id: string, reason?: string): Promise<User> => {
+    const response = await api.put<User>(`/users/${id}/suspend`, { reason });
+    return response.data;
+  },
+
+  // Admin: lift a suspension
+  reactivateUser: async (id: string): Promise<User> => {
+    const response = await api.put<User>(`/users/${id}/reactivate`);
+    return response.data;
+  },
+
+  // Admin: issues reported by a user
+  getUserIssues: async (id: string, params?: { page?: number; limit?: number }): Promise<{ issues: Issue[]; pagination: Pagination }> => {
+    const response = await api.get<{ issues: Issue[]; pagination: Pagination }>(`/users/${id}/issues`, { params });
+    return response.data;
+  },
+
+  // Admin: flags raised by a user
+  getUserFlags: async (id: string): Promise<UserFlag[]> => {
+    const response = await api.get<UserFlag[]>(`/users/${id}/flags`);
+    return response.data;
+  }
+};
+
+export default userService;
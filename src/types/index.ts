@@ -5,11 +5,26 @@ export interface User {
   username: string;
   name: string;
   email: string;
-  role: string;
+  role: UserRole;
   createdAt: Date;
+  /** Legacy admin flag from older backends; prefer `role` */
   isAdmin?: boolean;
+  status?: UserStatus;
+  suspendedAt?: Date | string | null;
+  suspensionReason?: string | null;
+  /** Whether the user has confirmed their email address */
+  emailVerified?: boolean;
+  /** Department a department staff member works in */
+  departmentId?: string | null;
 }
 
+export type UserStatus = 'active' | 'suspended';
+
+/** What a user may do is decided by their role; see utils/permissions */
+export type UserRole = 'citizen' | 'moderator' | 'department_staff' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['citizen', 'moderator', 'department_staff', 'admin'];
+
 export interface Issue {
   id: string;
   title: string;
@@ -23,8 +38,47 @@ export interface Issue {
   updatedAt: Date;
   flags?: Flag[];
   statusLogs?: StatusLog[];
+  deletedAt?: Date | string | null;
+  deletedBy?: string | null;
+  /** Name of the user who deleted the issue; filled in by the trash endpoint */
+  deletedByName?: string | null;
+  commentCount?: number;
+  /** Number of users who said they are affected too */
+  voteCount?: number;
+  /** Whether the current user has voted for this issue */
+  hasVoted?: boolean;
+  /** Everyone who reported this problem, including reporters of issues merged into it */
+  reporters?: string[];
+  /** Canonical issue this one was merged into; merged issues are closed */
+  mergedInto?: string | null;
+  mergedAt?: Date | string | null;
+  /** Issues that were merged into this one */
+  mergedIssueIds?: string[];
+  /** Department responsible for fixing the issue; new issues are routed by category */
+  assignedTo?: IssueAssignment | null;
+}
+
+export interface Department {
+  id: string;
+  name: string;
+  /** Issue categories routed to this department */
+  categories: IssueCategory[];
+  /** Staff members issues can be assigned to */
+  staff?: Pick<User, 'id' | 'name'>[];
 }
 
+export interface IssueAssignment {
+  departmentId: string;
+  departmentName: string;
+  /** Staff member working on the issue, if someone has picked it up */
+  staffId?: string | null;
+  staffName?: string | null;
+  assignedAt?: Date | string;
+}
+
+// Number of days a deleted issue stays in the trash before it is purged
+export const ISSUE_RETENTION_DAYS = 30;
+
 export interface Location {
   latitude: number;
   longitude: number;
@@ -40,12 +94,43 @@ export interface Flag {
   flaggedAt: Date;
 }
 
+// A flag raised by a user, with the issue it was raised on
+export interface UserFlag extends Flag {
+  issueId: string;
+  issueTitle: string;
+}
+
+export interface Comment {
+  id: string;
+  issueId: string;
+  /** Comment this one replies to; null for top-level comments */
+  parentId: string | null;
+  body: string;
+  authorId: string;
+  authorName: string;
+  authorIsAdmin: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  editedAt?: Date | string | null;
+  /** Deleted comments that still have replies keep their place in the thread without a body */
+  deleted?: boolean;
+}
+
 export interface StatusLog {
   id: string;
   status: IssueStatus;
   changedBy: string;
   changedAt: Date;
   comment?: string;
+  /** Set on entries that record an assignment change rather than a status change */
+  assignedTo?: IssueAssignment | null;
+  /** What the entry records when it isn't a status change; `status` then repeats the issue's status at the time */
+  kind?: 'assignment' | 'merge';
+  /** Set on entries copied from a duplicate merged into this issue; they record that issue's history */
+  mergedFrom?: {
+    issueId: string;
+    title: string;
+  };
 }
 
 export enum IssueStatus {
@@ -65,6 +150,39 @@ export enum IssueCategory {
   OTHER = 'other'
 }
 
+export interface IssueAnalyticsFilters {
+  /** First day of the range, YYYY-MM-DD; the backend defaults to twelve weeks back */
+  from?: string;
+  /** Last day of the range, YYYY-MM-DD; defaults to today */
+  to?: string;
+  category?: string;
+}
+
+export interface IssueAnalytics {
+  /** Weeks in the range, oldest first; `weekStart` is the Monday of each week (YYYY-MM-DD) */
+  weekly: { weekStart: string; reported: number; resolved: number }[];
+  /** Median hours from report to resolution, for categories with resolved issues */
+  resolutionTimes: { category: string; medianHours: number; resolvedCount: number }[];
+  /** Issues that got at least as far as each status, in workflow order; closed counts every closed issue, fixed or not */
+  statusFunnel: { status: IssueStatus; count: number }[];
+  flagRate: { flaggedIssues: number; totalIssues: number; rate: number };
+  /** Areas with the most reports, busiest first */
+  topLocations: { location: string; count: number }[];
+}
+
+export interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface ApiEnvelope<T> {
+  success: boolean;
+  message: string;
+  data: T;
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
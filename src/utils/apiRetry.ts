@@ -63,8 +63,8 @@ export const createRetryableAxiosInstance = (
     async (error: AxiosError) => {
       const { config, response } = error;
       
-      // If no config object is available, we can't retry
-      if (!config) {
+      // If no config object is available, we can't retry; requests cancelled by the caller stay cancelled
+      if (!config || error.code === 'ERR_CANCELED') {
         return Promise.reject(error);
       }
       
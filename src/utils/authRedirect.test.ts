@@ -0,0 +1,53 @@
+import { getLoginPath, sanitizeReturnPath } from './authRedirect';
+
+describe('sanitizeReturnPath', () => {
+  test.each([
+    ['a protocol-relative URL', '//evil.com'],
+    ['a protocol-relative URL with a path', '//evil.com/issues'],
+    ['a backslash host', '/\\evil.com'],
+    ['an absolute http URL', 'http://evil.com/issues'],
+    ['an absolute https URL', 'https://evil.com'],
+    ['a relative path', 'issues/1'],
+    ['an empty string', ''],
+    ['null', null],
+    ['undefined', undefined]
+  ])('rejects %s', (_, value) => {
+    expect(sanitizeReturnPath(value)).toBeNull();
+  });
+
+  test.each([
+    ['/login'],
+    ['/login?returnTo=%2Fprofile'],
+    ['/register'],
+    ['/register#top']
+  ])('rejects the auth page %s so login never returns to itself', value => {
+    expect(sanitizeReturnPath(value)).toBeNull();
+  });
+
+  test.each([
+    ['/', '/'],
+    ['/issues/42', '/issues/42'],
+    ['/search?q=pothole&status=reported', '/search?q=pothole&status=reported'],
+    ['/issues/42#comments', '/issues/42#comments'],
+    ['/map?lat=1&lng=2#layer', '/map?lat=1&lng=2#layer'],
+    ['/login-help', '/login-help']
+  ])('keeps the same-origin path %s', (value, expected) => {
+    expect(sanitizeReturnPath(value)).toBe(expected);
+  });
+
+  test('normalises dot segments before checking the path', () => {
+    expect(sanitizeReturnPath('/issues/../profile')).toBe('/profile');
+    expect(sanitizeReturnPath('/issues/../login')).toBeNull();
+  });
+});
+
+describe('getLoginPath', () => {
+  test('carries a safe path in the returnTo parameter', () => {
+    expect(getLoginPath('/issues/42?tab=history#top')).toBe(`/login?returnTo=${encodeURIComponent('/issues/42?tab=history#top')}`);
+  });
+
+  test('drops an unsafe path', () => {
+    expect(getLoginPath('//evil.com')).toBe('/login');
+    expect(getLoginPath('/login')).toBe('/login');
+  });
+});
@@ -0,0 +1,71 @@
+import { Location } from 'react-router-dom';
+
+/** Query parameter carrying the page to return to after login, for full-page redirects */
+export const RETURN_TO_PARAM = 'returnTo';
+
+// Pages that never make sense to return to after authenticating
+const AUTH_PATHS = ['/login', '/register'];
+
+/** Router state passed to the login and register pages */
+export interface AuthRedirectState {
+  /** Location the user was on, including any state it carried */
+  from?: Pick<Location, 'pathname' | 'search' | 'hash' | 'state'>;
+}
+
+export interface ReturnTarget {
+  /** Same-origin path including query and hash */
+  path: string;
+  /** Router state to restore on the target page */
+  state?: unknown;
+}
+
+/**
+ * Validate a return path so a crafted link can't send the user to another site
+ * @param value - Candidate path, e.g. from the query string
+ * @returns Normalised same-origin path, or null when it isn't safe to follow
+ */
+export const sanitizeReturnPath = (value?: string | null): string | null => {
+  // Only app-relative paths; `//host` and `/\host` are treated as other origins by browsers
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return null;
+  }
+
+  try {
+    const url = new URL(value, window.location.origin);
+    if (url.origin !== window.location.origin || AUTH_PATHS.includes(url.pathname)) {
+      return null;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Where to send the user after logging in or registering: the location in router
+ * state when they were redirected in-app, otherwise the `returnTo` query parameter
+ * @param location - Current location of the login or register page
+ * @returns The page to return to, defaulting to home
+ */
+export const getReturnTarget = (location: Location): ReturnTarget => {
+  const from = (location.state as AuthRedirectState | null)?.from;
+  if (from) {
+    const path = sanitizeReturnPath(`${from.pathname}${from.search || ''}${from.hash || ''}`);
+    if (path) {
+      return { path, state: from.state };
+    }
+  }
+
+  const path = sanitizeReturnPath(new URLSearchParams(location.search).get(RETURN_TO_PARAM));
+  return { path: path || '/' };
+};
+
+/**
+ * Login URL that returns to the given path, for redirects outside the router
+ * @param returnTo - Path to come back to
+ * @returns Login path with the return parameter when the path is safe
+ */
+export const getLoginPath = (returnTo: string): string => {
+  const path = sanitizeReturnPath(returnTo);
+  return path ? `/login?${RETURN_TO_PARAM}=${encodeURIComponent(path)}` : '/login';
+};
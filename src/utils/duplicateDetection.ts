@@ -0,0 +1,91 @@
+import { Issue, IssueCategory, IssueStatus, Location } from '../types';
+import { distanceInKm } from './geo';
+
+/** The parts of a new report that are compared against existing issues */
+export interface DuplicateDraft {
+  title: string;
+  description: string;
+  category: IssueCategory;
+  location: Location;
+}
+
+export interface DuplicateCandidate {
+  issue: Issue;
+  /** Combined score between 0 and 1; higher means more likely the same problem */
+  score: number;
+  distanceKm: number;
+}
+
+/** Radius searched around the new report, in kilometres */
+export const DUPLICATE_SEARCH_RADIUS_KM = 0.5;
+
+// Issues older than this no longer get any recency score
+const MAX_AGE_DAYS = 30;
+const MIN_SCORE = 0.35;
+const MAX_CANDIDATES = 3;
+
+const WEIGHTS = { distance: 0.45, time: 0.2, text: 0.35 };
+
+// Resolved and closed issues are not worth joining; a new report is the right call there
+const OPEN_STATUSES = [IssueStatus.REPORTED, IssueStatus.UNDER_REVIEW, IssueStatus.IN_PROGRESS];
+
+const STOP_WORDS = ['the', 'and', 'for', 'with', 'near', 'this', 'that', 'there', 'from', 'has', 'have', 'are', 'was', 'not'];
+
+const tokenize = (text: string): string[] => {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/);
+  return words.filter((word, index) =>
+    word.length > 2 && STOP_WORDS.indexOf(word) === -1 && words.indexOf(word) === index
+  );
+};
+
+// Jaccard similarity of the word sets of two texts
+const textSimilarity = (a: string, b: string): number => {
+  const aWords = tokenize(a);
+  const bWords = tokenize(b);
+  if (aWords.length === 0 || bWords.length === 0) return 0;
+
+  const shared = aWords.filter(word => bWords.indexOf(word) !== -1).length;
+  return shared / (aWords.length + bWords.length - shared);
+};
+
+/**
+ * Rank existing issues by how likely they describe the same problem as a new report.
+ * Only open issues of the same category are considered; each is scored by distance,
+ * how recently it was reported and how similar its title and description are.
+ * @param draft - The report being filed
+ * @param issues - Existing issues near the report, e.g. from getNearbyIssues
+ * @param now - Reference time for the recency score
+ * @returns The best candidates, highest score first
+ */
+export const findDuplicateCandidates = (
+  draft: DuplicateDraft,
+  issues: Issue[],
+  now: Date = new Date()
+): DuplicateCandidate[] => {
+  const draftText = `${draft.title} ${draft.description}`;
+
+  return issues
+    .filter(issue => issue.category === draft.category && OPEN_STATUSES.indexOf(issue.status) !== -1)
+    .map(issue => {
+      const distanceKm = distanceInKm(
+        draft.location.latitude,
+        draft.location.longitude,
+        issue.location.latitude,
+        issue.location.longitude
+      );
+      const ageDays = (now.getTime() - new Date(issue.reportedAt).getTime()) / (24 * 60 * 60 * 1000);
+
+      const distanceScore = Math.max(0, 1 - distanceKm / DUPLICATE_SEARCH_RADIUS_KM);
+      const timeScore = Math.max(0, 1 - Math.max(0, ageDays) / MAX_AGE_DAYS);
+      const textScore = textSimilarity(draftText, `${issue.title} ${issue.description}`);
+
+      return {
+        issue,
+        distanceKm,
+        score: WEIGHTS.distance * distanceScore + WEIGHTS.time * timeScore + WEIGHTS.text * textScore
+      };
+    })
+    .filter(candidate => candidate.distanceKm <= DUPLICATE_SEARCH_RADIUS_KM && candidate.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+};
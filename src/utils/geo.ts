@@ -0,0 +1,16 @@
+/**
+ * Great-circle distance between two coordinates
+ * @param lat1 - Latitude of the first point
+ * @param lng1 - Longitude of the first point
+ * @param lat2 - Latitude of the second point
+ * @param lng2 - Longitude of the second point
+ * @returns Distance in kilometres
+ */
+export const distanceInKm = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
@@ -0,0 +1,212 @@
+import { Issue, IssueStatus } from '../types';
+import { isOverdue } from './sla';
+
+interface ExportColumn {
+  header: string;
+  value: (issue: Issue) => string | number;
+}
+
+const toIsoString = (date?: Date | string | null): string => (date ? new Date(date).toISOString() : '');
+
+// The columns exported to CSV and the properties attached to GeoJSON features, in order
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'id', value: issue => issue.id },
+  { header: 'title', value: issue => issue.title },
+  { header: 'description', value: issue => issue.description },
+  { header: 'category', value: issue => issue.category },
+  { header: 'status', value: issue => issue.status },
+  { header: 'address', value: issue => issue.location.address || '' },
+  { header: 'latitude', value: issue => issue.location.latitude },
+  { header: 'longitude', value: issue => issue.location.longitude },
+  { header: 'reportedBy', value: issue => issue.reportedBy },
+  { header: 'reportedAt', value: issue => toIsoString(issue.reportedAt) },
+  { header: 'updatedAt', value: issue => toIsoString(issue.updatedAt) },
+  { header: 'votes', value: issue => issue.voteCount || 0 },
+  { header: 'comments', value: issue => issue.commentCount || 0 },
+  { header: 'flags', value: issue => issue.flags?.length || 0 },
+  { header: 'department', value: issue => issue.assignedTo?.departmentName || '' },
+  { header: 'assignee', value: issue => issue.assignedTo?.staffName || '' },
+  { header: 'overdue', value: issue => (isOverdue(issue) ? 'yes' : 'no') },
+];
+
+const formatLabel = (value: string): string =>
+  value.charAt(0).toUpperCase() + value.slice(1).replace('_', ' ');
+
+// Quote fields per RFC 4180, and defuse values a spreadsheet would otherwise run as a formula
+const escapeCsvField = (value: string | number): string => {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeHtml = (value: string | number): string =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Serialises issues as CSV with a header row
+ * @param issues - Issues to export, in the order they should appear
+ * @returns CSV text with CRLF line endings
+ */
+export const issuesToCsv = (issues: Issue[]): string => {
+  const rows = [
+    EXPORT_COLUMNS.map(column => escapeCsvField(column.header)).join(','),
+    ...issues.map(issue => EXPORT_COLUMNS.map(column => escapeCsvField(column.value(issue))).join(',')),
+  ];
+  return rows.join('\r\n');
+};
+
+/**
+ * Serialises issues as a GeoJSON FeatureCollection, one Point feature per issue
+ * @param issues - Issues to export
+ * @returns Pretty-printed GeoJSON text
+ */
+export const issuesToGeoJson = (issues: Issue[]): string => {
+  const collection = {
+    type: 'FeatureCollection',
+    features: issues.map(issue => ({
+      type: 'Feature',
+      id: issue.id,
+      geometry: {
+        type: 'Point',
+        // GeoJSON positions are longitude first
+        coordinates: [issue.location.longitude, issue.location.latitude],
+      },
+      properties: EXPORT_COLUMNS.reduce<Record<string, string | number>>((properties, column) => {
+        properties[column.header] = column.value(issue);
+        return properties;
+      }, {}),
+    })),
+  };
+  return JSON.stringify(collection, null, 2);
+};
+
+/**
+ * Builds a standalone, printable HTML report: a summary by status and category
+ * followed by a table of the issues
+ * @param issues - Issues to include
+ * @param title - Report heading
+ * @param filterSummary - Human-readable description of the filters that produced the set
+ * @returns Complete HTML document
+ */
+export const buildIssueReportHtml = (issues: Issue[], title: string, filterSummary: string[] = []): string => {
+  const countBy = (key: (issue: Issue) => string) =>
+    issues.reduce<Record<string, number>>((counts, issue) => {
+      counts[key(issue)] = (counts[key(issue)] || 0) + 1;
+      return counts;
+    }, {});
+
+  const byStatus = countBy(issue => issue.status);
+  const byCategory = countBy(issue => issue.category);
+  const overdue = issues.filter(issue => isOverdue(issue)).length;
+  const flagged = issues.filter(issue => (issue.flags?.length || 0) > 0).length;
+
+  const summaryRows = (counts: Record<string, number>, order: string[]) =>
+    order
+      .filter(key => counts[key])
+      .map(key => `<tr><td>${escapeHtml(formatLabel(key))}</td><td class="num">${counts[key]}</td></tr>`)
+      .join('');
+
+  const issueRows = issues
+    .map(issue => `
+      <tr>
+        <td>${escapeHtml(issue.title)}</td>
+        <td>${escapeHtml(formatLabel(issue.category))}</td>
+        <td>${escapeHtml(formatLabel(issue.status))}${isOverdue(issue) ? ' <span class="overdue">overdue</span>' : ''}</td>
+        <td>${escapeHtml(issue.location.address || `${issue.location.latitude.toFixed(5)}, ${issue.location.longitude.toFixed(5)}`)}</td>
+        <td>${escapeHtml(issue.assignedTo?.staffName || issue.assignedTo?.departmentName || '')}</td>
+        <td class="num">${issue.voteCount || 0}</td>
+        <td>${escapeHtml(new Date(issue.reportedAt).toLocaleDateString())}</td>
+      </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Roboto, Helvetica, Arial, sans-serif; color: #222; margin: 24px; }
+    h1 { font-size: 22px; margin-bottom: 4px; }
+    h2 { font-size: 16px; margin: 24px 0 8px; }
+    .meta { color: #666; font-size: 12px; margin: 0 0 2px; }
+    .summary { display: flex; gap: 32px; flex-wrap: wrap; }
+    .totals { font-size: 14px; }
+    table { border-collapse: collapse; width: 100%; font-size: 12px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .summary table { width: auto; }
+    .num { text-align: right; }
+    .overdue { color: #c62828; font-weight: bold; }
+    @media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">Generated ${escapeHtml(new Date().toLocaleString())}</p>
+  <p class="meta">Filters: ${escapeHtml(filterSummary.length > 0 ? filterSummary.join(' · ') : 'none')}</p>
+
+  <h2>Summary</h2>
+  <p class="totals">${issues.length} issues · ${overdue} overdue · ${flagged} flagged</p>
+  <div class="summary">
+    <table><tr><th>Status</th><th class="num">Issues</th></tr>${summaryRows(byStatus, Object.values(IssueStatus))}</table>
+    <table><tr><th>Category</th><th class="num">Issues</th></tr>${summaryRows(byCategory, Object.keys(byCategory).sort())}</table>
+  </div>
+
+  <h2>Issues</h2>
+  <table>
+    <tr><th>Title</th><th>Category</th><th>Status</th><th>Location</th><th>Assigned to</th><th class="num">Votes</th><th>Reported</th></tr>
+    ${issueRows}
+  </table>
+</body>
+</html>`;
+};
+
+/**
+ * Name for an export file, stamped with today's date
+ * @param extension - File extension without the dot
+ * @returns e.g. "issues-2024-03-04.csv"
+ */
+export const getExportFilename = (extension: string): string =>
+  `issues-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+/**
+ * Saves generated content as a file through a temporary download link
+ * @param content - File contents
+ * @param filename - Suggested file name
+ * @param mimeType - MIME type of the contents
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Opens a report in a new window and brings up the print dialog, where it can be saved as PDF
+ * @param html - Complete HTML document
+ * @returns False when the window was blocked by the browser
+ */
+export const printReport = (html: string): boolean => {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) return false;
+
+  reportWindow.document.open();
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+  return true;
+};
@@ -0,0 +1,68 @@
+import { Issue } from '../types';
+import { SortConfig } from '../hooks/useFiltering';
+
+// Issue fields compared as text
+const TEXT_SORT_FIELDS = ['title', 'category', 'status'] as const;
+type TextSortField = typeof TEXT_SORT_FIELDS[number];
+
+const isTextSortField = (field: string): field is TextSortField =>
+  (TEXT_SORT_FIELDS as readonly string[]).indexOf(field) !== -1;
+
+// Issue fields that need a numeric comparison rather than the default one
+const numericValue = (issue: Issue, field: string): number | null => {
+  switch (field) {
+    case 'voteCount':
+      return issue.voteCount ?? 0;
+    case 'commentCount':
+      return issue.commentCount ?? 0;
+    case 'reportedAt':
+      return new Date(issue.reportedAt).getTime();
+    case 'updatedAt':
+      return new Date(issue.updatedAt).getTime();
+    default:
+      return null;
+  }
+};
+
+/**
+ * Value an issue is ordered by for a sort field, as compareIssues compares it
+ * @param issue - Issue to read
+ * @param field - Sort field
+ * @returns A number for counts and dates, a string for text fields, or null for fields issues can't be sorted by
+ */
+export const getIssueSortValue = (issue: Issue, field: string): number | string | null => {
+  const number = numericValue(issue, field);
+  if (number !== null) return number;
+  return isTextSortField(field) ? issue[field] : null;
+};
+
+/**
+ * Sort function for useFiltering over issues. Handles counts that may be missing
+ * and dates that arrive as strings; ties on votes fall back to newest first.
+ * Fields other than counts, dates, title, category and status leave the order unchanged.
+ * @param a - First issue
+ * @param b - Second issue
+ * @param sortConfig - Field and direction to sort by
+ * @returns Comparison result for Array.prototype.sort
+ */
+export const compareIssues = (a: Issue, b: Issue, sortConfig: SortConfig): number => {
+  const { field, direction } = sortConfig;
+  if (!field || !direction) return 0;
+
+  const factor = direction === 'asc' ? 1 : -1;
+  const aNumber = numericValue(a, field);
+  const bNumber = numericValue(b, field);
+
+  if (aNumber !== null && bNumber !== null) {
+    if (aNumber !== bNumber) return (aNumber - bNumber) * factor;
+    return field === 'voteCount'
+      ? new Date(b.reportedAt).getTime() - new Date(a.reportedAt).getTime()
+      : 0;
+  }
+
+  if (isTextSortField(field)) {
+    return a[field].localeCompare(b[field]) * factor;
+  }
+  // Not a field issues can be sorted by
+  return 0;
+};
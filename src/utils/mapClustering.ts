@@ -0,0 +1,65 @@
+import L from 'leaflet';
+import { Issue } from '../types';
+
+/**
+ * A group of issues that fall into the same screen cell at the current zoom
+ */
+export interface IssueCluster {
+  /** Stable key for the grid cell */
+  id: string;
+  /** Average position of the issues in the cluster */
+  center: L.LatLng;
+  /** Bounds covering every issue in the cluster */
+  bounds: L.LatLngBounds;
+  issues: Issue[];
+}
+
+/**
+ * Groups issues into clusters by projecting them to pixel space at the given
+ * zoom and bucketing them into square cells
+ * @param issues - Issues to cluster
+ * @param map - Leaflet map used for projection
+ * @param zoom - Zoom level to cluster at, usually the map's current zoom
+ * @param cellSize - Cell size in pixels; larger cells produce fewer, bigger clusters
+ * @returns Clusters, including single-issue clusters for isolated markers
+ */
+export const clusterIssues = (issues: Issue[], map: L.Map, zoom: number, cellSize: number = 60): IssueCluster[] => {
+  const cells: Record<string, Issue[]> = {};
+
+  issues.forEach(issue => {
+    const point = map.project([issue.location.latitude, issue.location.longitude], zoom);
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    (cells[key] = cells[key] || []).push(issue);
+  });
+
+  return Object.keys(cells).map(key => {
+    const cellIssues = cells[key];
+    const latitude = cellIssues.reduce((sum, issue) => sum + issue.location.latitude, 0) / cellIssues.length;
+    const longitude = cellIssues.reduce((sum, issue) => sum + issue.location.longitude, 0) / cellIssues.length;
+
+    return {
+      id: `${zoom}:${key}`,
+      center: L.latLng(latitude, longitude),
+      bounds: L.latLngBounds(cellIssues.map(issue => [issue.location.latitude, issue.location.longitude] as L.LatLngTuple)),
+      issues: cellIssues
+    };
+  });
+};
+
+/**
+ * Builds the circular count badge used for multi-issue clusters
+ * @param count - Number of issues in the cluster
+ * @returns A Leaflet div icon sized by cluster size
+ */
+export const createClusterIcon = (count: number): L.DivIcon => {
+  const size = count < 10 ? 36 : count < 100 ? 44 : 52;
+
+  return L.divIcon({
+    html: `<div style="width:${size}px;height:${size}px;line-height:${size}px;border-radius:50%;` +
+      `background:rgba(76,175,80,0.85);border:3px solid rgba(255,255,255,0.8);color:#fff;` +
+      `font-weight:bold;text-align:center;font-family:Roboto,Helvetica,Arial,sans-serif;">${count}</div>`,
+    className: 'issue-cluster-icon',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+};
@@ -0,0 +1,75 @@
+/** Radius of each issue's blob in pixels */
+export const HEATMAP_RADIUS = 25;
+
+// Opacity each issue adds; about four overlapping issues reach full heat
+const POINT_ALPHA = 0.25;
+
+const GRADIENT_STOPS: [number, string][] = [
+  [0.2, '#2196f3'],
+  [0.45, '#4caf50'],
+  [0.7, '#ffeb3b'],
+  [1, '#f44336']
+];
+
+let palette: Uint8ClampedArray | null = null;
+
+// 256 RGBA entries sampled from the gradient, indexed by accumulated alpha
+const getPalette = (): Uint8ClampedArray => {
+  if (palette) return palette;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 256;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 0, 256);
+  GRADIENT_STOPS.forEach(([offset, color]) => gradient.addColorStop(offset, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 1, 256);
+
+  palette = ctx.getImageData(0, 0, 1, 256).data;
+  return palette;
+};
+
+/**
+ * Draws a density heatmap: every point adds a soft blob of opacity, then the
+ * accumulated opacity is mapped onto a blue-to-red colour scale
+ * @param canvas - Canvas to draw on; it is cleared first
+ * @param points - Pixel positions on the canvas
+ * @param radius - Blob radius in pixels
+ */
+export const drawHeatmap = (
+  canvas: HTMLCanvasElement,
+  points: { x: number; y: number }[],
+  radius: number = HEATMAP_RADIUS
+): void => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (points.length === 0 || canvas.width === 0 || canvas.height === 0) return;
+
+  ctx.globalAlpha = POINT_ALPHA;
+  points.forEach(({ x, y }) => {
+    const blob = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    blob.addColorStop(0, 'rgba(0, 0, 0, 1)');
+    blob.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = blob;
+    ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+  });
+  ctx.globalAlpha = 1;
+
+  const colors = getPalette();
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels = image.data;
+  for (let i = 3; i < pixels.length; i += 4) {
+    const alpha = pixels[i];
+    if (alpha === 0) continue;
+    const offset = alpha * 4;
+    pixels[i - 3] = colors[offset];
+    pixels[i - 2] = colors[offset + 1];
+    pixels[i - 1] = colors[offset + 2];
+    // Keep sparse areas translucent so the streets underneath stay readable
+    pixels[i] = Math.min(255, alpha * 1.5);
+  }
+  ctx.putImageData(image, 0, 0);
+};
@@ -0,0 +1,73 @@
+import L from 'leaflet';
+import { Issue, Location } from '../types';
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+/** Default edge length of a hotspot cell */
+export const HOTSPOT_CELL_SIZE_KM = 0.5;
+
+/** Cells with at least this many issues are highlighted as hotspots */
+export const HOTSPOT_THRESHOLD = 3;
+
+/**
+ * A square of the hotspot grid and the issues that fall inside it
+ */
+export interface HotspotCell {
+  /** Stable key for the cell, the same at every zoom level */
+  id: string;
+  bounds: L.LatLngBounds;
+  issues: Issue[];
+}
+
+// Longitude spacing shrinks towards the poles, so each row of cells works out its own
+const getCellIndex = (location: Location, cellSizeKm: number) => {
+  const latStep = cellSizeKm / KM_PER_DEGREE_LAT;
+  const row = Math.floor(location.latitude / latStep);
+  const rowLatitude = (row + 0.5) * latStep;
+  const lngStep = cellSizeKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos((rowLatitude * Math.PI) / 180), 0.01));
+  const col = Math.floor(location.longitude / lngStep);
+  return { row, col, latStep, lngStep };
+};
+
+/**
+ * Key of the hotspot cell containing a location
+ * @param location - Point to look up
+ * @param cellSizeKm - Cell edge length in kilometres
+ * @returns The same id `groupIntoHotspots` gives the cell
+ */
+export const getHotspotCellId = (location: Location, cellSizeKm: number = HOTSPOT_CELL_SIZE_KM): string => {
+  const { row, col } = getCellIndex(location, cellSizeKm);
+  return `${cellSizeKm}:${row}:${col}`;
+};
+
+/**
+ * Groups issues into a fixed geographic grid. Unlike clustering, cells don't
+ * move with the zoom level, so counts can be compared across the whole map.
+ * @param issues - Issues to group
+ * @param cellSizeKm - Cell edge length in kilometres
+ * @returns Non-empty cells, busiest first
+ */
+export const groupIntoHotspots = (issues: Issue[], cellSizeKm: number = HOTSPOT_CELL_SIZE_KM): HotspotCell[] => {
+  const cells: Record<string, HotspotCell> = {};
+
+  issues.forEach(issue => {
+    const { row, col, latStep, lngStep } = getCellIndex(issue.location, cellSizeKm);
+    const id = `${cellSizeKm}:${row}:${col}`;
+
+    if (!cells[id]) {
+      cells[id] = {
+        id,
+        bounds: L.latLngBounds(
+          [row * latStep, col * lngStep],
+          [(row + 1) * latStep, (col + 1) * lngStep]
+        ),
+        issues: []
+      };
+    }
+    cells[id].issues.push(issue);
+  });
+
+  return Object.keys(cells)
+    .map(id => cells[id])
+    .sort((a, b) => b.issues.length - a.issues.length);
+};
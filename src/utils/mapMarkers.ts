@@ -0,0 +1,96 @@
+import L from 'leaflet';
+import { Issue, IssueCategory, IssueStatus } from '../types';
+
+const PIN_WIDTH = 32;
+const PIN_HEIGHT = 44;
+const PIN_PATH = 'M16 0C7.2 0 0 7.2 0 16c0 12 16 28 16 28s16-16 16-28C32 7.2 24.8 0 16 0z';
+
+// Glyphs are drawn in a 24x24 box and scaled into the pin's white disc
+const CATEGORY_GLYPHS: Record<IssueCategory, string> = {
+  [IssueCategory.ROAD]: 'M10 3h4l4 15H6z M4 19h16v2H4z',
+  [IssueCategory.WATER]: 'M12 2C12 2 5 10 5 14.5a7 7 0 0 0 14 0C19 10 12 2 12 2z',
+  [IssueCategory.ELECTRICITY]: 'M13 2L4 14h6l-1 8 9-12h-6z',
+  [IssueCategory.WASTE]: 'M6 7h12l-1 14H7z M4 4h16v2H4z M9 2h6v2H9z',
+  [IssueCategory.SAFETY]: 'M12 2L4 5v6c0 5 3.5 9.5 8 11 4.5-1.5 8-6 8-11V5z',
+  [IssueCategory.OTHER]: 'M11 10h2v8h-2z M11 6h2v2h-2z'
+};
+
+/**
+ * Marker colour for an issue status
+ * @param status - Issue status
+ * @returns Hex colour used for the marker pin
+ */
+export const getStatusColor = (status: IssueStatus): string => {
+  switch (status) {
+    case IssueStatus.REPORTED:
+      return '#f44336'; // Red
+    case IssueStatus.UNDER_REVIEW:
+      return '#ff9800'; // Orange
+    case IssueStatus.IN_PROGRESS:
+      return '#2196f3'; // Blue
+    case IssueStatus.RESOLVED:
+      return '#4caf50'; // Green
+    case IssueStatus.CLOSED:
+      return '#9e9e9e'; // Grey
+    default:
+      return '#f44336'; // Default to red
+  }
+};
+
+const buildPinSvg = (color: string, glyph: string, flagged: boolean): string => {
+  const badge = flagged
+    ? '<circle cx="26" cy="6" r="6" fill="#b71c1c" stroke="#fff" stroke-width="1.5"/>' +
+      '<path d="M25.2 2.5h1.6v4.5h-1.6z M25.2 8h1.6v1.5h-1.6z" fill="#fff"/>'
+    : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${PIN_WIDTH}" height="${PIN_HEIGHT}" viewBox="0 0 ${PIN_WIDTH} ${PIN_HEIGHT}">` +
+    `<path d="${PIN_PATH}" fill="${color}" stroke="rgba(0,0,0,0.35)" stroke-width="1"/>` +
+    '<circle cx="16" cy="16" r="10" fill="#fff"/>' +
+    `<path d="${glyph}" fill="${color}" transform="translate(8 8) scale(0.667)"/>` +
+    badge +
+    '</svg>';
+};
+
+const createPinIcon = (svg: string, className: string): L.DivIcon => L.divIcon({
+  html: svg,
+  className,
+  iconSize: [PIN_WIDTH, PIN_HEIGHT],
+  iconAnchor: [PIN_WIDTH / 2, PIN_HEIGHT],
+  popupAnchor: [0, -PIN_HEIGHT + 4]
+});
+
+// Icons only depend on status, category and flagged state, so share instances between markers
+const iconCache: Record<string, L.DivIcon> = {};
+
+/**
+ * Builds the map pin for an issue: coloured by status, with a category glyph
+ * and a badge when the issue has been flagged
+ * @param issue - Issue to render
+ * @returns A Leaflet div icon with an inline SVG, so no marker images are fetched
+ */
+export const createIssueIcon = (issue: Issue): L.DivIcon => {
+  const category = Object.values(IssueCategory).includes(issue.category as IssueCategory)
+    ? issue.category as IssueCategory
+    : IssueCategory.OTHER;
+  const flagged = !!issue.flags && issue.flags.length > 0;
+  const key = `${issue.status}:${category}:${flagged}`;
+
+  if (!iconCache[key]) {
+    iconCache[key] = createPinIcon(
+      buildPinSvg(getStatusColor(issue.status), CATEGORY_GLYPHS[category], flagged),
+      'issue-marker-icon'
+    );
+  }
+  return iconCache[key];
+};
+
+/**
+ * Neutral pin used for a location the user has picked on the map
+ */
+export const selectedLocationIcon: L.DivIcon = createPinIcon(
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${PIN_WIDTH}" height="${PIN_HEIGHT}" viewBox="0 0 ${PIN_WIDTH} ${PIN_HEIGHT}">` +
+    `<path d="${PIN_PATH}" fill="#4CAF50" stroke="rgba(0,0,0,0.35)" stroke-width="1"/>` +
+    '<circle cx="16" cy="16" r="6" fill="#fff"/>' +
+    '</svg>',
+  'selected-location-icon'
+);
@@ -0,0 +1,28 @@
+// Same rule the backend enforces on registration and password resets
+export const PASSWORD_REGEX = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[a-zA-Z\d@$!%*?&]{8,}$/;
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const PASSWORD_REQUIREMENTS_MESSAGE = 'Password must be at least 8 characters long and contain at least one uppercase letter (A-Z), one lowercase letter (a-z), and one number (0-9). Special characters (@$!%*?&) are allowed but not required.';
+
+/**
+ * Check a new password against the password rules
+ * @param password - Password to check
+ * @param confirmPassword - Repeated password; compared when given
+ * @returns Error message, or null when the password is acceptable
+ */
+export const validatePassword = (password: string, confirmPassword?: string): string | null => {
+  if (!password) {
+    return 'Password is required';
+  }
+  if (confirmPassword !== undefined && password !== confirmPassword) {
+    return 'Passwords do not match';
+  }
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (!PASSWORD_REGEX.test(password)) {
+    return PASSWORD_REQUIREMENTS_MESSAGE;
+  }
+  return null;
+};
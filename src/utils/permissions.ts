@@ -0,0 +1,108 @@
+import { Comment, Issue, User, UserRole } from '../types';
+
+/** Everything the UI gates on; keep the names in step with the backend policy */
+export type PermissionAction =
+  | 'issue:report'
+  | 'issue:vote'
+  | 'issue:flag'
+  | 'issue:requestStatusChange'
+  | 'issue:updateStatus'
+  | 'issue:assign'
+  | 'issue:merge'
+  | 'issue:delete'
+  | 'issue:restore'
+  | 'comment:create'
+  | 'comment:delete'
+  | 'flag:review'
+  | 'statusRequest:review'
+  | 'queue:view'
+  | 'analytics:view'
+  | 'admin:access'
+  | 'user:manage';
+
+/** Record an action applies to, when the decision depends on it */
+export type PermissionResource = Issue | Comment;
+
+type PermissionRule = UserRole[] | ((user: User, role: UserRole, resource?: PermissionResource) => boolean);
+
+// Set REACT_APP_REQUIRE_VERIFIED_EMAIL=true to only let verified accounts report issues
+const REQUIRE_VERIFIED_EMAIL: boolean = process.env.REACT_APP_REQUIRE_VERIFIED_EMAIL === 'true';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  citizen: 'Citizen',
+  moderator: 'Moderator',
+  department_staff: 'Department Staff',
+  admin: 'Admin',
+};
+
+const EVERYONE: UserRole[] = ['citizen', 'moderator', 'department_staff', 'admin'];
+const STAFF: UserRole[] = ['moderator', 'department_staff', 'admin'];
+
+const isComment = (resource?: PermissionResource): resource is Comment =>
+  !!resource && 'authorId' in resource;
+
+// Department staff work on their own department's issues; without an issue the check is about the role alone
+const inOwnDepartment = (user: User, resource?: PermissionResource): boolean =>
+  !resource || isComment(resource) || (!!user.departmentId && resource.assignedTo?.departmentId === user.departmentId);
+
+const POLICY: Record<PermissionAction, PermissionRule> = {
+  'issue:report': EVERYONE,
+  'issue:vote': EVERYONE,
+  'issue:flag': EVERYONE,
+  // Staff who can set the status directly have no need to ask for it
+  'issue:requestStatusChange': ['citizen', 'moderator'],
+  'issue:updateStatus': (user, role, resource) =>
+    role === 'admin' || (role === 'department_staff' && inOwnDepartment(user, resource)),
+  // Admins route issues anywhere; staff can pick up or hand over issues within their department
+  'issue:assign': (user, role, resource) =>
+    role === 'admin' || (role === 'department_staff' && inOwnDepartment(user, resource)),
+  'issue:merge': ['moderator', 'admin'],
+  'issue:delete': ['moderator', 'admin'],
+  'issue:restore': ['admin'],
+  'comment:create': EVERYONE,
+  'comment:delete': (user, role, resource) =>
+    role === 'moderator' || role === 'admin' || (isComment(resource) && resource.authorId === user.id),
+  'flag:review': ['moderator', 'admin'],
+  // Approving a request changes the status, so staff review requests for their own department's issues only
+  'statusRequest:review': (user, role, resource) =>
+    role === 'admin' || (role === 'department_staff' && inOwnDepartment(user, resource)),
+  'queue:view': ['department_staff'],
+  'analytics:view': STAFF,
+  'admin:access': STAFF,
+  'user:manage': ['admin'],
+};
+
+/**
+ * Role of a user, mapping what older backends send (`role: 'user'`, `isAdmin`)
+ * onto the current role set
+ * @param user - User to look up, if any
+ * @returns The user's role, or null when signed out
+ */
+export const getUserRole = (user?: User | null): UserRole | null => {
+  if (!user) return null;
+  if (user.isAdmin) return 'admin';
+  return EVERYONE.includes(user.role) ? user.role : 'citizen';
+};
+
+/**
+ * Whether a user may perform an action. Signed-out users can't perform any of them.
+ * @param user - Current user, if any
+ * @param action - Action to check
+ * @param resource - Issue or comment the action targets, for rules that depend on it
+ * @returns True when the policy allows it
+ */
+export const can = (user: User | null | undefined, action: PermissionAction, resource?: PermissionResource): boolean => {
+  const role = getUserRole(user);
+  if (!user || !role) return false;
+
+  const rule = POLICY[action];
+  return Array.isArray(rule) ? rule.includes(role) : rule(user, role, resource);
+};
+
+/**
+ * Whether a user must verify their email address before reporting issues or adding
+ * photos to them. The backend enforces the same rule.
+ * @param user - Current user, if any
+ */
+export const needsEmailVerification = (user: User | null | undefined): boolean =>
+  REQUIRE_VERIFIED_EMAIL && user?.emailVerified === false;
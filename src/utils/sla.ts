@@ -0,0 +1,117 @@
+import { Issue, IssueCategory, IssueStatus } from '../types';
+import { isStatusChange } from './statusTransitions';
+
+/** Hours an issue may stay in each open status; statuses without a target are never overdue */
+export type SlaTargets = Partial<Record<IssueStatus, number>>;
+
+const DEFAULT_SLA_TARGETS: Record<IssueCategory, SlaTargets> = {
+  [IssueCategory.ROAD]: { reported: 48, under_review: 72, in_progress: 336 },
+  [IssueCategory.WATER]: { reported: 8, under_review: 24, in_progress: 72 },
+  [IssueCategory.ELECTRICITY]: { reported: 24, under_review: 48, in_progress: 120 },
+  [IssueCategory.WASTE]: { reported: 48, under_review: 72, in_progress: 168 },
+  [IssueCategory.SAFETY]: { reported: 4, under_review: 12, in_progress: 48 },
+  [IssueCategory.OTHER]: { reported: 72, under_review: 120, in_progress: 336 },
+};
+
+// Per-category overrides as JSON, e.g. REACT_APP_SLA_TARGETS={"water":{"reported":4}}
+const parseOverrides = (value?: string): Partial<Record<IssueCategory, SlaTargets>> => {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.warn('Ignoring REACT_APP_SLA_TARGETS: not valid JSON');
+    return {};
+  }
+};
+
+const overrides = parseOverrides(process.env.REACT_APP_SLA_TARGETS);
+
+/** Response-time commitments per category and status, with any configured overrides applied */
+export const SLA_TARGETS: Record<IssueCategory, SlaTargets> = Object.values(IssueCategory).reduce(
+  (targets, category) => ({ ...targets, [category]: { ...DEFAULT_SLA_TARGETS[category], ...overrides[category] } }),
+  {} as Record<IssueCategory, SlaTargets>
+);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Share of the target left at which an issue counts as due soon */
+const DUE_SOON_FRACTION = 0.25;
+
+export interface SlaState {
+  /** When the issue entered its current status */
+  enteredAt: Date;
+  dueAt: Date;
+  targetHours: number;
+  /** Negative once overdue */
+  remainingMs: number;
+  overdue: boolean;
+  dueSoon: boolean;
+}
+
+/**
+ * When the issue entered its current status, worked out from its own status changes.
+ * Assignment and merge entries repeat the current status, and history copied from
+ * merged duplicates belongs to those issues, so all of them are skipped.
+ * @param issue - Issue to inspect
+ */
+export const getStatusEnteredAt = (issue: Issue): Date => {
+  const logs = (issue.statusLogs || [])
+    .filter(isStatusChange)
+    .sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime());
+
+  let enteredAt: Date | null = null;
+  for (let i = logs.length - 1; i >= 0 && logs[i].status === issue.status; i--) {
+    enteredAt = new Date(logs[i].changedAt);
+  }
+  if (enteredAt) return enteredAt;
+
+  // History that doesn't end in the current status: the last recorded change is the best guess
+  return logs.length > 0 ? new Date(logs[logs.length - 1].changedAt) : new Date(issue.reportedAt);
+};
+
+/**
+ * SLA standing of an issue in its current status
+ * @param issue - Issue to check
+ * @param now - Time to measure against
+ * @returns The SLA state, or null when the current status has no target (e.g. resolved)
+ */
+export const getSlaState = (issue: Issue, now: Date = new Date()): SlaState | null => {
+  const targetHours = SLA_TARGETS[issue.category as IssueCategory]?.[issue.status];
+  if (!targetHours || issue.mergedInto) return null;
+
+  const enteredAt = getStatusEnteredAt(issue);
+  const dueAt = new Date(enteredAt.getTime() + targetHours * HOUR_MS);
+  const remainingMs = dueAt.getTime() - now.getTime();
+
+  return {
+    enteredAt,
+    dueAt,
+    targetHours,
+    remainingMs,
+    overdue: remainingMs < 0,
+    dueSoon: remainingMs >= 0 && remainingMs <= targetHours * HOUR_MS * DUE_SOON_FRACTION,
+  };
+};
+
+/**
+ * Whether an issue has been in its current status longer than its target
+ * @param issue - Issue to check
+ * @param now - Time to measure against
+ */
+export const isOverdue = (issue: Issue, now: Date = new Date()): boolean =>
+  !!getSlaState(issue, now)?.overdue;
+
+/**
+ * Short duration for SLA chips, in the largest sensible units
+ * @param ms - Duration in milliseconds; the sign is ignored
+ * @returns e.g. "2d 4h", "5h", "30m"
+ */
+export const formatSlaDuration = (ms: number): string => {
+  const minutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return `${hours}h`;
+  return `${Math.max(1, minutes)}m`;
+};
@@ -0,0 +1,104 @@
+import { IssueStatus } from '../types';
+import {
+  getCommentRequirement,
+  getNextStatuses,
+  STATUS_TRANSITIONS,
+  validateTransition
+} from './statusTransitions';
+
+const {
+  REPORTED,
+  UNDER_REVIEW,
+  IN_PROGRESS,
+  RESOLVED,
+  CLOSED
+} = IssueStatus;
+
+// Every legal move, with whether it needs a comment
+const LEGAL: [IssueStatus, IssueStatus, boolean][] = [
+  [REPORTED, UNDER_REVIEW, false],
+  [REPORTED, IN_PROGRESS, false],
+  [REPORTED, RESOLVED, false],
+  [REPORTED, CLOSED, true],
+  [UNDER_REVIEW, IN_PROGRESS, false],
+  [UNDER_REVIEW, RESOLVED, false],
+  [UNDER_REVIEW, CLOSED, true],
+  [IN_PROGRESS, RESOLVED, false],
+  [IN_PROGRESS, UNDER_REVIEW, true],
+  [IN_PROGRESS, CLOSED, true],
+  [RESOLVED, CLOSED, false],
+  [RESOLVED, IN_PROGRESS, true],
+  [CLOSED, UNDER_REVIEW, true]
+];
+
+const ALL_STATUSES = Object.values(IssueStatus);
+
+// Every other pair of statuses, staying put included
+const ILLEGAL: [IssueStatus, IssueStatus][] = ALL_STATUSES
+  .flatMap(from => ALL_STATUSES.map(to => [from, to] as [IssueStatus, IssueStatus]))
+  .filter(([from, to]) => !LEGAL.some(([legalFrom, legalTo]) => legalFrom === from && legalTo === to));
+
+describe('STATUS_TRANSITIONS', () => {
+  test('lists exactly the legal moves', () => {
+    const listed = ALL_STATUSES.flatMap(from =>
+      STATUS_TRANSITIONS[from].map(transition => [from, transition.to, !!transition.commentRequired]));
+    expect(listed).toEqual(expect.arrayContaining(LEGAL));
+    expect(listed).toHaveLength(LEGAL.length);
+  });
+
+  test.each(ALL_STATUSES)('offers only legal moves from %s', from => {
+    const expected = LEGAL.filter(([legalFrom]) => legalFrom === from).map(([, to]) => to);
+    expect(getNextStatuses(from).sort()).toEqual(expected.sort());
+  });
+});
+
+describe('validateTransition', () => {
+  test.each(LEGAL)('allows %s to %s with a comment', (from, to) => {
+    expect(validateTransition(from, to, 'Checked on site')).toBeNull();
+  });
+
+  test.each(ILLEGAL)('rejects %s to %s', (from, to) => {
+    expect(validateTransition(from, to, 'Checked on site')).toMatch(/^An issue cannot move from /);
+  });
+
+  test('names both statuses in words', () => {
+    expect(validateTransition(IN_PROGRESS, REPORTED)).toBe('An issue cannot move from in progress to reported');
+  });
+
+  test.each(LEGAL.filter(([, , commentRequired]) => commentRequired))(
+    'requires a comment for %s to %s',
+    (from, to) => {
+      const prompt = getCommentRequirement(from, to);
+      expect(validateTransition(from, to)).toBe(`${prompt}.`);
+      expect(validateTransition(from, to, null)).toBe(`${prompt}.`);
+      expect(validateTransition(from, to, '   ')).toBe(`${prompt}.`);
+    }
+  );
+
+  test.each(LEGAL.filter(([, , commentRequired]) => !commentRequired))(
+    'allows %s to %s without a comment',
+    (from, to) => {
+      expect(validateTransition(from, to)).toBeNull();
+    }
+  );
+});
+
+describe('getCommentRequirement', () => {
+  test.each(LEGAL)('for %s to %s matches the table (comment required: %s)', (from, to, commentRequired) => {
+    expect(getCommentRequirement(from, to) !== null).toBe(commentRequired);
+  });
+
+  test('asks why an issue is closed without a fix', () => {
+    expect(getCommentRequirement(REPORTED, CLOSED)).toBe('Explain why the issue is being closed without a fix');
+    expect(getCommentRequirement(RESOLVED, CLOSED)).toBeNull();
+  });
+
+  test('asks why an issue is reopened', () => {
+    expect(getCommentRequirement(RESOLVED, IN_PROGRESS)).toBe('Explain why the issue is being reopened');
+    expect(getCommentRequirement(CLOSED, UNDER_REVIEW)).toBe('Explain why the issue is being reopened');
+  });
+
+  test('is null for a move that is not allowed', () => {
+    expect(getCommentRequirement(CLOSED, RESOLVED)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { IssueStatus, StatusLog } from '../types';
+
+interface StatusTransition {
+  to: IssueStatus;
+  /** Shown when the transition needs a comment, which is then mandatory */
+  commentRequired?: string;
+}
+
+/**
+ * Every status an issue may move to from each status. Anything not listed here is
+ * rejected by the UI and the backend alike.
+ */
+export const STATUS_TRANSITIONS: Record<IssueStatus, StatusTransition[]> = {
+  [IssueStatus.REPORTED]: [
+    { to: IssueStatus.UNDER_REVIEW },
+    { to: IssueStatus.IN_PROGRESS },
+    { to: IssueStatus.RESOLVED },
+    { to: IssueStatus.CLOSED, commentRequired: 'Explain why the issue is being closed without a fix' },
+  ],
+  [IssueStatus.UNDER_REVIEW]: [
+    { to: IssueStatus.IN_PROGRESS },
+    { to: IssueStatus.RESOLVED },
+    { to: IssueStatus.CLOSED, commentRequired: 'Explain why the issue is being closed without a fix' },
+  ],
+  [IssueStatus.IN_PROGRESS]: [
+    { to: IssueStatus.RESOLVED },
+    { to: IssueStatus.UNDER_REVIEW, commentRequired: 'Explain why work on the issue has stopped' },
+    { to: IssueStatus.CLOSED, commentRequired: 'Explain why the issue is being closed without a fix' },
+  ],
+  [IssueStatus.RESOLVED]: [
+    { to: IssueStatus.CLOSED },
+    { to: IssueStatus.IN_PROGRESS, commentRequired: 'Explain why the issue is being reopened' },
+  ],
+  [IssueStatus.CLOSED]: [
+    { to: IssueStatus.UNDER_REVIEW, commentRequired: 'Explain why the issue is being reopened' },
+  ],
+};
+
+/**
+ * Whether a value is one of the known issue statuses
+ * @param value - Value to check, e.g. from a server response
+ */
+export const isIssueStatus = (value: unknown): value is IssueStatus =>
+  Object.values(IssueStatus).includes(value as IssueStatus);
+
+const findTransition = (from: IssueStatus, to: IssueStatus): StatusTransition | undefined =>
+  (STATUS_TRANSITIONS[from] || []).find(transition => transition.to === to);
+
+/**
+ * Statuses an issue can move to next, in the order they should be offered
+ * @param from - Current status
+ */
+export const getNextStatuses = (from: IssueStatus): IssueStatus[] =>
+  (STATUS_TRANSITIONS[from] || []).map(transition => transition.to);
+
+/**
+ * Why a transition needs a comment
+ * @param from - Current status
+ * @param to - Target status
+ * @returns The prompt for the comment, or null when a comment is optional
+ */
+export const getCommentRequirement = (from: IssueStatus, to: IssueStatus): string | null =>
+  findTransition(from, to)?.commentRequired || null;
+
+/**
+ * Check a status change against the transition table
+ * @param from - Current status
+ * @param to - Target status
+ * @param comment - Comment or reason given for the change
+ * @returns Error message, or null when the change is allowed
+ */
+export const validateTransition = (from: IssueStatus, to: IssueStatus, comment?: string | null): string | null => {
+  const transition = findTransition(from, to);
+  if (!transition) {
+    return `An issue cannot move from ${from.replace('_', ' ')} to ${to.replace('_', ' ')}`;
+  }
+  if (transition.commentRequired && !comment?.trim()) {
+    return `${transition.commentRequired}.`;
+  }
+  return null;
+};
+
+/**
+ * Whether a history entry records a change to the issue's own status. Assignment and
+ * merge entries only repeat the status, and entries copied from merged duplicates
+ * happened to those issues; metrics derived from status history should skip all three.
+ * @param log - Status history entry
+ */
+export const isStatusChange = (log: StatusLog): boolean =>
+  !log.kind && !log.assignedTo && !log.mergedFrom;